@@ -179,11 +179,11 @@ export class AudioStreamService {
       if (format === 'webm' || format === 'mp3' || format === 'wav') {
         console.log('[AudioStreamService] Decoding as', format);
         const audioBuffer = await context.decodeAudioData(arrayBuffer.slice(0));
-        this._schedulePlayback(audioBuffer);
+        this._schedulePlayback(audioBuffer, meta.itemId);
       } else {
         console.log('[AudioStreamService] Playing as PCM16, sampleRate:', sampleRate);
         const audioBuffer = await this._createPcm16Buffer(arrayBuffer, sampleRate);
-        this._schedulePlayback(audioBuffer);
+        this._schedulePlayback(audioBuffer, meta.itemId);
       }
     } catch (err) {
       console.error('[AudioStreamService] playAudioChunk error:', err);
@@ -196,7 +196,30 @@ export class AudioStreamService {
     }
   }
 
-  _schedulePlayback(audioBuffer) {
+  /**
+   * Barge-in: stoppt alle geplanten Chunks sofort und liefert, wie viele
+   * Millisekunden des Items `itemId` bereits zu hören waren.
+   */
+  flushPlayback(itemId) {
+    const now = this.audioContext?.currentTime ?? 0;
+    let playedSeconds = 0;
+    for (const entry of this.scheduledSources || []) {
+      if (!itemId || entry.itemId === itemId) {
+        playedSeconds += Math.min(Math.max(now - entry.startTime, 0), entry.duration);
+      }
+      try {
+        entry.source.stop();
+      } catch (err) {
+        // bereits beendet
+      }
+    }
+    this.scheduledSources = [];
+    this.nextPlaybackTime = 0;
+    this._notifyStatus('Wiedergabe unterbrochen (Barge-in)');
+    return playedSeconds * 1000;
+  }
+
+  _schedulePlayback(audioBuffer, itemId) {
     const context = this.audioContext;
     const source = context.createBufferSource();
     source.buffer = audioBuffer;
@@ -206,6 +229,12 @@ export class AudioStreamService {
     source.start(startTime);
     this.nextPlaybackTime = startTime + audioBuffer.duration;
 
+    // Chunks des aktuellen Items für flushPlayback() behalten, abgespielte ältere Items verwerfen
+    this.scheduledSources = (this.scheduledSources || []).filter(
+      (entry) => entry.itemId === itemId || entry.startTime + entry.duration > context.currentTime,
+    );
+    this.scheduledSources.push({ source, startTime, duration: audioBuffer.duration, itemId });
+
     console.log('[AudioStreamService] Audio scheduled at', startTime.toFixed(3), 'duration', audioBuffer.duration.toFixed(3));
   }
 
@@ -1,21 +1,43 @@
 const DEFAULT_SAMPLE_RATE = 24000;
 
+// Header der Binärframes (siehe test-socket helper/BinaryAudioFrame.ts)
+const BINARY_FRAME_VERSION = 1;
+const BINARY_FRAME_HEADER_BYTES = 12;
+const AUDIO_FORMAT_CODES = { pcm16: 0, webm: 1, opus: 2 };
+
 /**
  * Schlanker Transport über WebSocket. Stellt optional einen
  * Offer/Answer-Aufbau für WebRTC bereit (wenn `useWebRTC` true ist),
  * fällt aber ansonsten auf reinen WS-Transport zurück.
+ *
+ * Mit WebRTC geht das Mikrofon als Opus-Track an den Server
+ * (`attachInputStream`), die Übersetzung kommt als Track zurück (`onTrack`).
  */
 export class AudioTransport {
-  constructor({ url, onBinary, onStatus, onConnectionChange, onStreamingChange, onFallback, onError } = {}) {
+  constructor({ url, protocols, binaryAudio = false, onBinary, onTrack, onTranscript, onFlush, onStatus, onConnectionChange, onStreamingChange, onFallback, onError } = {}) {
     this.url = url;
+    // Subprotokolle für die Authentifizierung, z. B. ['realtime', 'token.<token>']
+    this.protocols = protocols;
+    // Audio als Binärframes statt base64-JSON, wird per ?audio=binary ausgehandelt
+    this.binaryAudio = binaryAudio;
+    if (binaryAudio) {
+      const binaryUrl = new URL(url);
+      binaryUrl.searchParams.set('audio', 'binary');
+      this.url = binaryUrl.toString();
+    }
     this.socket = null;
     this.peerConnection = null;
     this.dataChannel = null;
+    this.audioTransceiver = null;
+    this.inputStream = null;
     this.fallbackActive = false;
     this.connectionState = 'disconnected';
     this.streamingActive = false;
 
     this.onBinary = onBinary;
+    this.onTrack = onTrack;
+    this.onTranscript = onTranscript;
+    this.onFlush = onFlush;
     this.onStatus = onStatus;
     this.onConnectionChange = onConnectionChange;
     this.onStreamingChange = onStreamingChange;
@@ -45,7 +67,7 @@ export class AudioTransport {
 
   async _openSocket() {
     return new Promise((resolve, reject) => {
-      this.socket = new WebSocket(this.url);
+      this.socket = new WebSocket(this.url, this.protocols);
       this.socket.binaryType = 'arraybuffer';
 
       this.socket.onopen = () => {
@@ -71,6 +93,17 @@ export class AudioTransport {
         console.log('[AudioTransport] Message received:', typeof event.data, event.data instanceof ArrayBuffer ? `ArrayBuffer(${event.data.byteLength})` : event.data.substring?.(0, 200));
 
         if (event.data instanceof ArrayBuffer) {
+          if (this.binaryAudio) {
+            const frame = this._parseBinaryFrame(event.data);
+            if (frame) {
+              this.onBinary?.(frame.payload, {
+                format: frame.format,
+                sampleRate: frame.sampleRate,
+                itemId: this._binaryItemId,
+              });
+            }
+            return;
+          }
           this.onBinary?.(event.data);
           return;
         }
@@ -89,7 +122,25 @@ export class AudioTransport {
               bytes[i] = binaryString.charCodeAt(i);
             }
             console.log('[AudioTransport] Calling onBinary with', bytes.buffer.byteLength, 'bytes');
-            this.onBinary?.(bytes.buffer, { format: msg.format, sampleRate: msg.sampleRate });
+            this.onBinary?.(bytes.buffer, { format: msg.format, sampleRate: msg.sampleRate, itemId: msg.itemId });
+            return;
+          }
+
+          // Live-Untertitel: source 'input' (Sprecher) oder 'output' (Übersetzung)
+          if (msg.type === 'transcript.partial' || msg.type === 'transcript.final') {
+            this.onTranscript?.({ ...msg, final: msg.type === 'transcript.final' });
+            return;
+          }
+
+          // Kündigt im Binärmodus die folgenden Audioframes einer Antwort an
+          if (msg.type === 'tts.start') {
+            this._binaryItemId = msg.itemId;
+            return;
+          }
+
+          // Barge-in: Wiedergabe sofort leeren, Antwort mit sendPlaybackFlushed()
+          if (msg.type === 'playback.flush') {
+            this.onFlush?.(msg);
             return;
           }
 
@@ -107,6 +158,16 @@ export class AudioTransport {
       iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
     });
 
+    // Audio in beide Richtungen: Mikrofon hoch, Übersetzung zurück
+    this.audioTransceiver = this.peerConnection.addTransceiver('audio', { direction: 'sendrecv' });
+    if (this.inputStream) {
+      await this.attachInputStream(this.inputStream);
+    }
+    this.peerConnection.ontrack = (event) => {
+      this._notify('Übersetzung kommt als WebRTC-Track');
+      this.onTrack?.(event.streams[0] ?? new MediaStream([event.track]));
+    };
+
     this.dataChannel = this.peerConnection.createDataChannel('audio');
     this.dataChannel.binaryType = 'arraybuffer';
 
@@ -134,9 +195,7 @@ export class AudioTransport {
     };
 
     this.peerConnection.onicecandidate = ({ candidate }) => {
-      if (candidate) {
-        this._sendSignal({ type: 'ice', candidate });
-      }
+      this._sendSignal({ type: 'ice', candidate: candidate ? candidate.toJSON() : null });
     };
 
     this.peerConnection.onconnectionstatechange = () => {
@@ -167,6 +226,9 @@ export class AudioTransport {
       case 'fallback':
         this._activateFallback(message.reason || 'Server verlangt Fallback');
         break;
+      case 'webrtc.state':
+        this._notify(`WebRTC ${message.state} (Eingang: ${message.input ? 'Track' : 'WebSocket'}, Ausgang: ${message.output ? 'Track' : 'WebSocket'})`);
+        break;
       default:
         this._notify(`Unbekanntes Signal: ${message.type}`);
     }
@@ -185,12 +247,31 @@ export class AudioTransport {
   _activateFallback(reason) {
     if (this.fallbackActive) return;
     this.fallbackActive = true;
+    this._closePeer();
     this._notify(`Fallback aktiv: ${reason}`);
     this.onFallback?.(reason);
     this._setStreaming(this.socket?.readyState === WebSocket.OPEN);
   }
 
+  /** Schickt das Mikrofon als RTP-Track; ohne WebRTC bleibt es bei sendChunk. */
+  async attachInputStream(stream) {
+    this.inputStream = stream;
+    const track = stream?.getAudioTracks()[0] ?? null;
+    if (this.audioTransceiver) {
+      await this.audioTransceiver.sender.replaceTrack(track);
+    }
+  }
+
+  /** Solange der Track läuft, bekommt der Server das Mikrofon schon per RTP. */
+  _rtpInputActive() {
+    return this.peerConnection?.connectionState === 'connected' && !!this.audioTransceiver?.sender.track;
+  }
+
   sendChunk({ payload, encoder }) {
+    if (this._rtpInputActive()) {
+      return;
+    }
+
     if (this.dataChannel && this.dataChannel.readyState === 'open') {
       this.dataChannel.send(this._wrapPayload(payload, encoder));
       return;
@@ -201,7 +282,9 @@ export class AudioTransport {
         encoder,
         timestamp: Date.now(),
       };
-      this.socket.send(this._wrapPayload(payload, encoder, metadata));
+      this.socket.send(
+        this.binaryAudio ? this._wrapBinaryPayload(payload, encoder) : this._wrapPayload(payload, encoder, metadata),
+      );
       if (!this.streamingActive) {
         this._setStreaming(true);
       }
@@ -211,16 +294,15 @@ export class AudioTransport {
     this._notify('Kann Chunk nicht senden: keine aktive Verbindung');
   }
 
-  close() {
-    if (this.dataChannel) {
-      this.dataChannel.close();
-      this.dataChannel = null;
+  sendPlaybackFlushed(itemId, playedMs) {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: 'playback.flushed', itemId, playedMs: Math.round(playedMs) }));
     }
+  }
 
-    if (this.peerConnection) {
-      this.peerConnection.close();
-      this.peerConnection = null;
-    }
+  close() {
+    this._closePeer();
+    this.inputStream = null;
 
     if (this.socket) {
       this.socket.close();
@@ -232,6 +314,19 @@ export class AudioTransport {
   }
 
 
+  _closePeer() {
+    if (this.dataChannel) {
+      this.dataChannel.close();
+      this.dataChannel = null;
+    }
+
+    if (this.peerConnection) {
+      this.peerConnection.close();
+      this.peerConnection = null;
+    }
+    this.audioTransceiver = null;
+  }
+
   _wrapPayload(payload, encoder, metadata = {}) {
     let binary = '';
     const len = payload.byteLength;
@@ -254,6 +349,38 @@ export class AudioTransport {
     });
   }
 
+  _wrapBinaryPayload(payload, encoder) {
+    this._chunkSequence = (this._chunkSequence || 0) + 1;
+    const frame = new Uint8Array(BINARY_FRAME_HEADER_BYTES + payload.byteLength);
+    const header = new DataView(frame.buffer);
+    header.setUint8(0, BINARY_FRAME_VERSION);
+    header.setUint8(1, encoder === 'opus' ? AUDIO_FORMAT_CODES.webm : AUDIO_FORMAT_CODES.pcm16);
+    header.setUint16(2, 0);
+    header.setUint32(4, this._chunkSequence);
+    header.setUint32(8, DEFAULT_SAMPLE_RATE);
+    frame.set(new Uint8Array(payload.buffer ?? payload, payload.byteOffset ?? 0, payload.byteLength), BINARY_FRAME_HEADER_BYTES);
+    return frame.buffer;
+  }
+
+  _parseBinaryFrame(buffer) {
+    if (buffer.byteLength <= BINARY_FRAME_HEADER_BYTES) {
+      return null;
+    }
+    const header = new DataView(buffer);
+    if (header.getUint8(0) !== BINARY_FRAME_VERSION) {
+      this._notify(`Unbekannte Binärframe-Version ${header.getUint8(0)}`);
+      return null;
+    }
+    const formatCode = header.getUint8(1);
+    const format = Object.keys(AUDIO_FORMAT_CODES).find((name) => AUDIO_FORMAT_CODES[name] === formatCode);
+    return {
+      format,
+      sequence: header.getUint32(4),
+      sampleRate: header.getUint32(8),
+      payload: buffer.slice(BINARY_FRAME_HEADER_BYTES),
+    };
+  }
+
   _setStreaming(active) {
     this.streamingActive = active;
     this.onStreamingChange?.(active);
@@ -2,7 +2,9 @@ import { AudioStreamService } from './audio-stream-service.js';
 import { AudioTransport } from './audio-transport.js';
 
 const defaultConfig = {
-  transportUrl: 'ws://localhost:3000/ws',
+  transportUrl: 'ws://localhost:3000/realtime',
+  transportProtocols: ['realtime', 'apikey.dev-key'],
+  binaryAudio: false,
   encoder: 'pcm',
 };
 
@@ -22,7 +24,18 @@ export class AudioWidget {
 
     this.transport = new AudioTransport({
       url: this.config.transportUrl,
+      protocols: this.config.transportProtocols,
+      binaryAudio: this.config.binaryAudio,
       onBinary: (data, meta) => this.streamService.playAudioChunk(data, meta),
+      onTrack: (stream) => this._playTrack(stream),
+      onTranscript: (transcript) => this._showTranscript(transcript),
+      onFlush: ({ itemId, truncated }) => {
+        const playedMs = this.streamService.flushPlayback(itemId);
+        // Bei Ausgabe über den WebRTC-Track hat der Server schon gekürzt
+        if (!truncated) {
+          this.transport.sendPlaybackFlushed(itemId, playedMs);
+        }
+      },
       onStatus: (msg) => this._logStatus(`Transport: ${msg}`),
       onConnectionChange: (state) => this._setConnectionState(state),
       onStreamingChange: (active) => this._setStreamingState(active),
@@ -38,6 +51,7 @@ export class AudioWidget {
     try {
       // await this.transport.connect();
       await this.streamService.startCapture({ encoder: this.encoderSelect.value });
+      await this.transport.attachInputStream(this.streamService.mediaStream);
       this._setRunning(true);
     } catch (err) {
       this._logStatus(`Start fehlgeschlagen: ${err.message || err}`);
@@ -51,6 +65,11 @@ export class AudioWidget {
     this._setRunning(false);
   }
 
+  _playTrack(stream) {
+    this.outputAudio.srcObject = stream;
+    this.outputAudio.play().catch((err) => this._logStatus(`Wiedergabe des Tracks fehlgeschlagen: ${err.message || err}`));
+  }
+
   _sendChunk(chunk) {
     this.transport.sendChunk(chunk);
   }
@@ -68,6 +87,12 @@ export class AudioWidget {
     this.statusBox.textContent = this.statusLog.join('\n');
   }
 
+  _showTranscript({ source, text, final }) {
+    const line = source === 'input' ? this.inputSubtitle : this.outputSubtitle;
+    line.textContent = text;
+    line.classList.toggle('subtitle-partial', !final);
+  }
+
   _setRunning(running) {
     this.startButton.disabled = running;
     this.stopButton.disabled = !running;
@@ -127,7 +152,12 @@ export class AudioWidget {
         <span class="badge badge-idle" data-ref="stream">wartet</span>
         <span class="badge" data-ref="fallback">keine Fallbacks</span>
       </div>
+      <div class="subtitles" aria-live="polite">
+        <p class="subtitle subtitle-input" data-ref="subtitle-input"></p>
+        <p class="subtitle subtitle-output" data-ref="subtitle-output"></p>
+      </div>
       <pre class="status-box" data-ref="log"></pre>
+      <audio data-ref="output-audio" hidden></audio>
     `;
 
     this.startButton = this.root.querySelector('[data-action="start"]');
@@ -140,6 +170,9 @@ export class AudioWidget {
     this.connectionBadge = this.root.querySelector('[data-ref="connection"]');
     this.streamingBadge = this.root.querySelector('[data-ref="stream"]');
     this.fallbackBadge = this.root.querySelector('[data-ref="fallback"]');
+    this.inputSubtitle = this.root.querySelector('[data-ref="subtitle-input"]');
+    this.outputSubtitle = this.root.querySelector('[data-ref="subtitle-output"]');
+    this.outputAudio = this.root.querySelector('[data-ref="output-audio"]');
 
     this.startButton.addEventListener('click', () => this.start());
     this.stopButton.addEventListener('click', () => this.stop());
@@ -1,37 +1,94 @@
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { PingController } from './controllers/ping.controller';
 import { HealthController } from './controllers/health.controller';
 import { EchoController } from './controllers/echo.controller';
 import { StaticController } from './controllers/static.controller';
+import { AuthController } from './controllers/auth.controller';
+import { ProtocolController } from './controllers/protocol.controller';
+import { ConversationController } from './controllers/conversation.controller';
+import { AdminController } from './controllers/admin.controller';
+import { MetricsController } from './controllers/metrics.controller';
 import { PingService } from './services/ping.service';
-import { HealthService } from './services/health.service';
+import { HEALTH_CONFIG, HealthService, loadHealthConfig } from './services/health.service';
 import { EchoService } from './services/echo.service';
 import { SocketioGateway } from './gateway/socket-io.gateway';
 import { OwnAudioService } from './services/audio.service';
-import { AudioRecordingService } from './services/recording.service';
+import {
+  AudioRecordingService,
+  loadSessionRecordingConfig,
+  SESSION_RECORDING_CONFIG,
+} from './services/recording.service';
 import { SocketLiveAudioService } from './services/live-audio.service';
 import { OwnWebSocketGateway } from './gateway/websocket.gateway';
 import { RealtimeGateway } from './gateway/realtime.gateway';
+import { SignalingGateway } from './gateway/signaling.gateway';
+import {
+  loadRealtimeUpstreamConfig,
+  REALTIME_UPSTREAM_CONFIG,
+  RealtimeConfigService,
+} from './services/realtime-config.service';
+import { CLIENT_AUTH_CONFIG, ClientAuthService, loadClientAuthConfig } from './services/client-auth.service';
+import { loadQuotaConfig, QUOTA_CONFIG, QuotaService } from './services/quota.service';
+import { ToolRegistryService } from './services/tool-registry.service';
+import { ConversationStoreService } from './services/conversation-store.service';
+import { ResourceLifecycleService } from './services/resource-lifecycle.service';
+import { MetricsService } from './services/metrics.service';
+import { loadRoomConfig, ROOM_CONFIG, RoomService } from './services/room.service';
+import { loadSignalingConfig, SIGNALING_CONFIG, SignalingService } from './services/signaling.service';
+import { loadWebRtcConfig, WEBRTC_CONFIG, WebRtcService } from './services/webrtc.service';
+import { AUDIO_CODEC_CONFIG, AudioCodecService, loadAudioCodecConfig } from './services/audio-codec.service';
+import { GLOSSARY_CONFIG, GlossaryTool, loadGlossaryConfig } from './tools/glossary.tool';
+import { OpenAiRtcService } from '../services/openai-rtc.service';
 
 @Module({
-  imports: [ ],
+  imports: [DiscoveryModule],
   controllers: [
     PingController,
     HealthController,
     EchoController,
-    StaticController
+    StaticController,
+    AuthController,
+    ProtocolController,
+    ConversationController,
+    AdminController,
+    MetricsController,
   ],
   providers: [
     PingService,
+    { provide: HEALTH_CONFIG, useFactory: () => loadHealthConfig() },
     HealthService,
     EchoService,
     OwnAudioService,
+    { provide: SESSION_RECORDING_CONFIG, useFactory: () => loadSessionRecordingConfig() },
     AudioRecordingService,
     // SocketioGateway,
     OwnWebSocketGateway,
     // SocketIoZweiGateway,
     SocketLiveAudioService,
-    RealtimeGateway
+    RealtimeGateway,
+    SignalingGateway,
+    { provide: REALTIME_UPSTREAM_CONFIG, useFactory: () => loadRealtimeUpstreamConfig() },
+    RealtimeConfigService,
+    { provide: CLIENT_AUTH_CONFIG, useFactory: () => loadClientAuthConfig() },
+    ClientAuthService,
+    { provide: QUOTA_CONFIG, useFactory: () => loadQuotaConfig() },
+    QuotaService,
+    { provide: AUDIO_CODEC_CONFIG, useFactory: () => loadAudioCodecConfig() },
+    AudioCodecService,
+    ResourceLifecycleService,
+    MetricsService,
+    { provide: ROOM_CONFIG, useFactory: () => loadRoomConfig() },
+    RoomService,
+    { provide: SIGNALING_CONFIG, useFactory: () => loadSignalingConfig() },
+    SignalingService,
+    { provide: WEBRTC_CONFIG, useFactory: () => loadWebRtcConfig() },
+    WebRtcService,
+    ToolRegistryService,
+    ConversationStoreService,
+    OpenAiRtcService,
+    { provide: GLOSSARY_CONFIG, useFactory: () => loadGlossaryConfig() },
+    GlossaryTool,
   ],
 })
 export class AppModule {}
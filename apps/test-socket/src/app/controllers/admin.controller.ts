@@ -0,0 +1,109 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Controller, Get, Param, Post, Req, Res } from '@nestjs/common';
+import { ApiOperation } from '@nestjs/swagger';
+import { ClientAuthService, clientScopes } from '../services/client-auth.service';
+import { ResourceLifecycleService } from '../services/resource-lifecycle.service';
+import { RoomService } from '../services/room.service';
+import { SignalingService } from '../services/signaling.service';
+import { AudioRecordingService } from '../services/recording.service';
+
+/** Content types of the files a recording bundle consists of. */
+const RECORDING_CONTENT_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.webm': 'audio/webm',
+  '.json': 'application/json',
+  '.vtt': 'text/vtt',
+};
+
+@Controller('/admin')
+export class AdminController {
+  constructor(
+    private readonly authService: ClientAuthService,
+    private readonly resources: ResourceLifecycleService,
+    private readonly rooms: RoomService,
+    private readonly signaling: SignalingService,
+    private readonly recordingService: AudioRecordingService,
+  ) {}
+
+  @Get('resources')
+  @ApiOperation({ summary: 'Offene Ressourcen pro Verbindung und Leak-Zähler' })
+  getResources(@Req() request: FastifyRequest, @Res() reply: FastifyReply) {
+    if (!this.authorize(request, reply)) {
+      return reply;
+    }
+    return reply.send(this.resources.getStats());
+  }
+
+  @Post('resources/sweep')
+  @ApiOperation({ summary: 'Ressourcen bereits getrennter Verbindungen sofort freigeben' })
+  sweepResources(@Req() request: FastifyRequest, @Res() reply: FastifyReply) {
+    if (!this.authorize(request, reply)) {
+      return reply;
+    }
+    const reclaimed = this.resources.sweepLeaks();
+    return reply.send({ reclaimed, stats: this.resources.getStats() });
+  }
+
+  @Get('rooms')
+  @ApiOperation({ summary: 'Offene Übersetzungsräume mit Sprecher und Zuhörerzahl' })
+  getRooms(@Req() request: FastifyRequest, @Res() reply: FastifyReply) {
+    if (!this.authorize(request, reply)) {
+      return reply;
+    }
+    return reply.send(this.rooms.listRooms());
+  }
+
+  @Get('signaling')
+  @ApiOperation({ summary: 'WebRTC-Signaling: Räume mit verbundenen Peers und Mute-Status' })
+  getSignalingRooms(@Req() request: FastifyRequest, @Res() reply: FastifyReply) {
+    if (!this.authorize(request, reply)) {
+      return reply;
+    }
+    return reply.send(this.signaling.listRooms());
+  }
+
+  @Get('recordings')
+  @ApiOperation({ summary: 'Aufnahmen, Session-Mitschnitte mit Timeline und Untertiteln als attachments' })
+  getRecordings(@Req() request: FastifyRequest, @Res() reply: FastifyReply) {
+    if (!this.authorize(request, reply)) {
+      return reply;
+    }
+    return reply.send(this.recordingService.getAllRecordings());
+  }
+
+  @Get('recordings/:file')
+  @ApiOperation({ summary: 'Lädt eine Aufnahme oder die Timeline/Untertitel eines Session-Mitschnitts' })
+  getRecording(@Param('file') file: string, @Req() request: FastifyRequest, @Res() reply: FastifyReply) {
+    if (!this.authorize(request, reply)) {
+      return reply;
+    }
+    let filePath: string;
+    try {
+      filePath = this.recordingService.getRecordingFilePath(path.basename(file));
+    } catch (err) {
+      return reply.status(400).send({ error: 'unsupported_file', message: (err as Error).message });
+    }
+    if (!fs.existsSync(filePath)) {
+      return reply.status(404).send({ error: 'not_found' });
+    }
+    return reply
+      .type(RECORDING_CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream')
+      .send(fs.createReadStream(filePath));
+  }
+
+  /** Requires an API key with the `realtime:admin` scope, answers 401/403 otherwise. */
+  private authorize(request: FastifyRequest, reply: FastifyReply): boolean {
+    const principal = this.authService.authenticateHttpRequest(request);
+    if (!principal) {
+      reply.status(401).send({ error: 'unauthorized' });
+      return false;
+    }
+    if (!this.authService.hasScope(principal, clientScopes.enum.admin)) {
+      reply.status(403).send({ error: 'insufficient_scope', scope: clientScopes.enum.admin });
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,34 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { Controller, Post, Req, Res } from '@nestjs/common';
+import { ApiOperation } from '@nestjs/swagger';
+import { z } from 'zod';
+import { ClientAuthService, clientScopes } from '../services/client-auth.service';
+
+export const issueTokenRequestSchema = z.object({
+  format: z.enum(['jwt', 'hmac']).optional(),
+  ttlSeconds: z.number().int().positive().optional(),
+  scopes: z.array(clientScopes).optional(),
+});
+
+@Controller('/auth')
+export class AuthController {
+  constructor(private readonly authService: ClientAuthService) {}
+
+  @Post('token')
+  @ApiOperation({ summary: 'Kurzlebiges Token für die Realtime-WebSocket-Verbindung ausstellen' })
+  async issueToken(@Req() request: FastifyRequest, @Res() reply: FastifyReply) {
+    const principal = this.authService.authenticateHttpRequest(request);
+    if (!principal) {
+      return reply.status(401).send({ error: 'unauthorized' });
+    }
+
+    const parsed = issueTokenRequestSchema.safeParse(request.body ?? {});
+    if (!parsed.success) {
+      return reply.status(400).send({ error: 'invalid_request', details: parsed.error.issues });
+    }
+
+    const { format, ttlSeconds, scopes } = parsed.data;
+    const issued = this.authService.issueToken(principal, format, ttlSeconds, scopes);
+    return reply.send({ ...issued, protocol: `token.${issued.token}` });
+  }
+}
@@ -0,0 +1,44 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { Controller, Get, Param, Query, Req, Res } from '@nestjs/common';
+import { ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { ClientAuthService } from '../services/client-auth.service';
+import { ConversationStoreService } from '../services/conversation-store.service';
+
+@Controller('/realtime/sessions')
+export class ConversationController {
+  constructor(
+    private readonly authService: ClientAuthService,
+    private readonly conversationStore: ConversationStoreService,
+  ) {}
+
+  @Get(':sessionId/conversation')
+  @ApiOperation({ summary: 'Verlauf einer aktiven Realtime-Session (Texte und Transkripte)' })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'text'] })
+  getConversation(
+    @Param('sessionId') sessionId: string,
+    @Query('format') format: string | undefined,
+    @Req() request: FastifyRequest,
+    @Res() reply: FastifyReply,
+  ) {
+    const principal = this.authService.authenticateHttpRequest(request);
+    if (!principal) {
+      return reply.status(401).send({ error: 'unauthorized' });
+    }
+
+    // Fremde Sessions wie unbekannte behandeln, damit keine Session-IDs erraten werden können
+    const conversation = this.conversationStore.get(sessionId);
+    if (!conversation || conversation.keyId !== principal.keyId) {
+      return reply.status(404).send({ error: 'unknown_session' });
+    }
+
+    if (format === 'text') {
+      const transcript = conversation.items
+        .filter((item) => item.type === 'message' && item.text)
+        .map((item) => `${item.role ?? 'unknown'}: ${item.text}`)
+        .join('\n');
+      return reply.type('text/plain; charset=utf-8').send(transcript);
+    }
+
+    return reply.send({ sessionId, startedAt: conversation.startedAt, items: conversation.items });
+  }
+}
@@ -1,17 +1,32 @@
-import { HealthService } from '../services/health.service';
+import { HealthReport, HealthService } from '../services/health.service';
 import { FastifyReply, FastifyRequest } from 'fastify';
-import { Controller, Post, Req, Res } from '@nestjs/common';
+import { Controller, Get, Post, Req, Res } from '@nestjs/common';
 import { ApiOperation } from '@nestjs/swagger';
 
 @Controller('/health')
 export class HealthController {
-  constructor(private readonly service: HealthService = new HealthService()) {}
+  constructor(private readonly service: HealthService) {}
 
   @Post()
-  @ApiOperation({ summary: 'Health Endpunkt' })
+  @ApiOperation({ summary: 'Health Endpunkt (veraltet, siehe /health/live)' })
   async getStatus(@Req() request: FastifyRequest, @Res() reply: FastifyReply) {
     const status = this.service.getStatus();
     return reply.send(status);
   }
-}
 
+  @Get('live')
+  @ApiOperation({ summary: 'Liveness: Prozess reagiert (Event-Loop-Lag), 503 sonst' })
+  getLiveness(@Res() reply: FastifyReply) {
+    return this.sendReport(reply, this.service.checkLiveness());
+  }
+
+  @Get('ready')
+  @ApiOperation({ summary: 'Readiness: ffmpeg, Verzeichnisse, Speicherplatz, Upstream und Sessions, 503 sonst' })
+  async getReadiness(@Res() reply: FastifyReply) {
+    return this.sendReport(reply, await this.service.checkReadiness());
+  }
+
+  private sendReport(reply: FastifyReply, report: HealthReport) {
+    return reply.status(report.status === 'up' ? 200 : 503).send(report);
+  }
+}
@@ -0,0 +1,15 @@
+import { FastifyReply } from 'fastify';
+import { Controller, Get, Res } from '@nestjs/common';
+import { ApiOperation } from '@nestjs/swagger';
+import { MetricsService } from '../services/metrics.service';
+
+@Controller('/metrics')
+export class MetricsController {
+  constructor(private readonly metrics: MetricsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Metriken im Prometheus-Textformat' })
+  async getMetrics(@Res() reply: FastifyReply) {
+    return reply.type(this.metrics.contentType).send(await this.metrics.render());
+  }
+}
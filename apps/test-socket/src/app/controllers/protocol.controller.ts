@@ -0,0 +1,19 @@
+import { FastifyReply } from 'fastify';
+import { Controller, Get, Res } from '@nestjs/common';
+import { ApiOperation } from '@nestjs/swagger';
+import { buildRealtimeAsyncApiDocument, buildRealtimeJsonSchema } from '../helper/RealtimeProtocolDocs';
+
+@Controller('/realtime/protocol')
+export class ProtocolController {
+  @Get('asyncapi.json')
+  @ApiOperation({ summary: 'AsyncAPI-Dokument des Realtime-WebSocket-Protokolls' })
+  getAsyncApi(@Res() reply: FastifyReply) {
+    return reply.send(buildRealtimeAsyncApiDocument());
+  }
+
+  @Get('schema.json')
+  @ApiOperation({ summary: 'JSON Schema aller Realtime-Nachrichten' })
+  getJsonSchema(@Res() reply: FastifyReply) {
+    return reply.send(buildRealtimeJsonSchema());
+  }
+}
@@ -0,0 +1,143 @@
+import { AddressInfo } from 'node:net';
+import { NestFactory } from '@nestjs/core';
+import { FastifyAdapter, NestFastifyApplication } from '@nestjs/platform-fastify';
+import { WsAdapter } from '@nestjs/platform-ws';
+import { WebSocket } from 'ws';
+import { AppModule } from '../app.module';
+import { MockRealtimeServer } from '../helper/MockRealtimeServer';
+import { REALTIME_PATH } from '../models/realtime-protocol.model';
+
+const CLIENT_KEY = 'spec-client-key';
+const UPSTREAM_KEY = 'spec-upstream-key';
+
+type ServerMessage = { type: string; [key: string]: unknown };
+
+/** Connects to the gateway and keeps every JSON message it receives. */
+class TestClient {
+  readonly messages: ServerMessage[] = [];
+  private readonly socket: WebSocket;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(url: string) {
+    this.socket = new WebSocket(url);
+    this.socket.on('message', (data, isBinary) => {
+      if (!isBinary) {
+        this.messages.push(JSON.parse(data.toString()));
+        this.waiters.splice(0).forEach((wake) => wake());
+      }
+    });
+  }
+
+  send(message: Record<string, unknown>): void {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  async waitFor(predicate: (message: ServerMessage) => boolean, timeoutMs = 5000): Promise<ServerMessage> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const match = this.messages.find(predicate);
+      if (match) {
+        return match;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`No matching message, got: ${this.messages.map((message) => message.type).join(', ')}`);
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, 100);
+        this.waiters.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
+
+describe('RealtimeGateway (e2e against MockRealtimeServer)', () => {
+  const env = { ...process.env };
+  let mock: MockRealtimeServer;
+  let app: NestFastifyApplication;
+  let url: string;
+
+  beforeAll(async () => {
+    mock = new MockRealtimeServer({ apiKey: UPSTREAM_KEY, script: { vadSilenceMs: 100, chunkIntervalMs: 5 } });
+    process.env.OPENAI_REALTIME_URL = await mock.start();
+    process.env.OPENAI_API_KEY = UPSTREAM_KEY;
+    process.env.REALTIME_PROVIDER = 'openai';
+    process.env.CLIENT_API_KEY = CLIENT_KEY;
+    delete process.env.CLIENT_API_KEYS;
+    delete process.env.OPENAI_REALTIME_PROFILES;
+
+    app = await NestFactory.create<NestFastifyApplication>(AppModule, new FastifyAdapter(), { logger: false });
+    app.useWebSocketAdapter(new WsAdapter(app));
+    await app.listen(0, '127.0.0.1');
+    const { port } = app.getHttpServer().address() as AddressInfo;
+    url = `ws://127.0.0.1:${port}${REALTIME_PATH}`;
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    await mock?.stop();
+    process.env = env;
+  });
+
+  it('rejects clients without credentials', async () => {
+    const socket = new WebSocket(url);
+    const code = await new Promise<number>((resolve) => socket.on('close', (closeCode) => resolve(closeCode)));
+    expect(code).toBe(4401);
+  });
+
+  it('translates streamed audio into output audio and transcripts', async () => {
+    const client = new TestClient(`${url}?api_key=${CLIENT_KEY}`);
+    try {
+      await client.waitFor((message) => message.type === 'ready');
+
+      client.send({ type: 'session.configure', targetLanguage: 'fr' });
+      const configured = await client.waitFor((message) => message.type === 'session.configured');
+      expect(configured.session).toMatchObject({ targetLanguage: 'fr' });
+      expect(mock.receivedEvents.some((event) => event.type === 'session.update')).toBe(true);
+
+      const pcm = Buffer.alloc(4800);
+      for (let i = 0; i < pcm.length / 2; i++) {
+        pcm.writeInt16LE(Math.round(Math.sin(i / 10) * 8000), i * 2);
+      }
+      for (let i = 0; i < 5; i++) {
+        client.send({ type: 'audio.chunk', data: pcm.toString('base64') });
+      }
+
+      const chunk = await client.waitFor((message) => message.type === 'tts-chunk');
+      expect(Buffer.from(chunk.data as string, 'base64').length).toBeGreaterThan(0);
+      const transcript = await client.waitFor(
+        (message) => message.type === 'transcript.final' && message.source === 'output',
+      );
+      expect(transcript.text).toBe('This is a scripted translation from the mock realtime server.');
+      expect(mock.receivedEvents.filter((event) => event.type === 'input_audio_buffer.append')).toHaveLength(5);
+    } finally {
+      client.close();
+    }
+  });
+
+  it('falls back to the WebSocket on invalid offers and validates ICE candidates', async () => {
+    const client = new TestClient(`${url}?api_key=${CLIENT_KEY}`);
+    try {
+      await client.waitFor((message) => message.type === 'ready');
+
+      client.send({ type: 'offer', sdp: 'v=0' });
+      const fallback = await client.waitFor((message) => message.type === 'fallback');
+      expect(fallback.reason).toMatch(/^Invalid offer/);
+
+      client.send({ type: 'ice', candidate: null });
+      client.send({ type: 'ice', candidate: { candidate: 'candidate:1', sdpMLineIndex: -1 } });
+      const error = await client.waitFor((message) => message.type === 'error');
+      expect(error.code).toBe('invalid_payload');
+      // Das Ende der Kandidaten ist gültig und erzeugt keinen Fehler
+      expect(client.messages.filter((message) => message.type === 'error')).toHaveLength(1);
+    } finally {
+      client.close();
+    }
+  });
+});
@@ -6,20 +6,119 @@ import {
   WebSocketServer,
 } from '@nestjs/websockets';
 import { IncomingMessage } from 'node:http';
-import { Server, WebSocket } from 'ws';
-import { AudioDeltaPayload, OpenAIRealtimeSocketHandler } from '../helper/OpenAISocketHandler';
+import { randomUUID } from 'node:crypto';
+import { RawData, Server, WebSocket } from 'ws';
+import { DEFAULT_TARGET_LANGUAGE, RealtimeSessionOptions } from '../helper/OpenAISocketHandler';
+import { PlaybackFlushPayload, TranscriptPayload } from '../helper/SpeechTranslationProvider';
+import { InputTranscoder, OutputTranscoder, resolveAudioFormat, UnsupportedAudioFormatError } from '../helper/AudioTranscoder';
+import {
+  GaveUpPayload,
+  OpenAiRtcService,
+  OpenAiRtcSession,
+  ReconnectedPayload,
+  ReconnectingPayload,
+  TtsChunkPayload,
+} from '../../services/openai-rtc.service';
+import { RealtimeConfigService, UnknownRealtimeProfileError } from '../services/realtime-config.service';
+import {
+  ClientAuthService,
+  ClientPrincipal,
+  ClientScope,
+  clientScopes,
+  UNAUTHORIZED_CLOSE_CODE,
+} from '../services/client-auth.service';
+import { pcm16Seconds, QuotaDecision, QuotaService, QuotaUsage } from '../services/quota.service';
+import { ConversationStoreService } from '../services/conversation-store.service';
+import { AudioCodecService } from '../services/audio-codec.service';
+import { ResourceLifecycleService } from '../services/resource-lifecycle.service';
+import { MetricsService } from '../services/metrics.service';
+import { WebRtcService } from '../services/webrtc.service';
+import { AudioRecordingService } from '../services/recording.service';
+import { WebRtcAudioPeer, WebRtcPeerState } from '../helper/WebRtcAudioPeer';
+import { SessionRecorder, SessionRecordingInfo } from '../helper/SessionRecorder';
+import { LatencyReport, LatencyTracker } from '../helper/LatencyTracker';
+import {
+  AudioTransport,
+  audioTransports,
+  CLIENT_MESSAGE_TYPES,
+  clientMessageSchema,
+  ClientMessageType,
+  DEFAULT_PROTOCOL_VERSION,
+  HelloMessage,
+  SessionConfigureMessage,
+  negotiateProtocolVersion,
+  protocolError,
+  REALTIME_PATH,
+  ResolvedAudioFormat,
+  ServerMessage,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  withLegacyAudioType,
+} from '../models/realtime-protocol.model';
+import {
+  AUDIO_FORMAT_CODES,
+  BinaryAudioFormat,
+  decodeBinaryAudioFrame,
+  encodeBinaryAudioFrame,
+  InvalidBinaryFrameError,
+  rawDataToBuffer,
+} from '../helper/BinaryAudioFrame';
 
-const RATE_LIMIT_BYTES = 1024 * 1024;
-const RATE_LIMIT_WINDOW_MS = 60_000; // 1 minute
+/** Close code used when a client exceeds its session quota. */
+const RATE_LIMITED_CLOSE_CODE = 4408;
 
 interface ClientSessionState {
-  openAI: OpenAIRealtimeSocketHandler;
-  rateWindowStart: number;
-  bytesThisWindow: number;
+  id: string;
+  openAI: OpenAiRtcSession;
+  upstreamReady: boolean;
+  protocolVersion: string;
+  audioTransport: AudioTransport;
+  /** Sequence of the next binary output frame and the response it belongs to. */
+  outputSequence: number;
+  outputResponseId?: string;
+  /** Sample rate the upstream expects for input audio. */
+  inputSampleRate: number;
+  /** Converts client audio to PCM16 at `inputSampleRate`, replaced when the input format changes. */
+  inputTranscoder: InputTranscoder;
+  /** Created on the first output chunk, once the upstream sample rate is known. */
+  outputTranscoder?: OutputTranscoder;
+  outputFormat: ResolvedAudioFormat;
+  latency: LatencyTracker;
+  /** Client asked for `latency` messages in `hello`. */
+  latencyReports: boolean;
   authenticated: boolean;
+  principal: ClientPrincipal;
+  /** Server-side peer after an `offer`; while connected it replaces socket audio in and out. */
+  webrtc?: WebRtcAudioPeer;
+  recordingInfo: SessionRecordingInfo;
+  /** Set once the client asked for a recording with `?record=true` or in `hello`. */
+  recorder?: SessionRecorder;
 }
 
+/** Scope a client needs for each message type it may send. */
+const REQUIRED_SCOPES: Partial<Record<ClientMessageType, ClientScope>> = {
+  'audio.chunk': clientScopes.enum.stream,
+  audio: clientScopes.enum.stream,
+  'audio.commit': clientScopes.enum.respond,
+  'response.request': clientScopes.enum.respond,
+  'session.configure': clientScopes.enum.configure,
+  'playback.flushed': clientScopes.enum.stream,
+  'playback.started': clientScopes.enum.stream,
+  'conversation.text': clientScopes.enum.respond,
+  'conversation.note': clientScopes.enum.configure,
+  'conversation.item.delete': clientScopes.enum.configure,
+  'conversation.item.retrieve': clientScopes.enum.stream,
+  'conversation.get': clientScopes.enum.stream,
+  offer: clientScopes.enum.stream,
+  ice: clientScopes.enum.stream,
+};
+
+/**
+ * Realtime translation over the versioned protocol from `realtime-protocol.model.ts`.
+ * Runs on its own path: the legacy `OwnWebSocketGateway` keeps `/` and accepts
+ * unauthenticated clients, which this gateway rejects.
+ */
 @WebSocketGateway({
+  path: REALTIME_PATH,
   cors: {
     origin: '*',
     methods: ['GET', 'POST'],
@@ -34,162 +133,703 @@ export class RealtimeGateway implements OnGatewayConnection, OnGatewayDisconnect
   private readonly logger = new Logger(RealtimeGateway.name);
   private readonly sessions = new Map<WebSocket, ClientSessionState>();
 
+  constructor(
+    private readonly realtimeConfig: RealtimeConfigService,
+    private readonly authService: ClientAuthService,
+    private readonly quotaService: QuotaService,
+    private readonly rtcService: OpenAiRtcService,
+    private readonly conversationStore: ConversationStoreService,
+    private readonly audioCodec: AudioCodecService,
+    private readonly resources: ResourceLifecycleService,
+    private readonly metrics: MetricsService,
+    private readonly webrtc: WebRtcService,
+    private readonly recordingService: AudioRecordingService,
+  ) {}
+
   async handleConnection(client: WebSocket, ...args: [IncomingMessage]): Promise<void> {
     const request = args?.[0];
-    if (!this.isAuthorized(request)) {
-      // this.logger.warn('Unauthorized WebSocket connection attempt rejected');
-      // client.close(4401, 'unauthorized');
-      // return;
+    const principal = this.authService.authenticateRequest(request);
+    if (!principal) {
+      this.logger.warn('Unauthorized WebSocket connection attempt rejected');
+      this.rejectUnauthorized(client, 'unauthorized');
+      return;
+    }
+    const profile = this.getProfile(request);
+    if (!this.authService.canUseProfile(principal, profile)) {
+      this.logger.warn(`Key ${principal.keyId} is not allowed to use realtime profile '${profile}'`);
+      this.send(client, protocolError('profile_not_allowed'));
+      client.close(1008, 'profile not allowed');
+      return;
     }
 
-    const openAIHandler = new OpenAIRealtimeSocketHandler({
-      instructions:
-        "'Du bist ein Simultanübersetzer. Übersetze fortlaufend von Deutsch nach Englisch. Antworte ausschließlich mit der Übersetzung, keine Kommentare.',",
-      inputSampleRate: 24_000,
-      outputSampleRate: 24_000,
-    });
+    const sessionId = randomUUID();
+    const sessionQuota = this.quotaService.openSession(principal.keyId, sessionId);
+    if (!sessionQuota.allowed) {
+      this.sendRateLimited(client, sessionQuota);
+      client.close(RATE_LIMITED_CLOSE_CODE, 'too many concurrent sessions');
+      return;
+    }
+    this.resources.openScope(sessionId, RealtimeGateway.name, () => client.readyState !== client.CLOSED);
+    this.resources.track(sessionId, 'quota_session', () => this.quotaService.closeSession(principal.keyId, sessionId));
+
+    let sessionOptions: RealtimeSessionOptions;
     try {
-      await openAIHandler.connectToAudioStream();
-      this.logger.log('Client connected to realtime gateway');
-      client.send(
-        JSON.stringify({
-          type: 'ready',
-          rateLimit: { bytes: RATE_LIMIT_BYTES, windowMs: RATE_LIMIT_WINDOW_MS },
-        }),
-      );
+      sessionOptions = this.realtimeConfig.resolve(profile, {
+        inputSampleRate: 24_000,
+        outputSampleRate: 24_000,
+      });
     } catch (err) {
-      this.logger.error('Failed to initialize OpenAI Realtime session', err as Error);
-      client.send(JSON.stringify({ type: 'error', reason: 'upstream_unavailable' }));
-      client.close(1011, 'upstream unavailable');
+      if (!(err instanceof UnknownRealtimeProfileError)) {
+        throw err;
+      }
+      this.logger.warn(err.message);
+      this.resources.releaseScope(sessionId, 'unknown_profile');
+      this.send(client, protocolError('unknown_profile'));
+      client.close(1008, 'unknown profile');
+      return;
     }
 
-    this.sessions.set(client, {
-      openAI: openAIHandler,
+    const rtcSession = this.rtcService.createSession(sessionOptions, {
+      sessionId,
+      gateway: RealtimeGateway.name,
+      keyId: principal.keyId,
+    });
+    this.resources.track(sessionId, 'upstream_session', () => this.rtcService.closeSession(sessionId));
+    const inputSampleRate = sessionOptions.inputSampleRate ?? 24_000;
+    const session: ClientSessionState = {
+      id: sessionId,
+      openAI: rtcSession,
+      upstreamReady: false,
+      protocolVersion: DEFAULT_PROTOCOL_VERSION,
+      audioTransport: this.getAudioTransport(request),
+      outputSequence: 0,
+      inputSampleRate,
+      inputTranscoder: null,
+      outputFormat: resolveAudioFormat(undefined, sessionOptions.outputSampleRate ?? 24_000),
+      latency: new LatencyTracker((stage, ms) => this.metrics.observeLatency(RealtimeGateway.name, stage, ms)),
+      latencyReports: false,
       authenticated: true,
-      bytesThisWindow: 0,
-      rateWindowStart: Date.now(),
+      principal,
+      recordingInfo: {
+        sessionId,
+        gateway: RealtimeGateway.name,
+        sourceLanguage: sessionOptions.sourceLanguage,
+        targetLanguage: sessionOptions.targetLanguage ?? DEFAULT_TARGET_LANGUAGE,
+      },
+    };
+    // Ohne hello: PCM16 mono in der Upstream-Rate, also reines Durchreichen
+    session.inputTranscoder = this.createInputTranscoder(client, session, resolveAudioFormat(undefined, inputSampleRate));
+    // Transcoder werden beim Formatwechsel ersetzt, daher immer die aktuellen schließen
+    this.resources.track(sessionId, 'transcoder', () => {
+      session.inputTranscoder.close();
+      session.outputTranscoder?.close();
     });
+    // Ein neues offer ersetzt den Peer, daher immer den aktuellen schließen
+    this.resources.track(sessionId, 'webrtc_peer', () => this.closeWebRtc(session));
+    // Das Bündel wird im Hintergrund geschrieben, der Disconnect wartet nicht darauf
+    this.resources.track(sessionId, 'session_recording', () => void this.recordingService.finishSessionRecording(sessionId));
+    if (this.isRecordingRequested(request)) {
+      this.startRecording(session);
+    }
+    this.sessions.set(client, session);
 
-    openAIHandler.events.on('audio.output', (payload) => this.forwardTts(client, payload));
-    openAIHandler.events.on('error', (err) => this.forwardError(client, err));
+    rtcSession.events.on('tts.chunk', (payload: TtsChunkPayload) => this.forwardTts(client, payload));
+    rtcSession.events.on('transcript.partial', (payload) => this.forwardTranscript(client, payload));
+    rtcSession.events.on('transcript.final', (payload) => this.forwardTranscript(client, payload));
+    rtcSession.events.on('playback.flush', (payload: PlaybackFlushPayload) => this.flushPlayback(client, payload));
+    rtcSession.events.on('conversation.item.deleted', (msg: { item_id: string }) =>
+      this.send(client, { type: 'conversation.item.deleted', itemId: msg.item_id }),
+    );
+    rtcSession.events.on('reconnecting', (payload: ReconnectingPayload) =>
+      this.send(client, { type: 'session.reconnecting', ...payload }),
+    );
+    rtcSession.events.on('reconnected', (payload: ReconnectedPayload) =>
+      this.send(client, { type: 'session.reconnected', ...payload }),
+    );
+    rtcSession.events.on('gave_up', (payload: GaveUpPayload) => {
+      this.send(client, { type: 'session.gave_up', ...payload });
+      // Beim ersten Verbindungsaufbau schließt der catch-Block unten die Verbindung
+      if (session.upstreamReady) {
+        this.releaseSession(client, 'upstream_gave_up');
+        client.close(1011, 'upstream unavailable');
+      }
+    });
+    rtcSession.events.on('error', (err) => this.forwardError(client, err));
+    this.conversationStore.attach(sessionId, principal.keyId, rtcSession.events);
+    this.resources.track(sessionId, 'conversation', () => this.conversationStore.detach(sessionId));
+    client.on('error', (err) => {
+      this.logger.warn(`Client socket error in session ${sessionId}: ${err.message}`);
+      this.releaseSession(client, 'socket_error');
+    });
 
-    client.on('message', (data) => this.handleClientMessage(client, data));
+    // Listen before the upstream is ready so an early `hello` is not lost
+    client.on('message', (data, isBinary) => this.handleClientMessage(client, data, isBinary));
 
+    try {
+      await rtcSession.connect();
+      session.upstreamReady = true;
+      this.logger.log('Client connected to realtime gateway');
+      const quotaConfig = this.quotaService.getConfig();
+      this.send(client, {
+        type: 'ready',
+        sessionId,
+        protocolVersion: session.protocolVersion,
+        supportedVersions: [...SUPPORTED_PROTOCOL_VERSIONS],
+        audioTransport: session.audioTransport,
+        rateLimit: { bytes: quotaConfig.bytesPerWindow, windowMs: quotaConfig.windowMs },
+        quota: this.quotaService.getSnapshot(principal.keyId, sessionId),
+        recording: !!session.recorder,
+      });
+    } catch (err) {
+      this.logger.error('Failed to initialize OpenAI Realtime session', err as Error);
+      this.send(client, protocolError('upstream_unavailable'));
+      // Nicht auf handleDisconnect warten: Upstream-Session, Quota-Slot und Transcoder sofort freigeben
+      this.releaseSession(client, 'upstream_unavailable');
+      client.close(1011, 'upstream unavailable');
+    }
   }
 
   handleDisconnect(client: WebSocket): void {
+    this.releaseSession(client, 'disconnect');
+    this.logger.log('Client disconnected from realtime gateway');
+  }
+
+  private releaseSession(client: WebSocket, reason: string): void {
     const session = this.sessions.get(client);
-    session?.openAI?.close();
     this.sessions.delete(client);
-    this.logger.log('Client disconnected from realtime gateway');
+    if (session) {
+      session.upstreamReady = false;
+      this.resources.releaseScope(session.id, reason);
+    }
   }
 
-  private handleClientMessage(client: WebSocket, rawData: any): void {    // WebSocket.RawData
+  private handleClientMessage(client: WebSocket, rawData: RawData, isBinary = false): void {
     const session = this.sessions.get(client);
-    // if (!session?.authenticated) {
-    //   client.close(4401, 'unauthorized');
-    //   return;
-    // }
-    let message: any;
+    if (!session?.authenticated) {
+      this.rejectUnauthorized(client, 'unauthorized');
+      return;
+    }
+    if (this.authService.isExpired(session.principal)) {
+      session.authenticated = false;
+      this.rejectUnauthorized(client, 'token_expired');
+      return;
+    }
+
+    if (isBinary) {
+      this.handleBinaryAudio(client, session, rawDataToBuffer(rawData));
+      return;
+    }
+
+    let json: unknown;
     try {
-      const text = typeof rawData === 'string' ? rawData : rawData.toString();
-      message = JSON.parse(text);
+      json = withLegacyAudioType(JSON.parse(rawData.toString()));
     } catch {
-      this.logger.warn(
-        'Please ensure that your client is sending valid JSON payloads. See https://docs.openai.com/docs/guides/realtime-api/overview for more details.',
-      )
-      this.logger.warn('Invalid payload received from client:', typeof rawData === 'string' ? rawData : rawData.toString());
-      client.send(JSON.stringify({ type: 'error', reason: 'invalid_payload' }));
+      this.logger.warn('Invalid JSON payload received from client');
+      this.send(client, protocolError('invalid_payload'));
+      return;
+    }
+
+    const parsed = clientMessageSchema.safeParse(json);
+    if (!parsed.success) {
+      const type = (json as { type?: unknown })?.type;
+      if (typeof type !== 'string' || !CLIENT_MESSAGE_TYPES.includes(type as ClientMessageType)) {
+        this.send(client, protocolError('unknown_message_type', { details: { type } }));
+      } else if ((type === 'audio.chunk' || type === 'audio') && !(json as { data?: unknown }).data) {
+        this.send(client, protocolError('missing_audio_data'));
+      } else {
+        this.send(client, protocolError('invalid_payload', { details: parsed.error.issues }));
+      }
+      return;
+    }
+
+    const message = parsed.data;
+    if (message.type === 'hello') {
+      this.handleHello(client, session, message);
+      return;
+    }
+
+    const requiredScope = REQUIRED_SCOPES[message.type];
+    if (requiredScope && !this.authService.hasScope(session.principal, requiredScope)) {
+      this.send(client, protocolError('insufficient_scope', { scope: requiredScope }));
+      return;
+    }
+
+    if (!session.upstreamReady) {
+      this.send(client, protocolError('session_not_ready'));
+      return;
+    }
+
+    const isAudio = message.type === 'audio.chunk' || message.type === 'audio';
+    if (!isAudio && !this.enforceRateLimit(client, session, {})) {
       return;
     }
 
-    switch (message?.type) {
+    switch (message.type) {
       case 'audio.chunk':
-        this.forwardAudioChunk(client, session, message);
+      case 'audio':
+        this.forwardAudio(
+          client,
+          session,
+          Buffer.from(message.data, 'base64'),
+          message.type === 'audio.chunk' ? message.sentAt : message.timestamp,
+        );
         break;
       case 'audio.commit':
         session.openAI.commitAudio();
+        session.latency.turnProgressed();
         break;
       case 'response.request':
         session.openAI.requestResponse(message.instructions);
         break;
-      case 'audio':
-      case undefined:
-        this.logger.warn('Receive chunk Data');
-        this.forwardAudioChunk(client, session, message);
+      case 'session.configure':
+        void this.configureSession(client, session, message);
+        break;
+      case 'playback.flushed':
+        // Läuft die Ausgabe über den Track, hat flushPlayback schon gekürzt; der Client kennt die Position nicht
+        if (!session.webrtc?.outputActive) {
+          session.openAI.truncateOutput(message.playedMs, message.itemId);
+        }
+        break;
+      case 'playback.started':
+        this.sendLatencyReport(client, session, session.latency.playbackStarted(message.responseId, message.startedAt));
+        break;
+      case 'conversation.text':
+        session.openAI.sendText(message.text, 'user', message.respond ?? true);
+        break;
+      case 'conversation.note':
+        session.openAI.sendText(message.text, 'system');
+        break;
+      case 'conversation.item.delete':
+        this.deleteConversationItem(client, session, message.itemId);
+        break;
+      case 'conversation.item.retrieve': {
+        const item = this.conversationStore.getItem(session.id, message.itemId);
+        this.send(
+          client,
+          item ? { type: 'conversation.item', item } : protocolError('unknown_item', { details: { itemId: message.itemId } }),
+        );
+        break;
+      }
+      case 'conversation.get':
+        this.send(client, {
+          type: 'conversation.history',
+          sessionId: session.id,
+          items: this.conversationStore.get(session.id)?.items ?? [],
+        });
+        break;
+      case 'offer':
+        void this.acceptWebRtcOffer(client, session, message.sdp);
+        break;
+      case 'ice':
+        session.webrtc
+          ?.addIceCandidate(message.candidate)
+          .catch((err: Error) => this.logger.warn(`Invalid ICE candidate in session ${session.id}: ${err.message}`));
         break;
-      default:
-        client.send(JSON.stringify({ type: 'error', reason: 'unknown_message_type' }));
     }
   }
 
-  private forwardAudioChunk(client: WebSocket, session: ClientSessionState, message: any): void {
-    if (!message?.data || typeof message.data !== 'string') {
-      client.send(JSON.stringify({ type: 'error', reason: 'missing_audio_data' }));
+  /**
+   * Answers a browser offer with a server-side peer. Opus from its audio track
+   * goes into the same pipeline as socket audio, DataChannel messages are
+   * handled like socket messages and translated audio goes back over the
+   * track. Whenever WebRTC is unavailable or fails the client gets `fallback`
+   * and keeps using the WebSocket.
+   */
+  private async acceptWebRtcOffer(client: WebSocket, session: ClientSessionState, sdp: string): Promise<void> {
+    if (!this.webrtc.isEnabled()) {
+      this.send(client, { type: 'fallback', reason: 'WebRTC is disabled on this server' });
       return;
     }
 
-    // const buffer = Buffer.from(message.data, 'base64');
-    const buffer = message.data;
-    if (!this.enforceRateLimit(client, session, buffer.length)) {
+    this.closeWebRtc(session);
+    const peer = this.webrtc.createPeer({
+      inputSampleRate: session.inputSampleRate,
+      onPcm: (pcm, encodedBytes) => {
+        if (!this.enforceRateLimit(client, session, { bytes: encodedBytes })) {
+          return;
+        }
+        this.metrics.recordAudio(RealtimeGateway.name, 'in', encodedBytes);
+        session.latency.chunkReceived();
+        this.sendPcm(client, session, pcm);
+      },
+      onDataChannelMessage: (data, isBinary) => this.handleClientMessage(client, data, isBinary),
+      onIceCandidate: (candidate) => this.send(client, { type: 'ice', candidate }),
+      onStateChange: (state) => this.handleWebRtcState(client, session, peer, state),
+    });
+    session.webrtc = peer;
+
+    try {
+      const answer = await peer.answer(sdp);
+      this.send(client, { type: 'answer', sdp: answer });
+      this.logger.log(`WebRTC peer for session ${session.id} answered`);
+    } catch (err) {
+      this.logger.warn(`WebRTC offer of session ${session.id} rejected: ${(err as Error).message}`);
+      this.closeWebRtc(session, peer);
+      this.send(client, { type: 'fallback', reason: `Invalid offer: ${(err as Error).message}` });
+    }
+  }
+
+  private handleWebRtcState(
+    client: WebSocket,
+    session: ClientSessionState,
+    peer: WebRtcAudioPeer,
+    state: WebRtcPeerState,
+  ): void {
+    // Zustandswechsel eines ersetzten Peers interessieren den Client nicht mehr
+    if (session.webrtc !== peer) {
+      return;
+    }
+    this.logger.log(`WebRTC peer of session ${session.id} is ${state}`);
+    this.send(client, { type: 'webrtc.state', state, input: peer.inputActive, output: peer.outputActive });
+    if (state === 'failed') {
+      this.closeWebRtc(session, peer);
+      this.send(client, { type: 'fallback', reason: 'WebRTC connection failed' });
+    }
+  }
+
+  /** Closes the session's peer, or only `peer` if it is still the current one. */
+  private closeWebRtc(session: ClientSessionState, peer = session.webrtc): void {
+    if (peer && session.webrtc === peer) {
+      session.webrtc = undefined;
+      peer.close();
+    }
+  }
+
+  /**
+   * Barge-in. Over the WebSocket only the client knows how much it played, so it
+   * answers with `playback.flushed`; over the track the server drops the unsent
+   * packets itself and truncates to what went out.
+   */
+  private flushPlayback(client: WebSocket, payload: PlaybackFlushPayload): void {
+    const session = this.sessions.get(client);
+    session?.recorder?.flushOutput(payload);
+    if (!session?.webrtc?.outputActive) {
+      this.send(client, { type: 'playback.flush', ...payload });
+      return;
+    }
+    const flushed = session.webrtc.flush();
+    session.openAI.truncateOutput(flushed.playedMs, flushed.itemId ?? payload.itemId);
+    this.send(client, { type: 'playback.flush', ...payload, truncated: true });
+  }
+
+  private async configureSession(
+    client: WebSocket,
+    session: ClientSessionState,
+    message: SessionConfigureMessage,
+  ): Promise<void> {
+    try {
+      const config = await session.openAI.updateSession({
+        sourceLanguage: message.sourceLanguage,
+        targetLanguage: message.targetLanguage,
+        voice: message.voice,
+        instructions: message.instructions,
+        turnDetection: message.turnDetection,
+      });
+      this.logger.log(`Session ${session.id} reconfigured: ${config.sourceLanguage} → ${config.targetLanguage}`);
+      this.send(client, { type: 'session.configured', session: config });
+    } catch (err) {
+      this.logger.warn(`session.configure failed: ${(err as Error).message}`);
+      this.send(client, protocolError('upstream_error', { message: (err as Error).message }));
+    }
+  }
+
+  /** Unknown ids are rejected locally, OpenAI would only answer with a generic error event. */
+  private deleteConversationItem(client: WebSocket, session: ClientSessionState, itemId: string): void {
+    if (!this.conversationStore.getItem(session.id, itemId)) {
+      this.send(client, protocolError('unknown_item', { details: { itemId } }));
+      return;
+    }
+    session.openAI.deleteItem(itemId);
+  }
+
+  private handleHello(client: WebSocket, session: ClientSessionState, message: HelloMessage): void {
+    const version = negotiateProtocolVersion(message.versions);
+    if (!version) {
+      this.send(client, protocolError('unsupported_version', { supportedVersions: [...SUPPORTED_PROTOCOL_VERSIONS] }));
+      return;
+    }
+
+    let inputFormat = session.inputTranscoder.format;
+    let outputFormat = session.outputFormat;
+    try {
+      inputFormat = message.audio?.input ? resolveAudioFormat(message.audio.input, session.inputSampleRate) : inputFormat;
+      outputFormat = message.audio?.output ? resolveAudioFormat(message.audio.output, outputFormat.sampleRate) : outputFormat;
+      // Prüft nur, ob das Ausgabeformat unterstützt wird; die Quellrate kennen wir erst beim ersten Chunk
+      this.audioCodec.createOutputTranscoder(outputFormat, outputFormat.sampleRate).close();
+    } catch (err) {
+      if (!(err instanceof UnsupportedAudioFormatError)) {
+        throw err;
+      }
+      this.send(client, protocolError('unsupported_audio_format', { details: err.message }));
+      return;
+    }
+
+    session.protocolVersion = version;
+    session.audioTransport = message.audioTransport ?? session.audioTransport;
+    session.latencyReports = message.latencyReports ?? session.latencyReports;
+    if (message.record) {
+      this.startRecording(session);
+    }
+    this.setInputFormat(client, session, inputFormat);
+    if (outputFormat !== session.outputFormat) {
+      session.outputFormat = outputFormat;
+      session.outputTranscoder?.close();
+      session.outputTranscoder = undefined;
+    }
+    this.logger.log(
+      `Client ${message.client?.name ?? 'unknown'} negotiated protocol ${version} (${session.audioTransport} audio, ` +
+        `${this.describeFormat(inputFormat)} in, ${this.describeFormat(outputFormat)} out)`,
+    );
+    this.send(client, {
+      type: 'hello.ack',
+      version,
+      sessionId: session.id,
+      audioTransport: session.audioTransport,
+      audio: { input: inputFormat, output: outputFormat },
+      recording: !!session.recorder,
+    });
+  }
+
+  /** Binary input frames carry audio in the negotiated input codec behind the header from `BinaryAudioFrame`. */
+  private handleBinaryAudio(client: WebSocket, session: ClientSessionState, data: Buffer): void {
+    if (!this.authService.hasScope(session.principal, clientScopes.enum.stream)) {
+      this.send(client, protocolError('insufficient_scope', { scope: clientScopes.enum.stream }));
+      return;
+    }
+    if (!session.upstreamReady) {
+      this.send(client, protocolError('session_not_ready'));
+      return;
+    }
+
+    let frame: ReturnType<typeof decodeBinaryAudioFrame>;
+    try {
+      frame = decodeBinaryAudioFrame(data);
+    } catch (err) {
+      if (!(err instanceof InvalidBinaryFrameError)) {
+        throw err;
+      }
+      this.send(client, protocolError('invalid_binary_frame', { details: err.message }));
+      return;
+    }
+    const inputFormat = session.inputTranscoder.format;
+    if (frame.format !== inputFormat.codec) {
+      this.send(client, protocolError('invalid_binary_frame', {
+        details: `Frame format ${frame.format} does not match the negotiated input codec ${inputFormat.codec}`,
+      }));
+      return;
+    }
+    // PCM16-Frames tragen ihre Samplerate im Header, der Client darf sie ohne neues hello wechseln
+    if (frame.format === 'pcm16' && frame.sampleRate && frame.sampleRate !== inputFormat.sampleRate) {
+      this.setInputFormat(client, session, { ...inputFormat, sampleRate: frame.sampleRate });
+    }
+
+    this.forwardAudio(client, session, frame.payload);
+  }
+
+  /** Counts the received bytes, the audio seconds are counted on the converted PCM in {@link sendPcm}. */
+  private forwardAudio(client: WebSocket, session: ClientSessionState, bufferArray: Buffer, sentAt?: number): void {
+    // Sobald RTP ankommt, wären Socket-Chunks doppeltes Audio
+    if (session.webrtc?.inputActive) {
+      return;
+    }
+    if (!this.enforceRateLimit(client, session, { bytes: bufferArray.byteLength })) {
       return;
     }
 
-    const bufferArray = Buffer.from(buffer, 'base64');
-    // const uint8Array = new Uint8Array(bufferArray.buffer, bufferArray.byteOffset, bufferArray.byteLength);
     this.logger.log(`Received chunk of size ${bufferArray.byteLength} bytes`);
-    // console.log(bufferArray);
+    this.metrics.recordAudio(RealtimeGateway.name, 'in', bufferArray.byteLength);
+    session.latency.chunkReceived(sentAt);
+    session.inputTranscoder.write(bufferArray);
+  }
 
-    session.openAI.sendAudioChunk(bufferArray);
+  private sendPcm(client: WebSocket, session: ClientSessionState, pcm: Buffer): void {
+    session.latency.chunkDecoded();
+    const usage = { messages: 0, audioSeconds: pcm16Seconds(pcm.byteLength, session.inputSampleRate) };
+    if (!this.enforceRateLimit(client, session, usage)) {
+      return;
+    }
+    session.recorder?.writeInput(pcm, session.inputSampleRate);
+    session.openAI.sendAudioChunk(pcm);
+    session.latency.turnProgressed();
+  }
+
+  /** Records the session from now on; stays null when session recording is disabled on the server. */
+  private startRecording(session: ClientSessionState): void {
+    session.recorder ??= this.recordingService.startSessionRecording(session.recordingInfo, session.inputSampleRate) ?? undefined;
+  }
+
+  private setInputFormat(client: WebSocket, session: ClientSessionState, format: ResolvedAudioFormat): void {
+    const current = session.inputTranscoder.format;
+    if (format.codec === current.codec && format.sampleRate === current.sampleRate && format.channels === current.channels) {
+      return;
+    }
+    session.inputTranscoder.close();
+    session.inputTranscoder = this.createInputTranscoder(client, session, format);
   }
 
-  private forwardTts(client: WebSocket, payload: AudioDeltaPayload): void {
-    console.log('Forwarding TTS chunk to client:', payload);
+  private createInputTranscoder(client: WebSocket, session: ClientSessionState, format: ResolvedAudioFormat): InputTranscoder {
+    return this.audioCodec.createInputTranscoder(
+      format,
+      session.inputSampleRate,
+      (pcm) => this.sendPcm(client, session, pcm),
+      (err) => this.send(client, protocolError('unsupported_audio_format', { details: err.message })),
+    );
+  }
+
+  private describeFormat(format: ResolvedAudioFormat): string {
+    return `${format.codec}/${format.sampleRate}/${format.channels === 1 ? 'mono' : 'stereo'}`;
+  }
+
+  private forwardTts(client: WebSocket, payload: TtsChunkPayload): void {
+    this.logger.debug(`TTS chunk for client: ${Buffer.byteLength(payload.base64, 'base64')} bytes`);
     if (client.readyState !== client.OPEN) {
       return;
     }
-    const body = {
+    const session = this.sessions.get(client);
+    if (session) {
+      this.sendLatencyReport(client, session, session.latency.responseAudio(payload.responseId, payload.itemId));
+      // Aufgenommen wird das Upstream-PCM, nicht das für den Client konvertierte Format
+      const pcm = Buffer.from(payload.base64, 'base64');
+      session.recorder?.writeOutput(pcm, payload.sampleRate, payload.itemId);
+      if (session.webrtc?.outputActive) {
+        this.metrics.recordAudio(RealtimeGateway.name, 'out', pcm.byteLength);
+        session.webrtc.sendPcm(pcm, payload.sampleRate, payload.itemId);
+        return;
+      }
+      payload = this.convertOutput(session, payload);
+      if (!payload) {
+        return;
+      }
+    }
+    this.metrics.recordAudio(RealtimeGateway.name, 'out', Buffer.byteLength(payload.base64, 'base64'));
+    if (session?.audioTransport === audioTransports.enum.binary && payload.format in AUDIO_FORMAT_CODES) {
+      this.sendBinaryAudio(client, session, payload);
+      return;
+    }
+    this.send(client, {
       type: 'tts-chunk',
       data: payload.base64,
       format: payload.format,
       sampleRate: payload.sampleRate,
       responseId: payload.responseId,
+      itemId: payload.itemId,
+    });
+  }
+
+  /** Upstream audio is PCM16 mono, converted to the output format from `hello`; null while the resampler buffers. */
+  private convertOutput(session: ClientSessionState, payload: TtsChunkPayload): TtsChunkPayload | null {
+    if (session.outputTranscoder?.sourceRate !== payload.sampleRate) {
+      session.outputTranscoder?.close();
+      session.outputTranscoder = this.audioCodec.createOutputTranscoder(session.outputFormat, payload.sampleRate);
+    }
+    const audio = session.outputTranscoder.convert(Buffer.from(payload.base64, 'base64'));
+    if (audio.length === 0) {
+      return null;
+    }
+    return {
+      ...payload,
+      base64: audio.toString('base64'),
+      format: session.outputFormat.codec,
+      sampleRate: session.outputFormat.sampleRate,
     };
+  }
 
-    client.send(JSON.stringify(body));
+  /** Only sent to clients that enabled `latencyReports` in `hello`, the histograms are fed either way. */
+  private sendLatencyReport(client: WebSocket, session: ClientSessionState, report: LatencyReport | null): void {
+    if (report && session.latencyReports) {
+      this.send(client, { type: 'latency', ...report });
+    }
+  }
+
+  private forwardTranscript(client: WebSocket, payload: TranscriptPayload): void {
+    this.sessions.get(client)?.recorder?.addTranscript(payload);
+    const { delta, final, ...transcript } = payload;
+    if (final) {
+      this.send(client, { type: 'transcript.final', ...transcript });
+    } else {
+      this.send(client, { type: 'transcript.partial', ...transcript, delta });
+    }
   }
 
   private forwardError(client: WebSocket, err: unknown): void {
-    const reason = err instanceof Error ? err.message : 'upstream_error';
-    if (client.readyState === client.OPEN) {
-      client.send(JSON.stringify({ type: 'error', reason }));
-    }
-  }
-
-  private enforceRateLimit(client: WebSocket, session: ClientSessionState, size: number): boolean {
-    // const now = Date.now();
-    // if (now - session.rateWindowStart > RATE_LIMIT_WINDOW_MS) {
-    //   session.rateWindowStart = now;
-    //   session.bytesThisWindow = 0;
-    // }
-    //
-    // session.bytesThisWindow += size;
-    // if (session.bytesThisWindow > RATE_LIMIT_BYTES) {
-    //   this.logger.warn('Client exceeded realtime audio rate limit');
-    //   client.send(JSON.stringify({ type: 'error', reason: 'rate_limited' }));
-    //   client.close(4408, 'rate limit exceeded');
-    //   return false;
-    // }
-    //
+    const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+    this.send(client, protocolError('upstream_error', message ? { message } : {}));
+  }
+
+  private sendBinaryAudio(client: WebSocket, session: ClientSessionState, payload: TtsChunkPayload): void {
+    if (session.outputSequence === 0 || payload.responseId !== session.outputResponseId) {
+      session.outputResponseId = payload.responseId;
+      this.send(client, {
+        type: 'tts.start',
+        responseId: payload.responseId,
+        itemId: payload.itemId,
+        format: payload.format,
+        sampleRate: payload.sampleRate,
+      });
+    }
+    const frame = encodeBinaryAudioFrame({
+      format: payload.format as BinaryAudioFormat,
+      sequence: session.outputSequence++,
+      sampleRate: payload.sampleRate,
+      payload: Buffer.from(payload.base64, 'base64'),
+    });
+    client.send(frame, { binary: true });
+  }
+
+  private send(client: WebSocket, message: ServerMessage): void {
+    if (client.readyState !== client.OPEN) {
+      return;
+    }
+    if (message.type === 'error') {
+      this.metrics.recordClientError(RealtimeGateway.name, message.code);
+    }
+    client.send(JSON.stringify(message));
+  }
+
+  private enforceRateLimit(client: WebSocket, session: ClientSessionState, usage: QuotaUsage): boolean {
+    const decision = this.quotaService.consume(session.principal.keyId, session.id, usage);
+    if (!decision.allowed) {
+      this.logger.warn(`Client exceeded realtime ${decision.limit} quota`);
+      this.sendRateLimited(client, decision);
+      return false;
+    }
     return true;
   }
 
-  private isAuthorized(request?: IncomingMessage): boolean {
-    const expectedKey = process.env.CLIENT_API_KEY || 'dev-key';
-    const providedKey = request?.headers['x-api-key'];
-    if (Array.isArray(providedKey)) {
-      return providedKey.includes(expectedKey);
+  private sendRateLimited(client: WebSocket, decision: QuotaDecision): void {
+    if (decision.allowed) {
+      return;
+    }
+    this.send(client, protocolError('rate_limited', { limit: decision.limit, retryAfterMs: decision.retryAfterMs }));
+  }
+
+  /** Upstream profile selected by the client via `?profile=<name>`. */
+  private getProfile(request?: IncomingMessage): string | null {
+    if (!request?.url) {
+      return null;
+    }
+    return new URL(request.url, 'ws://localhost').searchParams.get('profile');
+  }
+
+  /** Session recording requested via `?record=true`. */
+  private isRecordingRequested(request?: IncomingMessage): boolean {
+    if (!request?.url) {
+      return false;
     }
-    return providedKey === expectedKey;
+    return new URL(request.url, 'ws://localhost').searchParams.get('record') === 'true';
+  }
+
+  /** Output audio transport requested via `?audio=binary`, clients may still change it with `hello`. */
+  private getAudioTransport(request?: IncomingMessage): AudioTransport {
+    if (!request?.url) {
+      return audioTransports.enum.json;
+    }
+    const requested = new URL(request.url, 'ws://localhost').searchParams.get('audio');
+    return audioTransports.safeParse(requested).data ?? audioTransports.enum.json;
+  }
+
+  private rejectUnauthorized(client: WebSocket, reason: 'unauthorized' | 'token_expired'): void {
+    this.send(client, protocolError(reason));
+    client.close(UNAUTHORIZED_CLOSE_CODE, reason);
   }
 }
@@ -0,0 +1,176 @@
+import { Logger } from '@nestjs/common';
+import {
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { IncomingMessage } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { RawData, Server, WebSocket } from 'ws';
+import { ClientAuthService, UNAUTHORIZED_CLOSE_CODE } from '../services/client-auth.service';
+import { ResourceLifecycleService } from '../services/resource-lifecycle.service';
+import { MetricsService } from '../services/metrics.service';
+import { SignalingRoomFullError, SignalingService } from '../services/signaling.service';
+import {
+  DEFAULT_SIGNALING_ROOM,
+  SIGNALING_PATH,
+  SignalingClientMessage,
+  signalingClientMessageSchema,
+  SignalingErrorReason,
+  signalingErrorReasons,
+} from '../models/signaling.model';
+
+interface SignalingClient {
+  id: string;
+  name?: string;
+}
+
+/**
+ * Signaling for browser-to-browser WebRTC (`live-audio-echo-client-rtc.html`):
+ * relays offers, answers and ICE candidates by peer id and keeps presence and
+ * mute state per room. Runs on its own path so it does not share connections
+ * with the audio gateways on `/` and `/realtime`.
+ */
+@WebSocketGateway({
+  path: SIGNALING_PATH,
+  cors: {
+    origin: '*',
+    methods: ['GET', 'POST'],
+    credentials: true,
+  },
+})
+export class SignalingGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(SignalingGateway.name);
+  private readonly clients = new Map<WebSocket, SignalingClient>();
+
+  constructor(
+    private readonly authService: ClientAuthService,
+    private readonly signaling: SignalingService,
+    private readonly resources: ResourceLifecycleService,
+    private readonly metrics: MetricsService,
+  ) {}
+
+  handleConnection(client: WebSocket, ...args: [IncomingMessage]): void {
+    const request = args?.[0];
+    if (!this.authService.authenticateRequest(request)) {
+      this.logger.warn('Unauthorized signaling connection attempt rejected');
+      this.sendError(client, signalingErrorReasons.enum.unauthorized);
+      client.close(UNAUTHORIZED_CLOSE_CODE, 'unauthorized');
+      return;
+    }
+
+    const peerId = randomUUID();
+    const query = new URL(request.url ?? '/', 'ws://localhost').searchParams;
+    const state: SignalingClient = { id: peerId, name: query.get('name') ?? undefined };
+    this.clients.set(client, state);
+    this.resources.openScope(peerId, SignalingGateway.name, () => client.readyState !== WebSocket.CLOSED);
+    // Beim Disconnect bekommen die übrigen Peers peer-left
+    this.resources.track(peerId, 'signaling_peer', () => this.signaling.leave(peerId));
+
+    client.on('error', (err) => this.logger.warn(`Signaling socket error for peer ${peerId}: ${err.message}`));
+    client.on('message', (data, isBinary) => this.handleClientMessage(client, data, isBinary));
+
+    // Der Mesh-Client erwartet welcome ohne eigenes join, der Raum kommt deshalb aus ?room=
+    this.join(client, state, query.get('room') || DEFAULT_SIGNALING_ROOM);
+  }
+
+  handleDisconnect(client: WebSocket): void {
+    const state = this.clients.get(client);
+    if (state) {
+      this.resources.releaseScope(state.id, 'disconnect');
+      this.clients.delete(client);
+      this.logger.log(`Signaling peer ${state.id} disconnected`);
+    }
+  }
+
+  private handleClientMessage(client: WebSocket, rawData: RawData, isBinary: boolean): void {
+    const state = this.clients.get(client);
+    if (!state) {
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = isBinary ? undefined : JSON.parse(rawData.toString());
+    } catch {
+      json = undefined;
+    }
+    const parsed = signalingClientMessageSchema.safeParse(json);
+    if (!parsed.success) {
+      this.sendError(client, signalingErrorReasons.enum.invalid_payload, { details: parsed.error.issues });
+      return;
+    }
+    this.dispatch(client, state, parsed.data);
+  }
+
+  private dispatch(client: WebSocket, state: SignalingClient, message: SignalingClientMessage): void {
+    switch (message.type) {
+      case 'join':
+        state.name = message.name ?? state.name;
+        this.join(client, state, message.room);
+        return;
+      case 'leave': {
+        const roomId = this.signaling.leave(state.id);
+        this.send(client, { type: 'left', room: roomId });
+        return;
+      }
+      case 'mute':
+        if (!this.signaling.setMuted(state.id, message.muted)) {
+          this.sendError(client, signalingErrorReasons.enum.not_in_room);
+        }
+        return;
+      case 'offer':
+        // Offers an den Server beantwortet das RealtimeGateway auf /, hier gibt es nur Peer-zu-Peer
+        if (!message.to) {
+          this.send(client, { type: 'fallback', reason: 'Der WebRTC-Endpunkt des Servers ist das Realtime-Gateway auf /' });
+          return;
+        }
+        this.relay(client, state, message.to, message);
+        return;
+      case 'answer':
+      case 'ice':
+        this.relay(client, state, message.to, message);
+        return;
+    }
+  }
+
+  private join(client: WebSocket, state: SignalingClient, roomId: string): void {
+    try {
+      const peers = this.signaling.join(roomId, {
+        id: state.id,
+        name: state.name,
+        send: (message) => this.send(client, message),
+      });
+      // peers als Id-Liste für den Mesh-Client, presence mit Name und Mute-Status
+      this.send(client, { type: 'welcome', id: state.id, room: roomId, peers: peers.map((peer) => peer.id), presence: peers });
+    } catch (err) {
+      if (!(err instanceof SignalingRoomFullError)) {
+        throw err;
+      }
+      this.sendError(client, signalingErrorReasons.enum.room_full, { message: err.message, room: roomId });
+    }
+  }
+
+  private relay(client: WebSocket, state: SignalingClient, to: string, message: SignalingClientMessage): void {
+    if (!this.signaling.getRoomOf(state.id)) {
+      this.sendError(client, signalingErrorReasons.enum.not_in_room);
+    } else if (!this.signaling.relay(state.id, to, message)) {
+      this.sendError(client, signalingErrorReasons.enum.peer_not_found, { to });
+    }
+  }
+
+  private send(client: WebSocket, message: Record<string, unknown>): void {
+    if (client.readyState === client.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  }
+
+  private sendError(client: WebSocket, reason: SignalingErrorReason, extra: Record<string, unknown> = {}): void {
+    this.metrics.recordClientError(SignalingGateway.name, reason);
+    this.send(client, { type: 'error', reason, ...extra });
+  }
+}
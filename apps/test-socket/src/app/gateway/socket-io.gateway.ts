@@ -29,9 +29,13 @@ export class SocketioGateway implements OnGatewayConnection, OnGatewayDisconnect
 
 
   private readonly logger = new Logger(SocketioGateway.name);
-  private readonly audioService: OwnAudioService = new OwnAudioService();
-  private readonly audioRecordingService: AudioRecordingService = new AudioRecordingService();
-  private readonly liveAudioService: SocketLiveAudioService = new SocketLiveAudioService();
+
+  // Über DI statt new, damit die Metriken dieselben Instanzen sehen
+  constructor(
+    private readonly audioService: OwnAudioService,
+    private readonly audioRecordingService: AudioRecordingService,
+    private readonly liveAudioService: SocketLiveAudioService,
+  ) {}
 
   handleConnection(client: Socket) {
 
@@ -14,17 +14,55 @@ import {
   MsgDataFromClient,
   msgDataFromClientSchema,
   msgTypes,
+  roomJoinSchema,
+  roomRoles,
 } from '../models/msg.model';
-import { OpenAIRealtimeSocketHandler } from '../helper/OpenAISocketHandler';
-import ffmpeg from 'fluent-ffmpeg';
-import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
-import { PassThrough } from 'node:stream';
-import * as fs from 'node:fs';
-import { WriteStream } from 'node:fs';
-
-// Setze den Pfad zur ffmpeg Binärdatei
-ffmpeg.setFfmpegPath(ffmpegInstaller.path);
-
+import { DEFAULT_TARGET_LANGUAGE, RealtimeSessionOptions, RealtimeSessionUpdate } from '../helper/OpenAISocketHandler';
+import { PlaybackFlushPayload, TranscriptPayload } from '../helper/SpeechTranslationProvider';
+import { OpenAiRtcService, OpenAiRtcSession, TtsChunkPayload } from '../../services/openai-rtc.service';
+import { RealtimeConfigService, UnknownRealtimeProfileError } from '../services/realtime-config.service';
+import { IncomingMessage } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { ClientAuthService } from '../services/client-auth.service';
+import { pcm16Seconds, QuotaService } from '../services/quota.service';
+import { AudioCodecService } from '../services/audio-codec.service';
+import { ResourceLifecycleService } from '../services/resource-lifecycle.service';
+import { InputTranscoder } from '../helper/AudioTranscoder';
+import { LatencyReport, LatencyTracker } from '../helper/LatencyTracker';
+import { MetricsService } from '../services/metrics.service';
+import { AudioRecordingService } from '../services/recording.service';
+import { SessionRecorder } from '../helper/SessionRecorder';
+import { RoomJoinError, RoomService, RoomSnapshot } from '../services/room.service';
+import {
+  AudioTransport,
+  audioTransports,
+  playbackFlushedMessageSchema,
+  playbackStartedMessageSchema,
+  sessionConfigureMessageSchema,
+} from '../models/realtime-protocol.model';
+import {
+  decodeBinaryAudioFrame,
+  encodeBinaryAudioFrame,
+  InvalidBinaryFrameError,
+  rawDataToBuffer,
+} from '../helper/BinaryAudioFrame';
+
+/**
+ * Upstream-Events, die als JSON an den Client (und die Zuhörer seines Raums) gehen:
+ * Live-Untertitel, Barge-in (Client leert die Wiedergabe und antwortet mit playback_flushed)
+ * und der Verbindungsstatus zu OpenAI, währenddessen wird Audio gepuffert.
+ */
+const FORWARDED_SESSION_EVENTS: Array<[event: string, type: string]> = [
+  ['transcript.partial', 'transcript.partial'],
+  ['transcript.final', 'transcript.final'],
+  ['playback.flush', 'playback.flush'],
+  ['reconnecting', 'session.reconnecting'],
+  ['reconnected', 'session.reconnected'],
+  ['gave_up', 'session.gave_up'],
+];
+
+// Ohne path auf `/`: RealtimeGateway (REALTIME_PATH) und SignalingGateway haben eigene Pfade,
+// sonst bekäme jedes Gateway alle Verbindungen der anderen
 @WebSocketGateway({
   cors: {
     origin: "*",
@@ -36,13 +74,21 @@ ffmpeg.setFfmpegPath(ffmpegInstaller.path);
 export class OwnWebSocketGateway implements OnGatewayConnection, OnGatewayDisconnect {
   clients = new Map<WebSocket, {
     wss: Duplex,
-    openAIHandler?: OpenAIRealtimeSocketHandler,
-    audioConverter?: PassThrough,
-    pendingInputChunks: Array<{ sequence: number; receivedAt: number }>,
-    // audioFileStream: WriteStream,
-    // audioFileName?: string,
-    // inputFileStream: WriteStream,
-    // inputFileName?: string,
+    /** Fehlt, solange der Client nur als Listener in einem Raum ist. */
+    rtcSession?: OpenAiRtcSession,
+    sessionOptions: RealtimeSessionOptions,
+    /** Zielsprache der eigenen Upstream-Session. */
+    primaryLanguage: string,
+    /** Weitere Zielsprachen als Sprecher im Raum, je eine Upstream-Session mit demselben PCM-Eingang. */
+    channels: Map<string, OpenAiRtcSession>,
+    audioConverter?: InputTranscoder,
+    latency: LatencyTracker,
+    quotaKey: string,
+    sessionId: string,
+    audioTransport: AudioTransport,
+    outputSequence: number,
+    /** Mitschnitt von Eingang, Übersetzung und Untertiteln, nur mit ?record=true. */
+    recorder?: SessionRecorder,
   }>();
 
   @WebSocketServer()
@@ -50,131 +96,360 @@ export class OwnWebSocketGateway implements OnGatewayConnection, OnGatewayDiscon
 
   private readonly logger = new Logger(OwnWebSocketGateway.name);
 
-  async handleConnection(client: WebSocket, ...args: never[]) {
-    // const sessionId = Date.now();
-    // const audioFileName = `./output_${sessionId}.pcm`;
-    // const audioFileStream = fs.createWriteStream(audioFileName);
-    // const inputFileName = `./input_${sessionId}.webm`;
-    // const inputFileStream = fs.createWriteStream(inputFileName);
-
-    // Initialisiere OpenAI Handler für diesen Client
-    const openAIHandler = new OpenAIRealtimeSocketHandler({
-      instructions: 'Du bist ein Simultandolmetscher. Übersetze alles was du bekommst von Deutsch nach Englisch',
-    });
-
-    const inputStream = new PassThrough();
-    const pendingInputChunks: Array<{ sequence: number; receivedAt: number }> = [];
-
-    // FFmpeg Konfiguration: WebM -> PCM16 (S16LE, 24kHz, Mono) für Input vom Client
-    const ffmpegProcess = ffmpeg(inputStream)
-      .inputFormat('webm')
-      .audioCodec('pcm_s16le')
-      .audioFrequency(24000)
-      .audioChannels(1)
-      .format('s16le')
-      .on('error', (err) => this.logger.error('FFmpeg Error: ' + err.message));
-
-    const outputStream = ffmpegProcess.pipe();
-
-    // Die konvertierten PCM-Daten an OpenAI senden
-    outputStream.on('data', (pcmChunk: Buffer) => {
-      const telemetry = pendingInputChunks.shift();
-      if (telemetry) {
-        const latency = Date.now() - telemetry.receivedAt;
-        this.logger.debug(`[latency] seq ${telemetry.sequence}: client→OpenAI ${latency} ms (${pcmChunk.length} bytes)`);
-      } else {
-        this.logger.debug('[latency] PCM chunk without pending telemetry entry');
+  constructor(
+    private readonly realtimeConfig: RealtimeConfigService,
+    private readonly authService: ClientAuthService,
+    private readonly quotaService: QuotaService,
+    private readonly rtcService: OpenAiRtcService,
+    private readonly audioCodec: AudioCodecService,
+    private readonly resources: ResourceLifecycleService,
+    private readonly metrics: MetricsService,
+    private readonly rooms: RoomService,
+    private readonly recordingService: AudioRecordingService,
+  ) {}
+
+  async handleConnection(client: WebSocket, ...args: [IncomingMessage]) {
+    // Upstream-Profil kann per ?profile=<name> gewählt werden, Binär-Audio per ?audio=binary, Mitschnitt per ?record=true
+    const request = args?.[0];
+    const query = new URL(request?.url ?? '/', 'ws://localhost').searchParams;
+    const profile = query.get('profile');
+    const audioTransport = audioTransports.safeParse(query.get('audio')).data ?? audioTransports.enum.json;
+    // Nicht authentifizierte Clients bekommen nur den Standard-Upstream, Profile können fremde Zugangsdaten tragen
+    const principal = this.authService.authenticateRequest(request);
+    if (!this.authService.canUseProfile(principal, profile)) {
+      this.logger.warn(`Realtime profile '${profile}' is not allowed for ${principal?.keyId ?? 'anonymous'}`);
+      client.close(1008, 'profile not allowed');
+      return;
+    }
+    let sessionOptions: RealtimeSessionOptions;
+    try {
+      sessionOptions = this.realtimeConfig.resolve(profile);
+    } catch (err) {
+      if (!(err instanceof UnknownRealtimeProfileError)) {
+        throw err;
       }
-      if (openAIHandler) {
-        this.logger.log(`Sending chunk to OpenAI: ${pcmChunk.length} bytes`)
-
-        openAIHandler.sendAudioChunk(pcmChunk);
+      this.logger.warn(err.message);
+      client.close(1008, 'unknown profile');
+      return;
+    }
+    // Samplerate, die der Upstream für den Eingang erwartet (Profil oder Standard)
+    const inputSampleRate = sessionOptions.inputSampleRate ?? 24_000;
+
+    const sessionId = randomUUID();
+    // Quotas werden pro API-Key geteilt; nicht authentifizierte Clients pro Adresse, ein gemeinsamer
+    // Key würde das Session-Limit auf den ganzen Server anwenden
+    const quotaKey = principal?.keyId ?? `anonymous:${request?.socket?.remoteAddress ?? sessionId}`;
+    const sessionQuota = this.quotaService.openSession(quotaKey, sessionId);
+    if (!sessionQuota.allowed) {
+      this.metrics.recordClientError(OwnWebSocketGateway.name, 'rate_limited');
+      client.send(JSON.stringify({ type: 'error', reason: 'rate_limited', limit: sessionQuota.limit, retryAfterMs: sessionQuota.retryAfterMs }));
+      client.close(4408, 'too many concurrent sessions');
+      return;
+    }
+    // Alle Ressourcen dieser Verbindung werden im Scope registriert und beim Disconnect gemeinsam geschlossen
+    this.resources.openScope(sessionId, OwnWebSocketGateway.name, () => client.readyState !== WebSocket.CLOSED);
+    this.resources.track(sessionId, 'quota_session', () => this.quotaService.closeSession(quotaKey, sessionId));
+
+    // Upstream-Session für diesen Client (Reconnect und Audio-Puffer übernimmt der OpenAiRtcService)
+    this.resources.track(sessionId, 'upstream_session', () => this.rtcService.closeSession(sessionId));
+    // Sprachkanäle als Sprecher
+    this.resources.track(sessionId, 'upstream_session', () => this.closeChannels(client));
+    // Raum beim Disconnect verlassen, damit die übrigen Teilnehmer die neue Zuhörerzahl bekommen
+    this.resources.track(sessionId, 'room_membership', () => this.rooms.leave(sessionId));
+    // Bündel aus WAV, Timeline und Untertiteln, wird im Hintergrund geschrieben
+    this.resources.track(sessionId, 'session_recording', () => void this.recordingService.finishSessionRecording(sessionId));
+    const recorder = query.get('record') === 'true'
+      ? this.recordingService.startSessionRecording({
+          sessionId,
+          gateway: OwnWebSocketGateway.name,
+          sourceLanguage: sessionOptions.sourceLanguage,
+          targetLanguage: sessionOptions.targetLanguage ?? DEFAULT_TARGET_LANGUAGE,
+        }, inputSampleRate) ?? undefined
+      : undefined;
+
+    const latency = new LatencyTracker((stage, ms) => this.metrics.observeLatency(OwnWebSocketGateway.name, stage, ms));
+
+    // WebM -> PCM16 (S16LE, Mono, Upstream-Rate) für Input vom Client, per ffmpeg oder nativ (AUDIO_CODEC_BACKEND)
+    // und die konvertierten PCM-Daten an OpenAI senden
+    const webm = { codec: 'webm' as const, sampleRate: 48000, channels: 1 };
+    const audioConverter = this.audioCodec.createInputTranscoder(webm, inputSampleRate, (pcmChunk) => {
+      latency.chunkDecoded();
+      const quota = this.quotaService.consume(quotaKey, sessionId, {
+        messages: 0,
+        audioSeconds: pcm16Seconds(pcmChunk.length, inputSampleRate),
+      });
+      if (!quota.allowed) {
+        this.logger.warn(`Audio budget exhausted for ${quotaKey}, dropping PCM chunk`);
+        this.writeError(wss, { reason: 'rate_limited', limit: quota.limit, retryAfterMs: quota.retryAfterMs });
+        return;
       }
-    });
+      this.logger.log(`Sending chunk to OpenAI: ${pcmChunk.length} bytes`)
+
+      // Einmal dekodiert, an alle Sprachkanäle
+      p.recorder?.writeInput(pcmChunk, inputSampleRate);
+      p.rtcSession?.sendAudioChunk(pcmChunk);
+      p.channels.forEach((channel) => channel.sendAudioChunk(pcmChunk));
+      latency.turnProgressed();
+    }, (err) => this.logger.error('Audio decoder error: ' + err.message));
+    this.resources.track(sessionId, 'transcoder', () => audioConverter.close());
 
     const wss = createWebSocketStream(client, {
       decodeStrings: false
     });
+    this.resources.track(sessionId, 'socket_stream', () => wss.destroy());
+    // Schreiben auf einen schon geschlossenen Socket (z. B. beim Fan-out an Zuhörer) darf den Prozess nicht beenden
+    wss.on('error', (err) => this.logger.warn(`Socket stream error in session ${sessionId}: ${err.message}`));
     const p = {
       wss: wss,
-      openAIHandler: openAIHandler,
-      audioConverter: inputStream,
-      pendingInputChunks,
-      // audioFileStream,
-      // audioFileName,
-      // inputFileName,
-      // inputFileStream
+      rtcSession: undefined as OpenAiRtcSession | undefined,
+      sessionOptions,
+      primaryLanguage: sessionOptions.targetLanguage ?? DEFAULT_TARGET_LANGUAGE,
+      channels: new Map<string, OpenAiRtcSession>(),
+      audioConverter,
+      latency,
+      quotaKey,
+      sessionId,
+      audioTransport,
+      outputSequence: 0,
+      recorder,
     };
 
+    // Schon vor dem Verbindungsaufbau registrieren, damit ein frühes Disconnect die Session aufräumt
+    this.clients.set(client, p);
+
+    // Verbindung zu OpenAI herstellen; ist der Client inzwischen Listener, bleibt er ohne Upstream verbunden
+    if (!(await this.openUpstream(client)) && !this.clients.has(client)) {
+      return;
+    }
+
+    wss.on('data', () => { /* empty */ });
+
+    // Binärframes (WebM-Chunks mit Header) umgehen den JSON-Parser des WsAdapters
+    client.on('message', (data, isBinary) => {
+      if (isBinary) {
+        this.handleBinarySoundData(client, rawDataToBuffer(data));
+      }
+    });
+
+    this.logger.log(`Client mit  createWebSocketStream connected`);
+
+    wss.write('Connected to WebSocket Server!');
+  }
+
+  /**
+   * Baut die Upstream-Session des Clients auf und leitet Audio, Untertitel und Verbindungsstatus an ihn
+   * und, wenn er Sprecher eines Raums ist, an die Zuhörer weiter. Schließt die Verbindung, wenn der
+   * Upstream nicht zustande kommt.
+   */
+  private async openUpstream(client: WebSocket): Promise<boolean> {
+    const p = this.clients.get(client);
+    const { wss, sessionId, latency } = p;
+    const rtcSession = this.rtcService.createSession(p.sessionOptions, {
+      sessionId,
+      gateway: OwnWebSocketGateway.name,
+      keyId: p.quotaKey,
+    });
+    p.rtcSession = rtcSession;
+
     // Event-Listener für Audio-Antworten von OpenAI
-    openAIHandler.events.on('audio.output', (payload) => {
+    rtcSession.events.on('tts.chunk', (payload: TtsChunkPayload) => {
       this.logger.log(`[audio.output] Received from OpenAI - sampleRate: ${payload.sampleRate}, base64 length: ${payload.base64?.length}`);
+      this.logLatency(latency.responseAudio(payload.responseId, payload.itemId));
 
-      const audioBuffer = Buffer.from(payload.base64, 'base64');
-      this.logger.log(`[audio.output] Decoded buffer size: ${audioBuffer.length} bytes`);
-
-      // In die Datei schreiben (für Debug)
-      // audioFileStream.write(audioBuffer);
+      p.recorder?.writeOutput(Buffer.from(payload.base64, 'base64'), payload.sampleRate || 24000, payload.itemId);
+      this.sendAudio(client, payload);
+      this.rooms.publishAudio(sessionId, p.primaryLanguage, payload);
+    });
 
-      // PCM16 direkt an Client senden (ohne FFmpeg-Konvertierung)
-      const message = JSON.stringify({
-        type: 'play-data',
-        data: payload.base64,
-        timestamp: new Date().toISOString(),
-        format: 'pcm16',
-        sampleRate: payload.sampleRate || 24000
+    for (const [event, type] of FORWARDED_SESSION_EVENTS) {
+      rtcSession.events.on(event, (payload: TranscriptPayload | PlaybackFlushPayload) => {
+        if (event === 'playback.flush') {
+          p.recorder?.flushOutput(payload as PlaybackFlushPayload);
+        } else if (event.startsWith('transcript.')) {
+          p.recorder?.addTranscript(payload as TranscriptPayload);
+        }
+        const message = { type, ...payload };
+        wss.write(JSON.stringify(message));
+        this.rooms.publishEvent(sessionId, p.primaryLanguage, { ...message, language: p.primaryLanguage });
       });
-      this.logger.log(`[audio.output] Sending to client: ${message.length} chars`);
-      wss.write(message);
-    });
+    }
 
-    openAIHandler.events.on('error', (err) => {
+    rtcSession.events.on('error', (err) => {
       this.logger.error('OpenAI Error:', err);
     });
 
-    // Verbindung zu OpenAI herstellen
-    await openAIHandler.connectToAudioStream();
+    try {
+      await rtcSession.connect();
+    } catch (err) {
+      // Absichtlich geschlossen, z. B. weil der Client als Listener einem Raum beigetreten ist
+      if (p.rtcSession !== rtcSession) {
+        return false;
+      }
+      this.logger.error('OpenAI session could not be established', err as Error);
+      if (client.readyState === WebSocket.OPEN) {
+        this.writeError(wss, { reason: 'upstream_unavailable' });
+        client.close(1011, 'upstream unavailable');
+      }
+      this.clients.delete(client);
+      this.resources.releaseScope(sessionId, 'upstream_unavailable');
+      return false;
+    }
+    rtcSession.events.once('gave_up', () => {
+      client.close(1011, 'upstream unavailable');
+      this.clients.delete(client);
+      this.resources.releaseScope(sessionId, 'upstream_gave_up');
+    });
+    return true;
+  }
 
+  /**
+   * Öffnet für einen Sprecher je eine Upstream-Session pro zusätzlicher Zielsprache. Sie bekommen dasselbe
+   * dekodierte PCM wie die eigene Session, ihre Ausgabe geht nur an die Zuhörer des Sprachkanals.
+   */
+  private openChannels(client: WebSocket, languages: string[]): void {
+    const p = this.clients.get(client);
+    for (const language of languages) {
+      if (language === p.primaryLanguage || p.channels.has(language)) {
+        continue;
+      }
+      // Kanäle belegen keinen Session-Slot des Keys, ihre Zahl begrenzt ROOM_MAX_LANGUAGES pro Sprecher
+      const channelId = `${p.sessionId}:${language}`;
+      const channel = this.rtcService.createSession(
+        { ...p.sessionOptions, targetLanguage: language, instructions: undefined },
+        { sessionId: channelId, gateway: OwnWebSocketGateway.name, keyId: p.quotaKey },
+      );
+      p.channels.set(language, channel);
+
+      channel.events.on('tts.chunk', (payload: TtsChunkPayload) => this.rooms.publishAudio(p.sessionId, language, payload));
+      for (const [event, type] of FORWARDED_SESSION_EVENTS) {
+        channel.events.on(event, (payload: TranscriptPayload | PlaybackFlushPayload) => {
+          // Das Eingangs-Transkript liefert schon die eigene Session
+          if ((payload as TranscriptPayload).source !== 'input') {
+            this.rooms.publishEvent(p.sessionId, language, { type, ...payload, language });
+          }
+        });
+      }
+      channel.events.on('error', (err) => this.logger.error(`OpenAI Error (${language} channel):`, err));
+      channel.events.once('gave_up', () => this.dropChannel(client, language));
+      channel.connect().catch((err: Error) => {
+        if (p.channels.get(language) === channel) {
+          this.logger.error(`Language channel ${language} could not be established: ${err.message}`);
+          this.writeError(p.wss, { reason: 'upstream_unavailable', language });
+          this.dropChannel(client, language);
+        }
+      });
+    }
+  }
 
-    wss.on('data', () => { /* empty */ });
+  /** Schließt einen ausgefallenen Kanal und meldet die verbliebenen Sprachen an den Raum. */
+  private dropChannel(client: WebSocket, language: string): void {
+    const p = this.clients.get(client);
+    if (!p) {
+      return;
+    }
+    this.closeChannel(client, language);
+    this.rooms.setLanguages(p.sessionId, [p.primaryLanguage, ...p.channels.keys()]);
+  }
 
-    this.clients.set(client, p);
-    this.logger.log(`Client mit  createWebSocketStream connected`);
+  private closeChannel(client: WebSocket, language: string): void {
+    const p = this.clients.get(client);
+    if (!p?.channels.has(language)) {
+      return;
+    }
+    p.channels.delete(language);
+    this.rtcService.closeSession(`${p.sessionId}:${language}`);
+  }
 
-    wss.write('Connected to WebSocket Server!');
+  private closeChannels(client: WebSocket): void {
+    [...(this.clients.get(client)?.channels.keys() ?? [])].forEach((language) => this.closeChannel(client, language));
+  }
+
+  /**
+   * Überträgt eine Änderung der eigenen Session auf die Sprachkanäle. Nur die Zielsprache und die
+   * Instruktionen bleiben pro Kanal, ein Kanal mit der neuen Hauptsprache wird geschlossen.
+   */
+  private configureChannels(client: WebSocket, update: RealtimeSessionUpdate): void {
+    const p = this.clients.get(client);
+    const { targetLanguage, sourceLanguage, voice, turnDetection } = update;
+    const shared = Object.fromEntries(
+      Object.entries({ sourceLanguage, voice, turnDetection }).filter(([, value]) => value !== undefined),
+    ) as RealtimeSessionUpdate;
+    p.sessionOptions = { ...p.sessionOptions, ...shared };
+    if (targetLanguage && targetLanguage !== p.primaryLanguage) {
+      p.primaryLanguage = targetLanguage;
+      this.closeChannel(client, targetLanguage);
+    }
+    if (Object.keys(shared).length > 0) {
+      p.channels.forEach((channel, language) =>
+        channel.updateSession(shared).catch((err: Error) =>
+          this.logger.warn(`session_configure failed for ${language} channel: ${err.message}`),
+        ),
+      );
+    }
+    if (this.rooms.getRole(p.sessionId) === roomRoles.enum.speaker) {
+      this.rooms.setLanguages(p.sessionId, [p.primaryLanguage, ...p.channels.keys()]);
+    }
+  }
+
+  /**
+   * Zuhörer brauchen keine eigene Upstream-Session, sie bekommen die Übersetzung des Sprechers. Auch ihr
+   * Session-Slot wird frei, sonst könnte ein Raum nie mehr Mitglieder haben als das Session-Limit des Keys.
+   */
+  private closeUpstream(client: WebSocket): void {
+    const p = this.clients.get(client);
+    this.closeChannels(client);
+    if (p?.rtcSession) {
+      p.rtcSession = undefined;
+      this.rtcService.closeSession(p.sessionId);
+      this.quotaService.closeSession(p.quotaKey, p.sessionId);
+    }
+  }
+
+  /** Belegt für einen ehemaligen Zuhörer wieder einen Session-Slot, bevor er einen eigenen Upstream bekommt. */
+  private reserveUpstream(client: WebSocket): boolean {
+    const p = this.clients.get(client);
+    const quota = this.quotaService.openSession(p.quotaKey, p.sessionId);
+    if (!quota.allowed) {
+      this.writeError(p.wss, { reason: 'rate_limited', limit: quota.limit });
+    }
+    return quota.allowed;
+  }
+
+  /** PCM16 direkt an den Client senden (ohne FFmpeg-Konvertierung), als Binärframe oder play-data. */
+  private sendAudio(client: WebSocket, payload: TtsChunkPayload): void {
+    const p = this.clients.get(client);
+    if (!p) {
+      return;
+    }
+    const audioBuffer = Buffer.from(payload.base64, 'base64');
+    this.metrics.recordAudio(OwnWebSocketGateway.name, 'out', audioBuffer.length);
+    this.logger.log(`[audio.output] Decoded buffer size: ${audioBuffer.length} bytes`);
+
+    if (p.audioTransport === audioTransports.enum.binary) {
+      p.wss.write(encodeBinaryAudioFrame({
+        format: 'pcm16',
+        sequence: p.outputSequence++,
+        sampleRate: payload.sampleRate || 24000,
+        payload: audioBuffer,
+      }));
+      return;
+    }
+    const message = JSON.stringify({
+      type: 'play-data',
+      data: payload.base64,
+      timestamp: new Date().toISOString(),
+      format: 'pcm16',
+      sampleRate: payload.sampleRate || 24000
+    });
+    this.logger.log(`[audio.output] Sending to client: ${message.length} chars`);
+    p.wss.write(message);
   }
 
   async handleDisconnect(client: WebSocket) {
     const clientData = this.clients.get(client);
-    // Falls du den Stream im clientData Objekt speicherst (empfohlen), schließe ihn hier:
-    // clientData.audioFileStream?.end();
-
-    // const pcmFile = clientData.audioFileName || './output.pcm';
-    // const mp3File = pcmFile.replace('.pcm', '.mp3');
-
-    // ffmpeg(pcmFile)
-    //   .inputFormat('s16le')
-    //   .audioFrequency(48000)
-    //   .audioChannels(1)
-    //   .save(mp3File)
-    //   .on('end', () => {
-    //     this.logger.log('Umwandlung in MP3 abgeschlossen');
-    //     // Optional: fs.unlinkSync(pcmFile); // Lösche die temporäre PCM Datei
-    //   });
-
-    // const inputFile = clientData.inputFileName || './input.webm';
-    // const inputMp3File = inputFile.replace('.webm', '.mp3');
-
-    // ffmpeg(inputFile)
-    //   .inputFormat('webm')
-    //   .audioFrequency(24000)
-    //   .audioChannels(1)
-    //   .save(inputMp3File)
-    //   .on('end', () => {
-    //     this.logger.log('Umwandlung in MP3 abgeschlossen');
-    //     // Optional: fs.unlinkSync(pcmFile); // Lösche die temporäre PCM Datei
-    //   });
-
+    if (clientData) {
+      this.resources.releaseScope(clientData.sessionId, 'disconnect');
+    }
     this.clients.delete(client);
     this.logger.log('Client disconnected');
   }
@@ -182,19 +457,10 @@ export class OwnWebSocketGateway implements OnGatewayConnection, OnGatewayDiscon
   @SubscribeMessage(msgTypes.enum.sound_data_from_client)
   handleSoundDataFromClient(@MessageBody() data: MsgDataFromClient, @ConnectedSocket() client: WebSocket): void {
     msgDataFromClientSchema.parse(data);
-    const clientData = this.clients.get(client);
 
     this.logger.log(`Received message: ${data.message} ${data.sequence.toString()}, ${data.mimeType}, ${data.chunk.length} bytes`);
 
-    if (clientData?.audioConverter) {
-      const buffer = Buffer.from(data.chunk, 'base64');
-      // clientData.inputFileStream.write(buffer);
-
-
-      clientData.audioConverter.write(buffer);
-      clientData.pendingInputChunks.push({ sequence: data.sequence, receivedAt: Date.now() });
-      this.logger.debug(`[latency] seq ${data.sequence}: chunk queued for FFmpeg (${buffer.length} bytes)`);
-    }
+    this.queueForConversion(client, Buffer.from(data.chunk, 'base64'), data.sequence, data.sentAt);
 
     // if (clientData?.openAIHandler) {
     //   // Chunk an OpenAI weiterleiten
@@ -216,6 +482,195 @@ export class OwnWebSocketGateway implements OnGatewayConnection, OnGatewayDiscon
     // }));
   }
 
+  handleBinarySoundData(client: WebSocket, data: Buffer): void {
+    const clientData = this.clients.get(client);
+    let frame: ReturnType<typeof decodeBinaryAudioFrame>;
+    try {
+      frame = decodeBinaryAudioFrame(data);
+    } catch (err) {
+      if (!(err instanceof InvalidBinaryFrameError)) {
+        throw err;
+      }
+      this.logger.warn(`Invalid binary frame: ${err.message}`);
+      this.writeError(clientData?.wss, { reason: 'invalid_binary_frame', message: err.message });
+      return;
+    }
+    if (frame.format !== 'webm') {
+      this.writeError(clientData?.wss, { reason: 'invalid_binary_frame', message: `Expected webm, got ${frame.format}` });
+      return;
+    }
+
+    this.logger.log(`Received binary chunk ${frame.sequence}, ${frame.payload.length} bytes`);
+    this.queueForConversion(client, frame.payload, frame.sequence);
+  }
+
+  /** Schreibt einen WebM-Chunk in den Decoder (nach Quota-Prüfung). */
+  private queueForConversion(client: WebSocket, buffer: Buffer, sequence: number, sentAt?: number): void {
+    const clientData = this.clients.get(client);
+    if (!clientData?.audioConverter) {
+      return;
+    }
+    if (this.rooms.getRole(clientData.sessionId) === roomRoles.enum.listener) {
+      this.writeError(clientData.wss, { reason: 'forbidden_for_role', role: roomRoles.enum.listener });
+      return;
+    }
+    const quota = this.quotaService.consume(clientData.quotaKey, clientData.sessionId, { bytes: buffer.length });
+    if (!quota.allowed) {
+      this.writeError(clientData.wss, { reason: 'rate_limited', limit: quota.limit, retryAfterMs: quota.retryAfterMs });
+      return;
+    }
+    // clientData.inputFileStream.write(buffer);
+
+    this.metrics.recordAudio(OwnWebSocketGateway.name, 'in', buffer.length);
+    clientData.latency.chunkReceived(sentAt);
+    clientData.audioConverter.write(buffer);
+    this.logger.debug(`seq ${sequence}: chunk queued for decoding (${buffer.length} bytes)`);
+  }
+
+  /** Sprachpaar, Stimme, Instruktionen und Turn Detection zur Laufzeit ändern. */
+  @SubscribeMessage(msgTypes.enum.session_configure)
+  async handleSessionConfigure(@MessageBody() data: unknown, @ConnectedSocket() client: WebSocket): Promise<void> {
+    const clientData = this.clients.get(client);
+    const parsed = sessionConfigureMessageSchema.omit({ type: true }).safeParse(data);
+    if (!parsed.success) {
+      this.writeError(clientData?.wss, { reason: 'invalid_payload', details: parsed.error.issues });
+      return;
+    }
+    if (!clientData?.rtcSession) {
+      return;
+    }
+
+    try {
+      const session = await clientData.rtcSession.updateSession(parsed.data);
+      this.configureChannels(client, parsed.data);
+      clientData.wss.write(JSON.stringify({ type: 'session.configured', session }));
+    } catch (err) {
+      this.logger.warn(`session_configure failed: ${(err as Error).message}`);
+      this.writeError(clientData.wss, { reason: 'upstream_error', message: (err as Error).message });
+    }
+  }
+
+  /** Antwort auf playback.flush: wie viel der unterbrochenen Antwort tatsächlich gehört wurde. */
+  @SubscribeMessage(msgTypes.enum.playback_flushed)
+  handlePlaybackFlushed(@MessageBody() data: unknown, @ConnectedSocket() client: WebSocket): void {
+    const parsed = playbackFlushedMessageSchema.omit({ type: true }).safeParse(data);
+    if (!parsed.success) {
+      this.writeError(this.clients.get(client)?.wss, { reason: 'invalid_payload', details: parsed.error.issues });
+      return;
+    }
+    this.clients.get(client)?.rtcSession?.truncateOutput(parsed.data.playedMs, parsed.data.itemId);
+  }
+
+  /** Client hat mit der Wiedergabe einer Antwort begonnen, schließt die Latenzmessung der Antwort ab. */
+  @SubscribeMessage(msgTypes.enum.playback_started)
+  handlePlaybackStarted(@MessageBody() data: unknown, @ConnectedSocket() client: WebSocket): void {
+    const parsed = playbackStartedMessageSchema.omit({ type: true }).safeParse(data);
+    if (!parsed.success) {
+      this.writeError(this.clients.get(client)?.wss, { reason: 'invalid_payload', details: parsed.error.issues });
+      return;
+    }
+    this.logLatency(this.clients.get(client)?.latency.playbackStarted(parsed.data.responseId, parsed.data.startedAt));
+  }
+
+  /**
+   * Raum beitreten: der Sprecher übersetzt mit seiner Upstream-Session für den ganzen Raum, Zuhörer geben ihre
+   * eigene Session ab und bekommen Audio und Untertitel des Sprechers.
+   */
+  @SubscribeMessage(msgTypes.enum.room_join)
+  handleRoomJoin(@MessageBody() data: unknown, @ConnectedSocket() client: WebSocket): void {
+    const clientData = this.clients.get(client);
+    if (!clientData) {
+      return;
+    }
+    const parsed = roomJoinSchema.safeParse(data);
+    if (!parsed.success) {
+      this.writeError(clientData.wss, { reason: 'invalid_payload', details: parsed.error.issues });
+      return;
+    }
+    const { roomId, role, name, language } = parsed.data;
+    const isSpeaker = role === roomRoles.enum.speaker;
+    // Die eigene Session übersetzt immer in die Hauptsprache, sie steht deshalb vorne
+    const languages = isSpeaker
+      ? [...new Set([clientData.primaryLanguage, ...(parsed.data.languages ?? [])])]
+      : undefined;
+    // Ein Zuhörer, der zum Sprecher wird, braucht wieder einen Session-Slot
+    const reopen = isSpeaker && !clientData.rtcSession;
+    if (reopen && !this.reserveUpstream(client)) {
+      return;
+    }
+    let room: RoomSnapshot;
+    try {
+      room = this.rooms.join(roomId, {
+        id: clientData.sessionId,
+        name,
+        role,
+        languages,
+        language: isSpeaker ? undefined : language,
+        deliverAudio: (payload) => this.sendAudio(client, payload),
+        send: (message) => clientData.wss.write(JSON.stringify(message)),
+      });
+    } catch (err) {
+      if (reopen) {
+        this.quotaService.closeSession(clientData.quotaKey, clientData.sessionId);
+      }
+      if (!(err instanceof RoomJoinError)) {
+        throw err;
+      }
+      this.writeError(clientData.wss, { reason: err.reason, message: err.message, roomId });
+      return;
+    }
+
+    if (!isSpeaker) {
+      this.closeUpstream(client);
+    } else {
+      if (reopen) {
+        void this.openUpstream(client);
+      }
+      // Sprachen, die nicht mehr gewünscht sind, zuerst schließen
+      [...clientData.channels.keys()]
+        .filter((channel) => !languages.includes(channel))
+        .forEach((channel) => this.closeChannel(client, channel));
+      this.openChannels(client, languages);
+    }
+    clientData.wss.write(JSON.stringify({ type: 'room.joined', role, ...room }));
+  }
+
+  /** Raum verlassen; ehemalige Zuhörer bekommen wieder eine eigene Upstream-Session. */
+  @SubscribeMessage(msgTypes.enum.room_leave)
+  handleRoomLeave(@ConnectedSocket() client: WebSocket): void {
+    const clientData = this.clients.get(client);
+    if (!clientData) {
+      return;
+    }
+    const room = this.rooms.getRoomOf(clientData.sessionId);
+    const role = this.rooms.getRole(clientData.sessionId);
+    this.rooms.leave(clientData.sessionId);
+    this.closeChannels(client);
+    clientData.wss.write(JSON.stringify({ type: 'room.left', roomId: room?.roomId ?? null }));
+    if (role !== roomRoles.enum.listener) {
+      return;
+    }
+    // Ohne freien Slot bleibt der Client ohne Upstream und kann nichts mehr tun
+    if (!this.reserveUpstream(client)) {
+      client.close(4408, 'too many concurrent sessions');
+      return;
+    }
+    void this.openUpstream(client);
+  }
+
+  /** Schreibt einen Fehler an den Client und zählt ihn pro `reason` in den Metriken. */
+  private writeError(wss: Duplex | undefined, error: { reason: string; [key: string]: unknown }): void {
+    this.metrics.recordClientError(OwnWebSocketGateway.name, error.reason);
+    wss?.write(JSON.stringify({ type: 'error', ...error }));
+  }
+
+  private logLatency(report: LatencyReport | null | undefined): void {
+    if (report) {
+      const stages = Object.entries(report.stages).map(([stage, ms]) => `${stage}=${ms}ms`).join(' ');
+      this.logger.debug(`[latency] response ${report.responseId ?? report.itemId}${report.final ? ' (final)' : ''}: ${stages}`);
+    }
+  }
+
   @SubscribeMessage(msgTypes.enum.sound_data_from_ai)
   handleSoundDataFromAi(@MessageBody() data: any, @ConnectedSocket() client: WebSocket): void {
     this.logger.log(`(1) Received message: ${JSON.stringify(data)}`);
@@ -0,0 +1,76 @@
+import { decodeG711, encodeG711, Pcm16Resampler } from './AudioTranscoder';
+
+function pcm(...samples: number[]): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+  return buffer;
+}
+
+function samples(buffer: Buffer): number[] {
+  return Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2));
+}
+
+describe('Pcm16Resampler', () => {
+  it('passes mono audio through at the same rate', () => {
+    const resampler = new Pcm16Resampler(24_000, 24_000);
+    expect(samples(resampler.process(pcm(1, -2, 3)))).toEqual([1, -2, 3]);
+  });
+
+  it('mixes interleaved stereo down to mono', () => {
+    const resampler = new Pcm16Resampler(24_000, 24_000, 2);
+    expect(samples(resampler.process(pcm(100, 200, -100, -300)))).toEqual([150, -200]);
+  });
+
+  it('keeps half frames until the next chunk', () => {
+    const resampler = new Pcm16Resampler(24_000, 24_000);
+    const chunk = pcm(1000, 2000);
+    expect(resampler.process(chunk.subarray(0, 3))).toHaveLength(2);
+    expect(samples(resampler.process(chunk.subarray(3)))).toEqual([2000]);
+  });
+
+  it('interpolates linearly when upsampling', () => {
+    const resampler = new Pcm16Resampler(8_000, 16_000);
+    expect(samples(resampler.process(pcm(0, 100, 200)))).toEqual([0, 50, 100, 150]);
+  });
+
+  it('produces the target rate across chunk boundaries', () => {
+    const resampler = new Pcm16Resampler(48_000, 24_000);
+    const input = pcm(...Array.from({ length: 4800 }, (_, i) => i));
+    const output = [
+      ...samples(resampler.process(input.subarray(0, 3001))),
+      ...samples(resampler.process(input.subarray(3001))),
+    ];
+    expect(output).toHaveLength(2400);
+    expect(output.slice(0, 4)).toEqual([0, 2, 4, 6]);
+    expect(output.every((sample, i) => sample === i * 2)).toBe(true);
+  });
+});
+
+describe('G.711', () => {
+  it.each(['g711_ulaw', 'g711_alaw'] as const)('%s encodes one byte per sample', (codec) => {
+    expect(encodeG711(pcm(0, 1000, -1000), codec)).toHaveLength(3);
+    expect(decodeG711(Buffer.from([0x12, 0x34]), codec)).toHaveLength(4);
+  });
+
+  it('encodes silence as the reference code words', () => {
+    expect([...encodeG711(pcm(0), 'g711_ulaw')]).toEqual([0xff]);
+    expect([...encodeG711(pcm(0), 'g711_alaw')]).toEqual([0xd5]);
+  });
+
+  it.each(['g711_ulaw', 'g711_alaw'] as const)('%s round-trips within the quantisation step', (codec) => {
+    const input = [-32768, -12345, -1000, -1, 0, 1, 50, 1000, 12345, 32767];
+    const output = samples(decodeG711(encodeG711(pcm(...input), codec), codec));
+    output.forEach((sample, i) => {
+      expect(Math.sign(sample) * Math.sign(input[i])).toBeGreaterThanOrEqual(0);
+      expect(Math.abs(sample - input[i])).toBeLessThanOrEqual(Math.max(16, Math.abs(input[i]) / 16));
+    });
+  });
+
+  it.each(['g711_ulaw', 'g711_alaw'] as const)('%s decodes every code word back to itself', (codec) => {
+    const codes = Buffer.from(Array.from({ length: 256 }, (_, i) => i));
+    const reencoded = encodeG711(decodeG711(codes, codec), codec);
+    // µ-law kennt eine positive und eine negative Null, beide werden zu 0xff
+    const expected = [...codes].map((code) => (codec === 'g711_ulaw' && code === 0x7f ? 0xff : code));
+    expect([...reencoded]).toEqual(expected);
+  });
+});
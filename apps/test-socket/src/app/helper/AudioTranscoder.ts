@@ -0,0 +1,455 @@
+import { Logger } from '@nestjs/common';
+import { PassThrough, Transform } from 'node:stream';
+import { z } from 'zod';
+import ffmpeg from 'fluent-ffmpeg';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { opus } from 'prism-media';
+import OpusScript from 'opusscript';
+import type { AudioCodec, ResolvedAudioFormat } from '../models/realtime-protocol.model';
+import { OggOpusMuxer, OPUS_GRANULE_RATE } from './OggOpusMuxer';
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path);
+
+/** Sample rate G.711 is defined for, other rates are not negotiable. */
+export const G711_SAMPLE_RATE = 8000;
+
+/** Codecs the server can produce as output audio. */
+export const OUTPUT_CODECS: readonly AudioCodec[] = ['pcm16', 'g711_ulaw', 'g711_alaw', 'opus'];
+
+/**
+ * How container formats (WebM, Ogg/Opus) are decoded: `ffmpeg` spawns one
+ * process per session, `native` demuxes and decodes in-process (prism-media + opusscript).
+ */
+export const audioCodecBackends = z.enum({
+  ffmpeg: 'ffmpeg',
+  native: 'native',
+});
+
+export type AudioCodecBackend = z.infer<typeof audioCodecBackends>;
+
+/** Containers that have to be demuxed, raw Opus packets cannot be decoded without framing. */
+const FFMPEG_INPUT_FORMATS: Partial<Record<AudioCodec, string>> = {
+  webm: 'webm',
+  opus: 'ogg',
+};
+
+/** Opus works internally at 48 kHz; 20 ms frames are the usual packet size for speech. */
+const OPUS_SAMPLE_RATES = [8000, 12_000, 16_000, 24_000, 48_000] as const;
+const OPUS_FRAME_MS = 20;
+
+export class UnsupportedAudioFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = UnsupportedAudioFormatError.name;
+  }
+}
+
+/** Converts client input audio to PCM16 mono for the upstream session. */
+export interface InputTranscoder {
+  readonly format: ResolvedAudioFormat;
+  /** Converted audio is delivered through the `onPcm` callback, possibly asynchronously. */
+  write(chunk: Buffer): void;
+  close(): void;
+}
+
+/** Converts upstream PCM16 mono to the output format the client negotiated. */
+export interface OutputTranscoder {
+  readonly format: ResolvedAudioFormat;
+  /** Sample rate of the upstream audio the transcoder was created for. */
+  readonly sourceRate: number;
+  convert(pcm: Buffer): Buffer;
+  close(): void;
+}
+
+// ---------------------------------------------------------------------------
+// G.711 (ITU-T), nach der Referenzimplementierung g711.c
+// ---------------------------------------------------------------------------
+
+const ULAW_BIAS = 0x84;
+const ULAW_CLIP = 32635;
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+function linearToUlaw(sample: number): number {
+  const sign = (sample >> 8) & 0x80;
+  let magnitude = Math.min(sign ? -sample : sample, ULAW_CLIP) + ULAW_BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  magnitude = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | magnitude) & 0xff;
+}
+
+function ulawToLinear(value: number): number {
+  const inverted = ~value & 0xff;
+  const exponent = (inverted >> 4) & 0x07;
+  const sample = ((((inverted & 0x0f) << 3) + ULAW_BIAS) << exponent) - ULAW_BIAS;
+  return inverted & 0x80 ? -sample : sample;
+}
+
+function linearToAlaw(sample: number): number {
+  let value = sample >> 3;
+  let mask = 0xd5;
+  if (value < 0) {
+    mask = 0x55;
+    value = -value - 1;
+  }
+  const segment = ALAW_SEGMENT_ENDS.findIndex((end) => value <= end);
+  if (segment === -1) {
+    return 0x7f ^ mask;
+  }
+  const mantissa = segment < 2 ? (value >> 1) & 0x0f : (value >> segment) & 0x0f;
+  return ((segment << 4) | mantissa) ^ mask;
+}
+
+function alawToLinear(value: number): number {
+  const toggled = value ^ 0x55;
+  const segment = (toggled & 0x70) >> 4;
+  let sample = (toggled & 0x0f) << 4;
+  sample += segment === 0 ? 8 : 0x108;
+  if (segment > 1) {
+    sample <<= segment - 1;
+  }
+  return toggled & 0x80 ? sample : -sample;
+}
+
+const ULAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, value) => ulawToLinear(value));
+const ALAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, value) => alawToLinear(value));
+
+export function decodeG711(data: Buffer, codec: 'g711_ulaw' | 'g711_alaw'): Buffer {
+  const table = codec === 'g711_ulaw' ? ULAW_DECODE_TABLE : ALAW_DECODE_TABLE;
+  const pcm = Buffer.alloc(data.length * 2);
+  for (let i = 0; i < data.length; i++) {
+    pcm.writeInt16LE(table[data[i]], i * 2);
+  }
+  return pcm;
+}
+
+export function encodeG711(pcm: Buffer, codec: 'g711_ulaw' | 'g711_alaw'): Buffer {
+  const encode = codec === 'g711_ulaw' ? linearToUlaw : linearToAlaw;
+  const samples = Math.floor(pcm.length / 2);
+  const data = Buffer.alloc(samples);
+  for (let i = 0; i < samples; i++) {
+    data[i] = encode(pcm.readInt16LE(i * 2));
+  }
+  return data;
+}
+
+// ---------------------------------------------------------------------------
+// Resampling
+// ---------------------------------------------------------------------------
+
+/**
+ * Streaming PCM16 resampler with linear interpolation that also mixes
+ * interleaved stereo down to mono. Keeps the last sample and the fractional
+ * read position between chunks, so chunk boundaries do not click.
+ */
+export class Pcm16Resampler {
+  private readonly step: number;
+  private readonly frameBytes: number;
+  private remainder = Buffer.alloc(0);
+  private last: number | null = null;
+  /** Read position of the next output sample, relative to `last`. */
+  private position = 0;
+
+  constructor(
+    readonly fromRate: number,
+    readonly toRate: number,
+    readonly channels = 1,
+  ) {
+    this.step = fromRate / toRate;
+    this.frameBytes = 2 * channels;
+  }
+
+  process(chunk: Buffer): Buffer {
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk;
+    const frames = Math.floor(data.length / this.frameBytes);
+    // Halbe Frames (z. B. ungerade Chunkgrößen) bis zum nächsten Chunk aufheben
+    this.remainder = Buffer.from(data.subarray(frames * this.frameBytes));
+    if (frames === 0) {
+      return Buffer.alloc(0);
+    }
+
+    const mono = this.downmix(data, frames);
+    if (this.step === 1) {
+      return Buffer.from(mono.buffer, mono.byteOffset, mono.byteLength);
+    }
+
+    const input = this.last === null ? mono : Int16Array.from([this.last, ...mono]);
+    const output: number[] = [];
+    let position = this.position;
+    for (; position < input.length - 1; position += this.step) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      output.push(Math.round(input[index] * (1 - fraction) + input[index + 1] * fraction));
+    }
+    this.last = input[input.length - 1];
+    this.position = position - (input.length - 1);
+
+    const pcm = Buffer.alloc(output.length * 2);
+    output.forEach((sample, i) => pcm.writeInt16LE(sample, i * 2));
+    return pcm;
+  }
+
+  private downmix(data: Buffer, frames: number): Int16Array {
+    const mono = new Int16Array(frames);
+    for (let frame = 0; frame < frames; frame++) {
+      let sum = 0;
+      for (let channel = 0; channel < this.channels; channel++) {
+        sum += data.readInt16LE(frame * this.frameBytes + channel * 2);
+      }
+      mono[frame] = Math.round(sum / this.channels);
+    }
+    return mono;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Transcoder
+// ---------------------------------------------------------------------------
+
+class PcmInputTranscoder implements InputTranscoder {
+  private readonly resampler: Pcm16Resampler;
+
+  constructor(
+    readonly format: ResolvedAudioFormat,
+    targetRate: number,
+    private readonly onPcm: (pcm: Buffer) => void,
+  ) {
+    this.resampler = new Pcm16Resampler(format.sampleRate, targetRate, format.channels);
+  }
+
+  write(chunk: Buffer): void {
+    const decoded = this.format.codec === 'pcm16' ? chunk : decodeG711(chunk, this.format.codec as 'g711_ulaw' | 'g711_alaw');
+    const pcm = this.resampler.process(decoded);
+    if (pcm.length > 0) {
+      this.onPcm(pcm);
+    }
+  }
+
+  close(): void {
+    // zustandslos bis auf den Resampler, nichts freizugeben
+  }
+}
+
+/** Container formats (WebM, Ogg/Opus) go through an ffmpeg process per session. */
+class FfmpegInputTranscoder implements InputTranscoder {
+  private readonly logger = new Logger(FfmpegInputTranscoder.name);
+  private readonly input = new PassThrough();
+  private readonly command: ffmpeg.FfmpegCommand;
+  private closed = false;
+
+  constructor(
+    readonly format: ResolvedAudioFormat,
+    targetRate: number,
+    onPcm: (pcm: Buffer) => void,
+    onError: (err: Error) => void,
+  ) {
+    this.command = ffmpeg(this.input)
+      .inputFormat(FFMPEG_INPUT_FORMATS[format.codec])
+      .audioCodec('pcm_s16le')
+      .audioFrequency(targetRate)
+      .audioChannels(1)
+      .format('s16le')
+      .on('error', (err: Error) => {
+        if (!this.closed) {
+          this.logger.error(`FFmpeg Error: ${err.message}`);
+          onError(err);
+        }
+      });
+    this.command.pipe().on('data', (pcm: Buffer) => onPcm(pcm));
+  }
+
+  write(chunk: Buffer): void {
+    if (!this.closed) {
+      this.input.write(chunk);
+    }
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.input.end();
+    this.command.kill('SIGKILL');
+  }
+}
+
+/** In-process WebM/Ogg demuxing and Opus decoding, no child process per session. */
+class NativeOpusInputTranscoder implements InputTranscoder {
+  private readonly demuxer: Transform;
+  private readonly decoder = new OpusScript(OPUS_GRANULE_RATE, 1);
+  private readonly resampler: Pcm16Resampler;
+  private closed = false;
+
+  constructor(
+    readonly format: ResolvedAudioFormat,
+    targetRate: number,
+    onPcm: (pcm: Buffer) => void,
+    onError: (err: Error) => void,
+  ) {
+    // Der Decoder mischt Stereo-Streams selbst auf mono herunter
+    this.resampler = new Pcm16Resampler(OPUS_GRANULE_RATE, targetRate);
+    this.demuxer = format.codec === 'webm' ? new opus.WebmDemuxer() : new opus.OggDemuxer();
+    this.demuxer.on('data', (packet: Buffer) => {
+      if (this.closed) {
+        return;
+      }
+      try {
+        const pcm = this.resampler.process(this.decoder.decode(packet));
+        if (pcm.length > 0) {
+          onPcm(pcm);
+        }
+      } catch (err) {
+        onError(err as Error);
+      }
+    });
+    this.demuxer.on('error', (err: Error) => {
+      if (!this.closed) {
+        onError(err);
+      }
+    });
+  }
+
+  write(chunk: Buffer): void {
+    if (!this.closed) {
+      this.demuxer.write(chunk);
+    }
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.demuxer.destroy();
+    // WASM-Speicher wird nicht vom GC freigegeben
+    this.decoder.delete();
+  }
+}
+
+class PcmOutputTranscoder implements OutputTranscoder {
+  private readonly resampler: Pcm16Resampler;
+
+  constructor(
+    readonly format: ResolvedAudioFormat,
+    readonly sourceRate: number,
+  ) {
+    this.resampler = new Pcm16Resampler(sourceRate, format.sampleRate);
+  }
+
+  convert(pcm: Buffer): Buffer {
+    const resampled = this.resampler.process(pcm);
+    if (this.format.codec === 'pcm16') {
+      return resampled;
+    }
+    return encodeG711(resampled, this.format.codec as 'g711_ulaw' | 'g711_alaw');
+  }
+
+  close(): void {
+    // nur Resampler-Zustand, nichts freizugeben
+  }
+}
+
+/**
+ * Encodes to 20 ms Opus packets in one continuous Ogg stream per session;
+ * the first chunk starts with the `OpusHead`/`OpusTags` pages.
+ */
+class OpusOutputTranscoder implements OutputTranscoder {
+  private readonly resampler: Pcm16Resampler;
+  private readonly encoder: OpusScript;
+  private readonly muxer: OggOpusMuxer;
+  private readonly frameBytes: number;
+  private pending = Buffer.alloc(0);
+  private headerSent = false;
+
+  constructor(
+    readonly format: ResolvedAudioFormat,
+    readonly sourceRate: number,
+  ) {
+    this.resampler = new Pcm16Resampler(sourceRate, format.sampleRate);
+    this.encoder = new OpusScript(format.sampleRate as (typeof OPUS_SAMPLE_RATES)[number], 1, OpusScript.Application.VOIP);
+    this.muxer = new OggOpusMuxer(1, format.sampleRate);
+    this.frameBytes = ((format.sampleRate * OPUS_FRAME_MS) / 1000) * 2;
+  }
+
+  convert(pcm: Buffer): Buffer {
+    this.pending = Buffer.concat([this.pending, this.resampler.process(pcm)]);
+    const packets: Buffer[] = [];
+    let offset = 0;
+    for (; offset + this.frameBytes <= this.pending.length; offset += this.frameBytes) {
+      packets.push(Buffer.from(this.encoder.encode(this.pending.subarray(offset, offset + this.frameBytes), this.frameBytes / 2)));
+    }
+    this.pending = Buffer.from(this.pending.subarray(offset));
+    if (packets.length === 0) {
+      return Buffer.alloc(0);
+    }
+
+    const pages = this.muxer.packets(packets, (OPUS_GRANULE_RATE * OPUS_FRAME_MS) / 1000);
+    if (this.headerSent) {
+      return pages;
+    }
+    this.headerSent = true;
+    return Buffer.concat([this.muxer.header(), pages]);
+  }
+
+  close(): void {
+    this.encoder.delete();
+  }
+}
+
+/**
+ * Fills in sample rate and channels the client left out. G.711 is always
+ * 8 kHz mono; for Opus and WebM input the rate only documents what the
+ * container carries, the decoder reads the real one from the stream.
+ */
+export function resolveAudioFormat(
+  format: { codec: AudioCodec; sampleRate?: number; channels?: number } | undefined,
+  defaultSampleRate: number,
+): ResolvedAudioFormat {
+  const codec = format?.codec ?? 'pcm16';
+  if (codec === 'g711_ulaw' || codec === 'g711_alaw') {
+    if (format?.sampleRate && format.sampleRate !== G711_SAMPLE_RATE) {
+      throw new UnsupportedAudioFormatError(`${codec} is only defined for ${G711_SAMPLE_RATE} Hz`);
+    }
+    return { codec, sampleRate: G711_SAMPLE_RATE, channels: format?.channels ?? 1 };
+  }
+  return { codec, sampleRate: format?.sampleRate ?? defaultSampleRate, channels: format?.channels ?? 1 };
+}
+
+/** Creates the converter from the negotiated input format to PCM16 mono at `targetRate`. */
+export function createInputTranscoder(
+  format: ResolvedAudioFormat,
+  targetRate: number,
+  onPcm: (pcm: Buffer) => void,
+  onError: (err: Error) => void = () => undefined,
+  backend: AudioCodecBackend = audioCodecBackends.enum.ffmpeg,
+): InputTranscoder {
+  if (FFMPEG_INPUT_FORMATS[format.codec]) {
+    return backend === audioCodecBackends.enum.native
+      ? new NativeOpusInputTranscoder(format, targetRate, onPcm, onError)
+      : new FfmpegInputTranscoder(format, targetRate, onPcm, onError);
+  }
+  return new PcmInputTranscoder(format, targetRate, onPcm);
+}
+
+/**
+ * Creates the converter from upstream PCM16 mono at `sourceRate` to the
+ * negotiated output format. Opus output is always encoded natively.
+ */
+export function createOutputTranscoder(format: ResolvedAudioFormat, sourceRate: number): OutputTranscoder {
+  if (!OUTPUT_CODECS.includes(format.codec)) {
+    throw new UnsupportedAudioFormatError(`Output codec ${format.codec} is not supported`);
+  }
+  if (format.channels !== 1) {
+    throw new UnsupportedAudioFormatError('Output audio is mono only');
+  }
+  if (format.codec === 'opus') {
+    if (!(OPUS_SAMPLE_RATES as readonly number[]).includes(format.sampleRate)) {
+      throw new UnsupportedAudioFormatError(`Opus output supports ${OPUS_SAMPLE_RATES.join(', ')} Hz`);
+    }
+    return new OpusOutputTranscoder(format, sourceRate);
+  }
+  return new PcmOutputTranscoder(format, sourceRate);
+}
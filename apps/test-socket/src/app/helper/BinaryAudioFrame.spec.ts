@@ -0,0 +1,54 @@
+import {
+  BINARY_FRAME_HEADER_BYTES,
+  decodeBinaryAudioFrame,
+  encodeBinaryAudioFrame,
+  InvalidBinaryFrameError,
+  rawDataToBuffer,
+} from './BinaryAudioFrame';
+
+describe('BinaryAudioFrame', () => {
+  const payload = Buffer.from([1, 2, 3, 4]);
+
+  it('round-trips header fields and payload', () => {
+    const frame = encodeBinaryAudioFrame({ format: 'g711_alaw', sequence: 42, sampleRate: 8000, payload });
+    expect(frame).toHaveLength(BINARY_FRAME_HEADER_BYTES + payload.length);
+    expect(decodeBinaryAudioFrame(frame)).toEqual({
+      format: 'g711_alaw',
+      flags: 0,
+      sequence: 42,
+      sampleRate: 8000,
+      payload,
+    });
+  });
+
+  it('writes the header big endian', () => {
+    const frame = encodeBinaryAudioFrame({ format: 'opus', sequence: 0x01020304, sampleRate: 48_000, flags: 1, payload });
+    expect([...frame.subarray(0, BINARY_FRAME_HEADER_BYTES)]).toEqual([1, 2, 0, 1, 1, 2, 3, 4, 0, 0, 0xbb, 0x80]);
+  });
+
+  it('wraps the sequence number at 32 bit', () => {
+    const frame = encodeBinaryAudioFrame({ format: 'pcm16', sequence: 2 ** 32 + 5, sampleRate: 24_000, payload });
+    expect(decodeBinaryAudioFrame(frame).sequence).toBe(5);
+  });
+
+  it('rejects frames without payload', () => {
+    expect(() => decodeBinaryAudioFrame(Buffer.alloc(BINARY_FRAME_HEADER_BYTES))).toThrow(InvalidBinaryFrameError);
+  });
+
+  it('rejects unknown versions and format codes', () => {
+    const frame = encodeBinaryAudioFrame({ format: 'pcm16', sequence: 1, sampleRate: 24_000, payload });
+    const version = Buffer.from(frame);
+    version.writeUInt8(2, 0);
+    expect(() => decodeBinaryAudioFrame(version)).toThrow('Unsupported binary frame version 2');
+    const format = Buffer.from(frame);
+    format.writeUInt8(99, 1);
+    expect(() => decodeBinaryAudioFrame(format)).toThrow('Unknown audio format code 99');
+  });
+
+  it('normalizes the raw data variants of ws', () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+    expect(rawDataToBuffer(Buffer.from(bytes))).toEqual(Buffer.from(bytes));
+    expect(rawDataToBuffer(bytes.buffer)).toEqual(Buffer.from(bytes));
+    expect(rawDataToBuffer([Buffer.from([1]), Buffer.from([2, 3])])).toEqual(Buffer.from(bytes));
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Binary audio frames for WebSocket clients that negotiated `audioTransport: 'binary'`.
+ *
+ * Layout (big endian, 12 byte header followed by the raw audio bytes):
+ *
+ * | offset | size | field                                    |
+ * |--------|------|------------------------------------------|
+ * | 0      | 1    | frame version, currently `1`             |
+ * | 1      | 1    | format code, see {@link AUDIO_FORMAT_CODES} |
+ * | 2      | 2    | flags, reserved (0)                      |
+ * | 4      | 4    | sequence number                          |
+ * | 8      | 4    | sample rate in Hz                        |
+ */
+export const BINARY_FRAME_VERSION = 1;
+export const BINARY_FRAME_HEADER_BYTES = 12;
+
+export const AUDIO_FORMAT_CODES = {
+  pcm16: 0,
+  webm: 1,
+  opus: 2,
+  g711_ulaw: 3,
+  g711_alaw: 4,
+} as const;
+
+export type BinaryAudioFormat = keyof typeof AUDIO_FORMAT_CODES;
+
+export interface BinaryAudioFrame {
+  format: BinaryAudioFormat;
+  sequence: number;
+  sampleRate: number;
+  flags: number;
+  payload: Buffer;
+}
+
+export class InvalidBinaryFrameError extends Error {}
+
+export function encodeBinaryAudioFrame(frame: Omit<BinaryAudioFrame, 'flags'> & { flags?: number }): Buffer {
+  const header = Buffer.alloc(BINARY_FRAME_HEADER_BYTES);
+  header.writeUInt8(BINARY_FRAME_VERSION, 0);
+  header.writeUInt8(AUDIO_FORMAT_CODES[frame.format], 1);
+  header.writeUInt16BE(frame.flags ?? 0, 2);
+  header.writeUInt32BE(frame.sequence >>> 0, 4);
+  header.writeUInt32BE(frame.sampleRate, 8);
+  return Buffer.concat([header, frame.payload]);
+}
+
+export function decodeBinaryAudioFrame(data: Buffer): BinaryAudioFrame {
+  if (data.byteLength <= BINARY_FRAME_HEADER_BYTES) {
+    throw new InvalidBinaryFrameError(`Binary frame too short (${data.byteLength} bytes)`);
+  }
+  const version = data.readUInt8(0);
+  if (version !== BINARY_FRAME_VERSION) {
+    throw new InvalidBinaryFrameError(`Unsupported binary frame version ${version}`);
+  }
+  const formatCode = data.readUInt8(1);
+  const format = (Object.keys(AUDIO_FORMAT_CODES) as BinaryAudioFormat[]).find(
+    (name) => AUDIO_FORMAT_CODES[name] === formatCode,
+  );
+  if (!format) {
+    throw new InvalidBinaryFrameError(`Unknown audio format code ${formatCode}`);
+  }
+  return {
+    format,
+    flags: data.readUInt16BE(2),
+    sequence: data.readUInt32BE(4),
+    sampleRate: data.readUInt32BE(8),
+    payload: data.subarray(BINARY_FRAME_HEADER_BYTES),
+  };
+}
+
+/** `ws` hands out Buffers, fragmented Buffer lists or ArrayBuffers depending on `binaryType`. */
+export function rawDataToBuffer(data: Buffer | ArrayBuffer | Buffer[]): Buffer {
+  if (Array.isArray(data)) {
+    return Buffer.concat(data);
+  }
+  return Buffer.isBuffer(data) ? data : Buffer.from(data);
+}
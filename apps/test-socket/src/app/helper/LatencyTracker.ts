@@ -0,0 +1,103 @@
+import { LatencyStage } from '../models/realtime-protocol.model';
+
+export interface LatencyReport {
+  responseId?: string;
+  itemId?: string;
+  /** Milliseconds per stage; stages without data are left out. */
+  stages: Partial<Record<LatencyStage, number>>;
+  /** False for the report at the first audio delta, true once the client acknowledged playback. */
+  final: boolean;
+}
+
+type ResponseLatency = {
+  firstAudioAt: number;
+  /** Client timestamp of the last input chunk of the turn the response answers. */
+  lastSentAt?: number;
+  stages: Partial<Record<LatencyStage, number>>;
+  itemId?: string;
+};
+
+/** Responses kept for late playback acknowledgements. */
+const MAX_TRACKED_RESPONSES = 20;
+
+/**
+ * Per-session latency measurements. Replaces the FIFO matching of input
+ * chunks to audio deltas: the upstream stage is measured per turn (end of
+ * the user turn → first audio of the response) instead of per chunk.
+ */
+export class LatencyTracker {
+  /** Receive times of chunks the decoder has not produced output for yet. */
+  private pendingDecode: number[] = [];
+  private lastSentAt?: number;
+  private lastTurnStages: Partial<Record<LatencyStage, number>> = {};
+  private turnEndedAt?: number;
+  private readonly responses = new Map<string, ResponseLatency>();
+
+  constructor(private readonly observe: (stage: LatencyStage, ms: number) => void) {}
+
+  chunkReceived(sentAt?: number, now = Date.now()): void {
+    this.pendingDecode.push(now);
+    if (sentAt !== undefined) {
+      this.lastSentAt = sentAt;
+      // Negative Werte bedeuten nur, dass die Uhren nicht synchron sind
+      if (now >= sentAt) {
+        this.record('client_to_server', now - sentAt);
+      }
+    }
+  }
+
+  /**
+   * Called for each PCM chunk out of the decoder. Container decoders batch
+   * their output, so the wait of the oldest pending chunk is recorded (upper bound).
+   */
+  chunkDecoded(now = Date.now()): void {
+    const oldest = this.pendingDecode[0];
+    this.pendingDecode = [];
+    if (oldest !== undefined) {
+      this.record('decode', now - oldest);
+    }
+  }
+
+  /** Audio went upstream (or the turn was committed): the turn may end here. */
+  turnProgressed(now = Date.now()): void {
+    this.turnEndedAt = now;
+  }
+
+  /** Returns the report for the first audio delta of a response, null for later deltas. */
+  responseAudio(responseId: string | undefined, itemId?: string, now = Date.now()): LatencyReport | null {
+    const key = responseId ?? itemId;
+    if (!key || this.responses.has(key)) {
+      return null;
+    }
+    const stages = { ...this.lastTurnStages };
+    if (this.turnEndedAt !== undefined) {
+      stages.upstream_response = now - this.turnEndedAt;
+      this.observe('upstream_response', stages.upstream_response);
+    }
+    this.responses.set(key, { firstAudioAt: now, lastSentAt: this.lastSentAt, stages, itemId });
+    if (this.responses.size > MAX_TRACKED_RESPONSES) {
+      this.responses.delete(this.responses.keys().next().value);
+    }
+    return { responseId, itemId, stages: { ...stages }, final: false };
+  }
+
+  /** Client acknowledged playback start; `startedAt` is the client clock. */
+  playbackStarted(responseId: string, startedAt?: number, now = Date.now()): LatencyReport | null {
+    const response = this.responses.get(responseId);
+    if (!response || response.stages.playback_start !== undefined) {
+      return null;
+    }
+    response.stages.playback_start = now - response.firstAudioAt;
+    this.observe('playback_start', response.stages.playback_start);
+    if (startedAt !== undefined && response.lastSentAt !== undefined && startedAt >= response.lastSentAt) {
+      response.stages.end_to_end = startedAt - response.lastSentAt;
+      this.observe('end_to_end', response.stages.end_to_end);
+    }
+    return { responseId, itemId: response.itemId, stages: { ...response.stages }, final: true };
+  }
+
+  private record(stage: 'client_to_server' | 'decode', ms: number): void {
+    this.lastTurnStages[stage] = ms;
+    this.observe(stage, ms);
+  }
+}
@@ -0,0 +1,279 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'node:crypto';
+import { Logger } from '@nestjs/common';
+import type { RealtimeSessionConfig, RealtimeSessionOptions, RealtimeSessionUpdate } from './OpenAISocketHandler';
+import {
+  PlaybackFlushPayload,
+  SpeechAudioPayload,
+  SpeechTranslationProvider,
+  TranscriptPayload,
+} from './SpeechTranslationProvider';
+
+/** Settings of the `local` provider, see {@link LocalSpeechProvider}. */
+export interface LocalPipelineOptions {
+  /** Pitch factor of the echoed audio (like a faster tape, so it also shortens it); 1 keeps it unchanged. */
+  pitch?: number;
+  /** Fixture transcripts in place of speech recognition and translation. */
+  inputTranscript?: string;
+  outputTranscript?: string;
+  /** Delay before a response starts, simulates backend latency. */
+  responseDelayMs?: number;
+}
+
+const CHUNK_MS = 100;
+const CHUNK_INTERVAL_MS = 20;
+const DEFAULT_SILENCE_MS = 500;
+
+type LocalItem = { id: string; type: 'message'; role: 'user' | 'assistant' | 'system'; status: string; content: unknown[] };
+
+/**
+ * Translation backend without network access: echoes each user turn back,
+ * optionally pitch-shifted, with scripted transcripts. Used to test clients
+ * and gateways offline and as baseline for A/B comparisons with OpenAI.
+ */
+export class LocalSpeechProvider implements SpeechTranslationProvider {
+  readonly events = new EventEmitter();
+  private readonly logger = new Logger(LocalSpeechProvider.name);
+  private readonly sessionId = this.newId('sess_local');
+  private config: RealtimeSessionConfig;
+  private readonly local: LocalPipelineOptions;
+  private inputBuffer: Buffer[] = [];
+  /** Committed user audio waiting for the next response. */
+  private committedAudio: Buffer[] = [];
+  private items: LocalItem[] = [];
+  private silenceTimer?: NodeJS.Timeout;
+  private streamTimers: NodeJS.Timeout[] = [];
+  private activeResponse: { id: string; itemId: string; audioMs: number } | null = null;
+  private closed = false;
+
+  constructor(options: RealtimeSessionOptions = {}) {
+    this.local = options.local ?? {};
+    this.config = {
+      sessionId: this.sessionId,
+      model: 'local-pipeline',
+      voice: options.voice ?? 'echo',
+      sourceLanguage: options.sourceLanguage ?? 'de',
+      targetLanguage: options.targetLanguage ?? 'en',
+      instructions: options.instructions ?? '',
+      turnDetection: options.turnDetection ?? { type: 'server', silenceDurationMs: DEFAULT_SILENCE_MS },
+      transcriptionModel: options.transcriptionModel ?? '',
+      inputSampleRate: options.inputSampleRate ?? 24_000,
+      outputSampleRate: options.outputSampleRate ?? 24_000,
+    };
+  }
+
+  connect(): Promise<void> {
+    this.logger.log(`Local speech pipeline ${this.sessionId} started (pitch ${this.local.pitch ?? 1})`);
+    queueMicrotask(() => this.events.emit('session.created', this.getSessionConfig()));
+    return Promise.resolve();
+  }
+
+  sendAudio(chunk: Buffer): void {
+    if (this.closed) {
+      return;
+    }
+    if (this.config.turnDetection.type === 'none') {
+      this.inputBuffer.push(chunk);
+      return;
+    }
+
+    // Erster Chunk einer neuen Äußerung unterbricht eine laufende Antwort (Barge-in)
+    if (this.inputBuffer.length === 0) {
+      this.interruptResponse();
+    }
+    this.inputBuffer.push(chunk);
+    if (this.silenceTimer) {
+      clearTimeout(this.silenceTimer);
+    }
+    this.silenceTimer = setTimeout(() => {
+      this.silenceTimer = undefined;
+      this.commit();
+      this.requestResponse();
+    }, this.config.turnDetection.silenceDurationMs ?? DEFAULT_SILENCE_MS);
+  }
+
+  commit(): void {
+    if (this.inputBuffer.length === 0) {
+      this.events.emit('error', { code: 'input_audio_buffer_commit_empty', message: 'Input audio buffer is empty.' });
+      return;
+    }
+    const item = this.addItem('user', [{ type: 'input_audio', transcript: this.local.inputTranscript ?? null }]);
+    this.committedAudio.push(...this.inputBuffer);
+    this.inputBuffer = [];
+    if (this.local.inputTranscript) {
+      this.emitTranscript('input', this.local.inputTranscript, item.id);
+    }
+  }
+
+  requestResponse(): void {
+    if (this.closed) {
+      return;
+    }
+    const audio = this.transform(Buffer.concat(this.committedAudio));
+    this.committedAudio = [];
+    const responseId = this.newId('resp_local');
+    const item = this.addItem('assistant', [], 'in_progress');
+    const response = { id: responseId, itemId: item.id, audioMs: 0 };
+    this.activeResponse = response;
+
+    const chunkBytes = Math.round((this.config.outputSampleRate * 2 * CHUNK_MS) / 1000);
+    const delay = this.local.responseDelayMs ?? 0;
+    let offset = 0;
+    let step = 0;
+    for (; offset < audio.length; offset += chunkBytes, step++) {
+      const chunk = audio.subarray(offset, offset + chunkBytes);
+      this.schedule(delay + step * CHUNK_INTERVAL_MS, () => {
+        response.audioMs += (chunk.length / 2 / this.config.outputSampleRate) * 1000;
+        const payload: SpeechAudioPayload = {
+          base64: chunk.toString('base64'),
+          format: 'pcm16',
+          sampleRate: this.config.outputSampleRate,
+          responseId,
+          itemId: item.id,
+        };
+        this.events.emit('audio.output', payload);
+      });
+    }
+
+    this.schedule(delay + step * CHUNK_INTERVAL_MS, () => {
+      this.activeResponse = null;
+      item.status = 'completed';
+      const transcript = this.local.outputTranscript ?? '';
+      if (transcript) {
+        item.content = [{ type: 'output_audio', transcript }];
+        this.emitTranscript('output', transcript, item.id, responseId);
+      }
+      this.events.emit('conversation.item.done', { item });
+      this.events.emit('response.complete', { response: { id: responseId, status: 'completed' } });
+    });
+  }
+
+  updateSession(update: RealtimeSessionUpdate): Promise<RealtimeSessionConfig> {
+    this.config = {
+      ...this.config,
+      ...Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)),
+    };
+    this.events.emit('session.updated', this.getSessionConfig());
+    return Promise.resolve(this.getSessionConfig());
+  }
+
+  getSessionConfig(): RealtimeSessionConfig {
+    return { ...this.config };
+  }
+
+  truncateOutput(playedMs: number, itemId?: string): void {
+    if (!itemId) {
+      return;
+    }
+    this.events.emit('conversation.item.truncated', { item_id: itemId, content_index: 0, audio_end_ms: Math.round(playedMs) });
+  }
+
+  /** Typed user text is echoed as the "translation". */
+  sendText(text: string, role: 'user' | 'system' = 'user', respond = role === 'user'): void {
+    this.addItem(role, [{ type: 'input_text', text }]);
+    if (!respond) {
+      return;
+    }
+    const responseId = this.newId('resp_local');
+    const item = this.addItem('assistant', [{ type: 'output_text', text }]);
+    this.emitTranscript('output', text, item.id, responseId);
+    this.events.emit('response.complete', { response: { id: responseId, status: 'completed' } });
+  }
+
+  deleteItem(itemId: string): void {
+    const index = this.items.findIndex((item) => item.id === itemId);
+    if (index === -1) {
+      this.events.emit('error', { code: 'item_not_found', message: `Item with item_id '${itemId}' not found.` });
+      return;
+    }
+    this.items.splice(index, 1);
+    this.events.emit('conversation.item.deleted', { item_id: itemId });
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.silenceTimer) {
+      clearTimeout(this.silenceTimer);
+    }
+    this.streamTimers.forEach((timer) => clearTimeout(timer));
+    this.streamTimers = [];
+    this.events.emit('close', { code: 1000, reason: Buffer.from('closed') });
+  }
+
+  private interruptResponse(): void {
+    const response = this.activeResponse;
+    if (!response || response.audioMs === 0) {
+      return;
+    }
+    this.streamTimers.forEach((timer) => clearTimeout(timer));
+    this.streamTimers = [];
+    this.activeResponse = null;
+    const payload: PlaybackFlushPayload = {
+      responseId: response.id,
+      itemId: response.itemId,
+      reason: 'speech_started',
+      audioSentMs: Math.round(response.audioMs),
+    };
+    this.events.emit('playback.flush', payload);
+  }
+
+  /**
+   * Pitch shift and sample rate conversion in one step: the input is read
+   * `pitch * inputRate / outputRate` samples per output sample (linear interpolation).
+   */
+  private transform(input: Buffer): Buffer {
+    const inputSamples = Math.floor(input.length / 2);
+    const step = ((this.local.pitch ?? 1) * this.config.inputSampleRate) / this.config.outputSampleRate;
+    if (inputSamples === 0 || step === 1) {
+      return input.subarray(0, inputSamples * 2);
+    }
+
+    const outputSamples = Math.floor(inputSamples / step);
+    const output = Buffer.alloc(outputSamples * 2);
+    for (let i = 0; i < outputSamples; i++) {
+      const position = i * step;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, inputSamples - 1);
+      const fraction = position - index;
+      const sample = input.readInt16LE(index * 2) * (1 - fraction) + input.readInt16LE(next * 2) * fraction;
+      output.writeInt16LE(Math.round(sample), i * 2);
+    }
+    return output;
+  }
+
+  private addItem(role: LocalItem['role'], content: unknown[], status = 'completed'): LocalItem {
+    const item: LocalItem = { id: this.newId('item_local'), type: 'message', role, status, content };
+    const previousItemId = this.items[this.items.length - 1]?.id ?? null;
+    this.items.push(item);
+    this.events.emit('conversation.item.added', { previous_item_id: previousItemId, item });
+    return item;
+  }
+
+  private emitTranscript(source: TranscriptPayload['source'], text: string, itemId: string, responseId?: string): void {
+    const payload: TranscriptPayload = {
+      source,
+      delta: '',
+      text,
+      final: true,
+      itemId,
+      responseId,
+      timestamp: new Date().toISOString(),
+    };
+    this.events.emit('transcript.done', payload);
+  }
+
+  private schedule(delayMs: number, callback: () => void): void {
+    const timer = setTimeout(() => {
+      this.streamTimers = this.streamTimers.filter((entry) => entry !== timer);
+      callback();
+    }, delayMs);
+    this.streamTimers.push(timer);
+  }
+
+  private newId(prefix: string): string {
+    return `${prefix}_${randomUUID().replace(/-/g, '').substring(0, 20)}`;
+  }
+}
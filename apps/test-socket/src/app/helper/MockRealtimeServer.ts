@@ -0,0 +1,498 @@
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'node:net';
+import { randomUUID } from 'node:crypto';
+import { Logger } from '@nestjs/common';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+
+/** Error the mock answers with when it receives a matching client event. */
+export interface MockScriptedError {
+  on: string;
+  code: string;
+  message: string;
+}
+
+/** Function call the mock makes instead of speaking, once per entry. */
+export interface MockToolCall {
+  name: string;
+  /** JSON encoded arguments. */
+  arguments: string;
+}
+
+/** Describes what the mock "says" for every response it produces. */
+export interface MockResponseScript {
+  /** Transcript streamed as `response.output_audio_transcript.delta` events. */
+  transcript: string;
+  /** Transcript reported for the committed input audio. */
+  inputTranscript?: string;
+  /** Echo committed input audio back instead of generating a tone. */
+  echoInput: boolean;
+  /** Length of the generated tone when there is no input to echo. */
+  toneDurationMs: number;
+  /** Bytes of PCM16 per `response.output_audio.delta`. */
+  chunkBytes: number;
+  /** Delay between two streamed delta events. */
+  chunkIntervalMs: number;
+  /** Silence after the last append before server VAD commits the buffer. */
+  vadSilenceMs: number;
+  errors: MockScriptedError[];
+  /** Function calls answered before the first spoken responses of each connection. */
+  toolCalls: MockToolCall[];
+}
+
+export interface MockRealtimeServerOptions {
+  host?: string;
+  /** Port to listen on, `0` picks a free one. */
+  port?: number;
+  /** When set, connections without `Authorization: Bearer <apiKey>` are rejected. */
+  apiKey?: string;
+  script?: Partial<MockResponseScript>;
+}
+
+type MockSession = {
+  id: string;
+  type: string;
+  model: string;
+  instructions?: string;
+  audio: {
+    input: {
+      format: { type: string; rate: number };
+      turn_detection: { type: string; [key: string]: unknown } | null;
+    };
+    output: {
+      voice: string;
+      format: { type: string; rate: number };
+    };
+  };
+  [key: string]: unknown;
+};
+
+type MockConnection = {
+  socket: WebSocket;
+  session: MockSession;
+  inputBuffer: Buffer[];
+  speaking: boolean;
+  vadTimer?: NodeJS.Timeout;
+  streamTimers: NodeJS.Timeout[];
+  activeResponseId?: string;
+  pendingToolCalls: MockToolCall[];
+  /** Ids of the conversation items, in order. */
+  items: string[];
+};
+
+const DEFAULT_SCRIPT: MockResponseScript = {
+  transcript: 'This is a scripted translation from the mock realtime server.',
+  inputTranscript: 'Dies ist eine Testeingabe.',
+  echoInput: true,
+  toneDurationMs: 500,
+  chunkBytes: 4800,
+  chunkIntervalMs: 20,
+  vadSilenceMs: 300,
+  errors: [],
+  toolCalls: [],
+};
+
+/**
+ * Local stand-in for the OpenAI Realtime WebSocket API.
+ *
+ * Speaks the subset of the protocol used by {@link OpenAIRealtimeSocketHandler}
+ * (`session.update`, `input_audio_buffer.*`, `response.create`, `response.cancel`,
+ * `conversation.item.create`, `conversation.item.delete`, `conversation.item.truncate`) and answers with
+ * scripted audio, transcript, error and session events, so gateways can be
+ * exercised end-to-end without network access or an API key.
+ */
+export class MockRealtimeServer {
+  readonly events = new EventEmitter();
+  /** Every client event received, in order, for assertions in tests. */
+  readonly receivedEvents: Array<{ type: string; [key: string]: unknown }> = [];
+
+  private readonly logger = new Logger(MockRealtimeServer.name);
+  private readonly script: MockResponseScript;
+  private readonly connections = new Set<MockConnection>();
+  private server: WebSocketServer | null = null;
+
+  constructor(private readonly options: MockRealtimeServerOptions = {}) {
+    this.script = { ...DEFAULT_SCRIPT, ...options.script };
+  }
+
+  /** Base URL to hand to the handler, e.g. `ws://127.0.0.1:4010/v1/realtime`. */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('MockRealtimeServer is not running');
+    }
+    return `ws://${this.options.host ?? '127.0.0.1'}:${address.port}/v1/realtime`;
+  }
+
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({
+        host: this.options.host ?? '127.0.0.1',
+        port: this.options.port ?? 0,
+        path: '/v1/realtime',
+        verifyClient: (info, done) => {
+          if (!this.options.apiKey || info.req.headers.authorization === `Bearer ${this.options.apiKey}`) {
+            done(true);
+            return;
+          }
+          done(false, 401, 'Unauthorized');
+        },
+      });
+      server.once('error', reject);
+      server.once('listening', () => {
+        server.off('error', reject);
+        this.server = server;
+        this.logger.log(`Mock realtime server listening on ${this.url}`);
+        resolve(this.url);
+      });
+      server.on('connection', (socket, request) => this.handleConnection(socket, request.url));
+    });
+  }
+
+  async stop(): Promise<void> {
+    for (const connection of this.connections) {
+      this.clearTimers(connection);
+      connection.socket.terminate();
+    }
+    this.connections.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return;
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private handleConnection(socket: WebSocket, requestUrl?: string) {
+    const model = new URL(requestUrl ?? '/', 'ws://localhost').searchParams.get('model') ?? 'gpt-realtime';
+    const connection: MockConnection = {
+      socket,
+      session: {
+        id: `sess_${randomUUID()}`,
+        type: 'realtime',
+        model,
+        audio: {
+          input: {
+            format: { type: 'audio/pcm', rate: 24000 },
+            turn_detection: { type: 'server_vad' },
+          },
+          output: {
+            voice: 'alloy',
+            format: { type: 'audio/pcm', rate: 24000 },
+          },
+        },
+      },
+      inputBuffer: [],
+      speaking: false,
+      streamTimers: [],
+      pendingToolCalls: [...this.script.toolCalls],
+      items: [],
+    };
+    this.connections.add(connection);
+    this.events.emit('connection', connection.session.id);
+
+    socket.on('message', (data) => this.handleClientEvent(connection, data));
+    socket.on('close', () => {
+      this.clearTimers(connection);
+      this.connections.delete(connection);
+      this.events.emit('disconnect', connection.session.id);
+    });
+
+    this.send(connection, { type: 'session.created', session: connection.session });
+  }
+
+  private handleClientEvent(connection: MockConnection, data: RawData) {
+    let event: { type?: unknown; [key: string]: unknown };
+    try {
+      event = JSON.parse(data.toString());
+    } catch {
+      this.sendError(connection, 'invalid_json', 'The client event could not be parsed as JSON.');
+      return;
+    }
+
+    if (!event || typeof event.type !== 'string') {
+      this.sendError(connection, 'missing_type', 'The client event is missing a type.');
+      return;
+    }
+
+    const typed = event as { type: string; [key: string]: unknown };
+    this.receivedEvents.push(typed);
+    this.events.emit('client.event', typed);
+
+    const scripted = this.script.errors.find((entry) => entry.on === typed.type);
+    if (scripted) {
+      this.sendError(connection, scripted.code, scripted.message, event.event_id as string | undefined);
+      return;
+    }
+
+    switch (typed.type) {
+      case 'session.update':
+        this.updateSession(connection, typed.session as Partial<MockSession> | undefined);
+        break;
+      case 'input_audio_buffer.append':
+        this.appendAudio(connection, typed.audio);
+        break;
+      case 'input_audio_buffer.commit':
+        this.commitAudio(connection, false);
+        break;
+      case 'input_audio_buffer.clear':
+        connection.inputBuffer = [];
+        this.send(connection, { type: 'input_audio_buffer.cleared' });
+        break;
+      case 'response.create':
+        this.streamResponse(connection);
+        break;
+      case 'response.cancel':
+        this.cancelResponse(connection, event.event_id as string | undefined);
+        break;
+      case 'conversation.item.create':
+        this.addItem(connection, { id: this.newId('item'), status: 'completed', ...(typed.item as object) });
+        break;
+      case 'conversation.item.delete':
+        this.deleteItem(connection, typed.item_id, event.event_id as string | undefined);
+        break;
+      case 'conversation.item.truncate':
+        this.send(connection, {
+          type: 'conversation.item.truncated',
+          item_id: typed.item_id,
+          content_index: typed.content_index ?? 0,
+          audio_end_ms: typed.audio_end_ms,
+        });
+        break;
+      default:
+        this.sendError(connection, 'unknown_event', `Unsupported client event '${typed.type}'.`, event.event_id as string | undefined);
+    }
+  }
+
+  private updateSession(connection: MockConnection, update?: Partial<MockSession>) {
+    if (!update || typeof update !== 'object') {
+      this.sendError(connection, 'missing_session', 'session.update requires a session object.');
+      return;
+    }
+
+    const current = connection.session;
+    connection.session = {
+      ...current,
+      ...update,
+      id: current.id,
+      audio: {
+        input: { ...current.audio.input, ...update.audio?.input },
+        output: { ...current.audio.output, ...update.audio?.output },
+      },
+    };
+    this.send(connection, { type: 'session.updated', session: connection.session });
+  }
+
+  private appendAudio(connection: MockConnection, audio: unknown) {
+    if (typeof audio !== 'string') {
+      this.sendError(connection, 'missing_audio', 'input_audio_buffer.append requires base64 audio.');
+      return;
+    }
+
+    connection.inputBuffer.push(Buffer.from(audio, 'base64'));
+    if (!connection.session.audio.input.turn_detection) {
+      return;
+    }
+
+    // Server VAD: treat every append as speech and commit after a quiet period.
+    if (!connection.speaking) {
+      connection.speaking = true;
+      this.send(connection, { type: 'input_audio_buffer.speech_started', audio_start_ms: 0, item_id: this.newId('item') });
+    }
+    if (connection.vadTimer) {
+      clearTimeout(connection.vadTimer);
+    }
+    connection.vadTimer = setTimeout(() => {
+      connection.vadTimer = undefined;
+      connection.speaking = false;
+      this.send(connection, { type: 'input_audio_buffer.speech_stopped', item_id: this.newId('item') });
+      this.commitAudio(connection, true);
+    }, this.script.vadSilenceMs);
+  }
+
+  private commitAudio(connection: MockConnection, respond: boolean) {
+    if (connection.inputBuffer.length === 0) {
+      this.sendError(connection, 'input_audio_buffer_commit_empty', 'Error committing input audio buffer: buffer is empty.');
+      return;
+    }
+
+    const itemId = this.newId('item');
+    this.send(connection, { type: 'input_audio_buffer.committed', item_id: itemId, previous_item_id: null });
+    this.addItem(connection, {
+      id: itemId,
+      type: 'message',
+      role: 'user',
+      status: 'completed',
+      content: [{ type: 'input_audio', transcript: null }],
+    });
+    if (this.script.inputTranscript) {
+      this.send(connection, {
+        type: 'conversation.item.input_audio_transcription.completed',
+        item_id: itemId,
+        content_index: 0,
+        transcript: this.script.inputTranscript,
+      });
+    }
+
+    if (respond) {
+      this.streamResponse(connection);
+    }
+  }
+
+  private streamResponse(connection: MockConnection) {
+    const responseId = this.newId('resp');
+    const itemId = this.newId('item');
+    const toolCall = connection.pendingToolCalls.shift();
+    if (toolCall) {
+      this.callTool(connection, responseId, itemId, toolCall);
+      return;
+    }
+
+    const audio = this.script.echoInput && connection.inputBuffer.length > 0
+      ? Buffer.concat(connection.inputBuffer)
+      : this.createTone(connection.session.audio.output.format.rate);
+    connection.inputBuffer = [];
+    connection.activeResponseId = responseId;
+
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < audio.length; offset += this.script.chunkBytes) {
+      chunks.push(audio.subarray(offset, offset + this.script.chunkBytes));
+    }
+    const words = this.script.transcript.split(/(?<=\s)/);
+    const steps = Math.max(chunks.length, words.length);
+
+    this.send(connection, { type: 'response.created', response: { id: responseId, status: 'in_progress' } });
+    this.send(connection, {
+      type: 'response.output_item.added',
+      response_id: responseId,
+      output_index: 0,
+      item: { id: itemId, type: 'message', role: 'assistant', status: 'in_progress' },
+    });
+    this.addItem(connection, { id: itemId, type: 'message', role: 'assistant', status: 'in_progress', content: [] });
+
+    for (let step = 0; step < steps; step++) {
+      const timer = setTimeout(() => {
+        const base = { response_id: responseId, item_id: itemId, output_index: 0, content_index: 0 };
+        if (chunks[step]) {
+          this.send(connection, { type: 'response.output_audio.delta', ...base, delta: chunks[step].toString('base64') });
+        }
+        if (words[step]) {
+          this.send(connection, { type: 'response.output_audio_transcript.delta', ...base, delta: words[step] });
+        }
+      }, step * this.script.chunkIntervalMs);
+      connection.streamTimers.push(timer);
+    }
+
+    const done = setTimeout(() => {
+      const base = { response_id: responseId, item_id: itemId, output_index: 0, content_index: 0 };
+      this.send(connection, { type: 'response.output_audio.done', ...base });
+      this.send(connection, { type: 'response.output_audio_transcript.done', ...base, transcript: this.script.transcript });
+      this.send(connection, {
+        type: 'conversation.item.done',
+        item: {
+          id: itemId,
+          type: 'message',
+          role: 'assistant',
+          status: 'completed',
+          content: [{ type: 'output_audio', transcript: this.script.transcript }],
+        },
+      });
+      this.send(connection, { type: 'response.done', response: { id: responseId, status: 'completed' } });
+      connection.streamTimers = [];
+      connection.activeResponseId = undefined;
+    }, steps * this.script.chunkIntervalMs);
+    connection.streamTimers.push(done);
+  }
+
+  /** Answers a response with a function call, the client posts the output and asks for a new response. */
+  private callTool(connection: MockConnection, responseId: string, itemId: string, toolCall: MockToolCall) {
+    const callId = this.newId('call');
+    const base = { response_id: responseId, item_id: itemId, output_index: 0, call_id: callId };
+    this.send(connection, { type: 'response.created', response: { id: responseId, status: 'in_progress' } });
+    this.send(connection, {
+      type: 'response.output_item.added',
+      response_id: responseId,
+      output_index: 0,
+      item: { id: itemId, type: 'function_call', call_id: callId, name: toolCall.name, arguments: '' },
+    });
+    this.addItem(connection, { id: itemId, type: 'function_call', call_id: callId, name: toolCall.name, arguments: toolCall.arguments });
+    this.send(connection, { type: 'response.function_call_arguments.delta', ...base, delta: toolCall.arguments });
+    this.send(connection, {
+      type: 'response.function_call_arguments.done',
+      ...base,
+      name: toolCall.name,
+      arguments: toolCall.arguments,
+    });
+    this.send(connection, { type: 'response.done', response: { id: responseId, status: 'completed' } });
+  }
+
+  private addItem(connection: MockConnection, item: { id: string; [key: string]: unknown }) {
+    const previousItemId = connection.items[connection.items.length - 1] ?? null;
+    connection.items.push(item.id);
+    this.send(connection, { type: 'conversation.item.added', previous_item_id: previousItemId, item });
+  }
+
+  private deleteItem(connection: MockConnection, itemId: unknown, eventId?: string) {
+    const index = connection.items.indexOf(itemId as string);
+    if (index === -1) {
+      this.sendError(connection, 'item_not_found', `Item with item_id '${itemId}' not found.`, eventId);
+      return;
+    }
+    connection.items.splice(index, 1);
+    this.send(connection, { type: 'conversation.item.deleted', item_id: itemId });
+  }
+
+  /** Stops the streaming response like `response.cancel` on the real endpoint. */
+  private cancelResponse(connection: MockConnection, eventId?: string) {
+    const responseId = connection.activeResponseId;
+    if (!responseId) {
+      this.sendError(connection, 'response_cancel_not_active', 'Cancellation failed: no active response found.', eventId);
+      return;
+    }
+    connection.streamTimers.forEach((timer) => clearTimeout(timer));
+    connection.streamTimers = [];
+    connection.activeResponseId = undefined;
+    this.send(connection, { type: 'response.done', response: { id: responseId, status: 'cancelled' } });
+  }
+
+  /** 440 Hz PCM16 mono tone so responses without input still carry audio. */
+  private createTone(sampleRate: number): Buffer {
+    const samples = Math.round((sampleRate * this.script.toneDurationMs) / 1000);
+    const buffer = Buffer.alloc(samples * 2);
+    for (let i = 0; i < samples; i++) {
+      buffer.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 0.2 * 0x7fff), i * 2);
+    }
+    return buffer;
+  }
+
+  private sendError(connection: MockConnection, code: string, message: string, eventId?: string) {
+    this.send(connection, {
+      type: 'error',
+      error: { type: 'invalid_request_error', code, message, event_id: eventId ?? null },
+    });
+  }
+
+  private send(connection: MockConnection, event: { type: string; [key: string]: unknown }) {
+    if (connection.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    connection.socket.send(JSON.stringify({ event_id: this.newId('event'), ...event }));
+  }
+
+  private clearTimers(connection: MockConnection) {
+    if (connection.vadTimer) {
+      clearTimeout(connection.vadTimer);
+      connection.vadTimer = undefined;
+    }
+    connection.streamTimers.forEach((timer) => clearTimeout(timer));
+    connection.streamTimers = [];
+  }
+
+  private newId(prefix: string): string {
+    return `${prefix}_${randomUUID().replace(/-/g, '').substring(0, 20)}`;
+  }
+}
@@ -0,0 +1,116 @@
+import { randomInt } from 'node:crypto';
+
+/**
+ * Minimal Ogg muxer for a single Opus stream (RFC 7845), used to stream
+ * natively encoded Opus packets to clients that negotiated `opus` output.
+ *
+ * Page layout (little endian): `OggS`, version, header type, granule position (64 bit),
+ * serial number, page sequence, CRC32, segment count, segment table, packet data.
+ */
+const OGG_CAPTURE_PATTERN = Buffer.from('OggS');
+const HEADER_TYPE_BEGIN_OF_STREAM = 0x02;
+const MAX_SEGMENTS_PER_PAGE = 255;
+/** Granule positions of Opus streams are always counted at 48 kHz. */
+export const OPUS_GRANULE_RATE = 48_000;
+/** Encoder lookahead of libopus at 48 kHz, announced as pre-skip in the header. */
+const OPUS_PRE_SKIP = 312;
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, index) => {
+  let crc = index << 24;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  }
+  return crc >>> 0;
+});
+
+function oggCrc(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+export class OggOpusMuxer {
+  private readonly serial = randomInt(0, 0xffffffff);
+  private pageSequence = 0;
+  private granulePosition = 0;
+
+  constructor(
+    private readonly channels = 1,
+    private readonly inputSampleRate = OPUS_GRANULE_RATE,
+  ) {}
+
+  /** `OpusHead` and `OpusTags` pages, must precede the first audio page. */
+  header(): Buffer {
+    const head = Buffer.alloc(19);
+    head.write('OpusHead', 0);
+    head.writeUInt8(1, 8);
+    head.writeUInt8(this.channels, 9);
+    head.writeUInt16LE(OPUS_PRE_SKIP, 10);
+    head.writeUInt32LE(this.inputSampleRate, 12);
+    head.writeInt16LE(0, 16);
+    head.writeUInt8(0, 18);
+
+    const vendor = Buffer.from('test-socket');
+    const tags = Buffer.alloc(8 + 4 + vendor.length + 4);
+    tags.write('OpusTags', 0);
+    tags.writeUInt32LE(vendor.length, 8);
+    vendor.copy(tags, 12);
+    tags.writeUInt32LE(0, 12 + vendor.length);
+
+    return Buffer.concat([this.page([head], HEADER_TYPE_BEGIN_OF_STREAM), this.page([tags])]);
+  }
+
+  /**
+   * Wraps encoded packets into as many pages as needed.
+   * @param samplesPerPacket duration of each packet in 48 kHz samples
+   */
+  packets(packets: Buffer[], samplesPerPacket: number): Buffer {
+    const pages: Buffer[] = [];
+    let batch: Buffer[] = [];
+    let segments = 0;
+    for (const packet of packets) {
+      const packetSegments = Math.floor(packet.length / 255) + 1;
+      if (segments + packetSegments > MAX_SEGMENTS_PER_PAGE && batch.length > 0) {
+        pages.push(this.page(batch));
+        batch = [];
+        segments = 0;
+      }
+      this.granulePosition += samplesPerPacket;
+      batch.push(packet);
+      segments += packetSegments;
+    }
+    if (batch.length > 0) {
+      pages.push(this.page(batch));
+    }
+    return Buffer.concat(pages);
+  }
+
+  private page(packets: Buffer[], headerType = 0): Buffer {
+    const table: number[] = [];
+    for (const packet of packets) {
+      // Lacing: 255er-Segmente, ein Segment < 255 beendet das Paket (ggf. 0)
+      for (let remaining = packet.length; remaining >= 0; remaining -= 255) {
+        table.push(Math.min(remaining, 255));
+        if (remaining < 255) {
+          break;
+        }
+      }
+    }
+
+    const header = Buffer.alloc(27 + table.length);
+    OGG_CAPTURE_PATTERN.copy(header, 0);
+    header.writeUInt8(0, 4);
+    header.writeUInt8(headerType, 5);
+    header.writeBigUInt64LE(BigInt(this.granulePosition), 6);
+    header.writeUInt32LE(this.serial, 14);
+    header.writeUInt32LE(this.pageSequence++, 18);
+    header.writeUInt8(table.length, 26);
+    Buffer.from(table).copy(header, 27);
+
+    const page = Buffer.concat([header, ...packets]);
+    page.writeUInt32LE(oggCrc(page), 22);
+    return page;
+  }
+}
@@ -1,6 +1,14 @@
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
 import { Logger } from '@nestjs/common';
+import {
+  PlaybackFlushPayload,
+  SpeechAudioPayload,
+  SpeechProviderName,
+  SpeechTranslationProvider,
+  TranscriptPayload,
+} from './SpeechTranslationProvider';
+import type { LocalPipelineOptions } from './LocalSpeechProvider';
 
 // Lightweight interface describing the subset of the WS API this class uses.
 export interface IWebSocket {
@@ -10,63 +18,180 @@ export interface IWebSocket {
   removeAllListeners?: () => void;
 }
 
-export interface RealtimeSessionOptions {
+/** Where and how to reach the upstream Realtime endpoint. */
+export interface RealtimeConnectionOptions {
+  /** Realtime endpoint, e.g. `wss://api.openai.com/v1/realtime` or an Azure deployment URL. */
+  baseUrl?: string;
+  apiKey?: string;
+  /** `bearer` sends `Authorization: Bearer <key>`, `api-key` sends the Azure-style `api-key` header. */
+  authStyle?: 'bearer' | 'api-key';
+  organization?: string;
+  project?: string;
+  /** Query parameter carrying the model, Azure deployments use `deployment`. */
+  modelParam?: string;
+  queryParams?: Record<string, string>;
+  headers?: Record<string, string>;
+}
+
+/** Turn detection of the upstream session, `none` means the client commits turns itself. */
+export interface TurnDetectionOptions {
+  type: 'server' | 'semantic' | 'none';
+  /** Server VAD only: activation threshold between 0 and 1. */
+  threshold?: number;
+  prefixPaddingMs?: number;
+  silenceDurationMs?: number;
+  /** Semantic VAD only: how quickly the model ends a turn. */
+  eagerness?: 'low' | 'medium' | 'high' | 'auto';
+}
+
+export interface RealtimeSessionOptions extends RealtimeConnectionOptions {
+  /** Backend translating the session, defaults to `openai`. */
+  provider?: SpeechProviderName;
+  /** Settings of the `local` provider. */
+  local?: LocalPipelineOptions;
   model?: string;
   voice?: string;
+  /** Overrides the translation prompt built from the language pair. */
   instructions?: string;
+  /** BCP 47 language codes of the translation direction, e.g. `de` → `en`. */
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  turnDetection?: TurnDetectionOptions;
+  /** Model transcribing the speaker's input, an empty string disables input transcripts. */
+  transcriptionModel?: string;
   inputSampleRate?: number;
   outputSampleRate?: number;
 }
 
-export type AudioDeltaPayload = {
-  base64: string;
-  format: string;
-  sampleRate: number;
+/** Settings a connected client may change with `session.configure`. */
+export type RealtimeSessionUpdate = Pick<
+  RealtimeSessionOptions,
+  'voice' | 'instructions' | 'sourceLanguage' | 'targetLanguage' | 'turnDetection'
+>;
+
+type ResolvedSessionOptions = Required<
+  Omit<RealtimeSessionOptions, keyof RealtimeConnectionOptions | 'provider' | 'local'>
+>;
+
+/** Effective session settings as confirmed to clients. */
+export type RealtimeSessionConfig = ResolvedSessionOptions & { sessionId?: string };
+type ResolvedConnectionOptions = RealtimeConnectionOptions &
+  Required<Pick<RealtimeConnectionOptions, 'baseUrl' | 'authStyle' | 'modelParam' | 'queryParams' | 'headers'>>;
+
+/** Function tool as advertised to OpenAI in `session.update`. */
+export type RealtimeToolDefinition = {
+  type: 'function';
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+/** Source of tools for a session, implemented by `ToolRegistryService`. */
+export interface RealtimeToolProvider {
+  getDefinitions(): RealtimeToolDefinition[];
+  /** Runs a tool with the raw JSON arguments from the model and returns the output string. */
+  execute(name: string, rawArguments: string): Promise<string>;
+}
+
+/** Emitted as `tool.call` before and `tool.result` after a function call is executed. */
+export type ToolCallPayload = {
+  callId: string;
+  name: string;
+  arguments: string;
   responseId?: string;
+  output?: string;
 };
 
-const DEFAULT_OPTIONS: Required<Omit<RealtimeSessionOptions, 'instructions'>> & Pick<RealtimeSessionOptions, 'instructions'> = {
-  model: 'gpt-4o-realtime-preview',
+export const DEFAULT_BASE_URL = 'wss://api.openai.com/v1/realtime';
+
+const SESSION_UPDATE_TIMEOUT_MS = 5_000;
+
+const DEFAULT_TURN_DETECTION: TurnDetectionOptions = {
+  type: 'server',
+  threshold: 0.5,
+  prefixPaddingMs: 200,
+  silenceDurationMs: 250,
+};
+
+const DEFAULT_OPTIONS: Omit<ResolvedSessionOptions, 'instructions'> & Pick<RealtimeSessionOptions, 'instructions'> = {
+  model: 'gpt-realtime',
   voice: 'alloy',
+  sourceLanguage: 'de',
+  targetLanguage: 'en',
+  turnDetection: DEFAULT_TURN_DETECTION,
+  transcriptionModel: 'gpt-4o-mini-transcribe',
   inputSampleRate: 24000,
   outputSampleRate: 24000,
   instructions: undefined,
 };
 
+export const DEFAULT_TARGET_LANGUAGE = DEFAULT_OPTIONS.targetLanguage;
+
+const languageNames = new Intl.DisplayNames(['de'], { type: 'language' });
+
+/** German display name of a language code, falls back to the code itself. */
+function languageName(code: string): string {
+  try {
+    return languageNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
 /**
  * Helper class that encapsulates WebSocket interaction with OpenAI Realtime API.
  */
-export class OpenAIRealtimeSocketHandler {
+export class OpenAIRealtimeSocketHandler implements SpeechTranslationProvider {
   ws!: IWebSocket;
   events: EventEmitter;
-  private options: Required<RealtimeSessionOptions>;
+  private options: ResolvedSessionOptions;
+  private readonly connection: ResolvedConnectionOptions;
   private awaitingResponse = false;
   private readyPromise: Promise<void> | null = null;
   private readonly logger = new Logger(OpenAIRealtimeSocketHandler.name);
   private connectStartedAt = 0;
-  private pendingInputChunks: Array<{ sentAt: number; size: number }> = [];
-  private lastAudioDeltaAt = 0;
+  private sessionId?: string;
+  private eventCounter = 0;
+  /** Response currently streaming audio and how much of it was sent, for barge-in. */
+  private activeResponse: { id: string; itemId?: string; audioMs: number; done: boolean } | null = null;
+  private interruptedItem: { id: string; audioMs: number } | null = null;
+  private readonly cancelledResponses = new Set<string>();
+  /** Outputs of function calls per response, the follow-up response starts once that response is done. */
+  private readonly pendingToolCalls = new Map<string, Promise<void>[]>();
+  /** Partial transcripts keyed by source and item/response id. */
+  private readonly transcripts = new Map<string, string>();
 
-  constructor(opts?: RealtimeSessionOptions) {
+  constructor(
+    opts?: RealtimeSessionOptions,
+    private readonly toolProvider?: RealtimeToolProvider,
+  ) {
     this.options = {
-      ...DEFAULT_OPTIONS,
-      ...opts,
       inputSampleRate: opts?.inputSampleRate ?? DEFAULT_OPTIONS.inputSampleRate,
       outputSampleRate: opts?.outputSampleRate ?? DEFAULT_OPTIONS.outputSampleRate,
       voice: opts?.voice ?? DEFAULT_OPTIONS.voice,
       model: opts?.model ?? DEFAULT_OPTIONS.model,
       instructions: opts?.instructions ?? DEFAULT_OPTIONS.instructions,
-    } as Required<RealtimeSessionOptions>;
+      sourceLanguage: opts?.sourceLanguage ?? DEFAULT_OPTIONS.sourceLanguage,
+      targetLanguage: opts?.targetLanguage ?? DEFAULT_OPTIONS.targetLanguage,
+      turnDetection: opts?.turnDetection ?? DEFAULT_OPTIONS.turnDetection,
+      transcriptionModel: opts?.transcriptionModel ?? DEFAULT_OPTIONS.transcriptionModel,
+    } as ResolvedSessionOptions;
+    this.connection = {
+      baseUrl: opts?.baseUrl ?? DEFAULT_BASE_URL,
+      apiKey: opts?.apiKey,
+      authStyle: opts?.authStyle ?? 'bearer',
+      organization: opts?.organization,
+      project: opts?.project,
+      modelParam: opts?.modelParam ?? 'model',
+      queryParams: opts?.queryParams ?? {},
+      headers: opts?.headers ?? {},
+    };
     this.events = new EventEmitter();
   }
 
-  connectToAudioStream(): Promise<void> {
+  connect(): Promise<void> {
     this.connectStartedAt = Date.now();
-    const rawWs = new WebSocket(`wss://api.openai.com/v1/realtime?model=gpt-realtime`, {
-      headers: {
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-    });
+    const rawWs = new WebSocket(this.buildUrl(), { headers: this.buildHeaders() });
 
     // Cast the raw WebSocket to our lightweight IWebSocket so we can call .on(...)
     this.ws = rawWs as unknown as IWebSocket;
@@ -93,9 +218,39 @@ export class OpenAIRealtimeSocketHandler {
     return this.readyPromise;
   }
 
+  /** Realtime URL including the model and any configured extra query parameters. */
+  private buildUrl(): string {
+    const url = new URL(this.connection.baseUrl);
+    for (const [key, value] of Object.entries(this.connection.queryParams)) {
+      url.searchParams.set(key, value);
+    }
+    if (!url.searchParams.has(this.connection.modelParam)) {
+      url.searchParams.set(this.connection.modelParam, this.options.model);
+    }
+    return url.toString();
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.connection.headers };
+    if (this.connection.apiKey) {
+      if (this.connection.authStyle === 'api-key') {
+        headers['api-key'] = this.connection.apiKey;
+      } else {
+        headers.Authorization = `Bearer ${this.connection.apiKey}`;
+      }
+    }
+    if (this.connection.organization) {
+      headers['OpenAI-Organization'] = this.connection.organization;
+    }
+    if (this.connection.project) {
+      headers['OpenAI-Project'] = this.connection.project;
+    }
+    return headers;
+  }
+
   async waitUntilReady() {
     if (!this.readyPromise) {
-      await this.connectToAudioStream();
+      await this.connect();
       return;
     }
     await this.readyPromise;
@@ -125,62 +280,112 @@ export class OpenAIRealtimeSocketHandler {
   /** Send the session.create message required by the OpenAI realtime endpoint. */
   private sendSessionCreate() {
     this.logger.debug('Sending session.update to OpenAI Realtime');
-    const event = {
-      type: 'session.update',
-      session: {
-        type: 'realtime',
-        model: this.options.model,
-        instructions:
-          this.options.instructions ??
-          'Du bist ein Simultanübersetzer. Übersetze fortlaufend von Deutsch nach Englisch. Antworte ausschließlich mit der Übersetzung, keine Kommentare.',
-        audio: {
-          input: {
-            format: { type: 'audio/pcm', rate: this.options.inputSampleRate },
-            turn_detection: { type: 'server_vad', threshold: 0.5, prefix_padding_ms: 200, silence_duration_ms: 250 },
-          },
-          output: {
-            voice: this.options.voice,
-            format: { type: 'audio/pcm', rate: this.options.outputSampleRate },
-          },
-        },
-      },
+    this.ws.send(JSON.stringify({ type: 'session.update', session: this.buildSession() }));
+  }
+
+  /**
+   * Applies new settings to the running session and resolves once OpenAI
+   * confirms them with `session.updated`. Changing the language pair without
+   * new instructions replaces earlier instructions with the generated prompt.
+   */
+  public updateSession(update: RealtimeSessionUpdate): Promise<RealtimeSessionConfig> {
+    const languagesChanged = update.sourceLanguage !== undefined || update.targetLanguage !== undefined;
+    this.options = {
+      ...this.options,
+      voice: update.voice ?? this.options.voice,
+      sourceLanguage: update.sourceLanguage ?? this.options.sourceLanguage,
+      targetLanguage: update.targetLanguage ?? this.options.targetLanguage,
+      turnDetection: update.turnDetection ?? this.options.turnDetection,
+      instructions: update.instructions ?? (languagesChanged ? undefined : this.options.instructions),
     };
-    /*
-    const event = {
-      type: "session.update",
-      session: {
-        type: "realtime",
-        model: "gpt-realtime",
-        // Lock the output to audio (set to ["text"] if you want text without audio)
-        output_modalities: ["audio"],
-        audio: {
-          input: {
-            format: {
-              type: "audio/pcm",
-              rate: 24000,
-            },
-            turn_detection: {
-              type: "semantic_vad"
-            }
-          },
-          output: {
-            format: {
-              type: "audio/pcm",
-              rate: 24000,
-            },
-            voice: "marin",
-          },
-          instructions: 'Translate the incoming speech to fluent English and keep the same tone.',
+
+    const eventId = `evt_session_${++this.eventCounter}`;
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.events.off('session.updated', handleUpdated);
+        this.events.off('error', handleError);
+      };
+      const handleUpdated = () => {
+        cleanup();
+        resolve(this.getSessionConfig());
+      };
+      const handleError = (err: { event_id?: string; message?: string }) => {
+        if (err?.event_id !== eventId) {
+          return;
+        }
+        cleanup();
+        reject(new Error(err.message ?? 'session.update rejected'));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error('Timed out waiting for session.updated'));
+      }, SESSION_UPDATE_TIMEOUT_MS);
+
+      this.events.on('session.updated', handleUpdated);
+      this.events.on('error', handleError);
+      this.logger.debug(`Sending session.update (${eventId}) to OpenAI Realtime`);
+      this.ws.send(JSON.stringify({ type: 'session.update', event_id: eventId, session: this.buildSession() }));
+    });
+  }
+
+  public getSessionConfig(): RealtimeSessionConfig {
+    return { ...this.options, instructions: this.buildInstructions(), sessionId: this.sessionId };
+  }
+
+  private buildSession() {
+    const tools = this.toolProvider?.getDefinitions() ?? [];
+    return {
+      type: 'realtime',
+      ...(tools.length > 0 ? { tools, tool_choice: 'auto' } : {}),
+      model: this.options.model,
+      instructions: this.buildInstructions(),
+      audio: {
+        input: {
+          format: { type: 'audio/pcm', rate: this.options.inputSampleRate },
+          turn_detection: this.buildTurnDetection(),
+          transcription: this.options.transcriptionModel
+            ? { model: this.options.transcriptionModel, language: this.options.sourceLanguage.split('-')[0] }
+            : null,
+        },
+        output: {
+          voice: this.options.voice,
+          format: { type: 'audio/pcm', rate: this.options.outputSampleRate },
         },
-        instructions: "Speak clearly and briefly. Confirm understanding before taking actions."
       },
-    };*/
-    this.ws.send(JSON.stringify(event));
+    };
+  }
+
+  private buildInstructions(): string {
+    if (this.options.instructions) {
+      return this.options.instructions;
+    }
+    const source = languageName(this.options.sourceLanguage);
+    const target = languageName(this.options.targetLanguage);
+    return `Du bist ein Simultanübersetzer. Übersetze fortlaufend von ${source} nach ${target}. Antworte ausschließlich mit der Übersetzung, keine Kommentare.`;
+  }
+
+  /** Maps the turn detection options onto the Realtime API shape (`null` disables it). */
+  private buildTurnDetection() {
+    const turnDetection = this.options.turnDetection;
+    switch (turnDetection.type) {
+      case 'none':
+        return null;
+      case 'semantic':
+        return { type: 'semantic_vad', eagerness: turnDetection.eagerness ?? 'auto' };
+      default:
+        return {
+          type: 'server_vad',
+          threshold: turnDetection.threshold ?? DEFAULT_TURN_DETECTION.threshold,
+          prefix_padding_ms: turnDetection.prefixPaddingMs ?? DEFAULT_TURN_DETECTION.prefixPaddingMs,
+          silence_duration_ms: turnDetection.silenceDurationMs ?? DEFAULT_TURN_DETECTION.silenceDurationMs,
+        };
+    }
   }
 
   /** Create a response request so OpenAI starts streaming translation output */
   public requestResponse(extraInstructions?: string) {
-    const instructions = extraInstructions ?? this.options.instructions ?? 'Translate the incoming speech to fluent English and keep the same tone.';
+    const instructions = extraInstructions ?? this.buildInstructions();
     this.awaitingResponse = true;
     this.logger.debug('response.create requested from OpenAI');
     this.ws.send(JSON.stringify({
@@ -248,22 +453,30 @@ export class OpenAIRealtimeSocketHandler {
         console.log('OpenAI Realtime Response Complete!', msg);
         this.events.emit('response.output_audio.done', msg);
         break;
+      case 'response.created':
+        this.activeResponse = { id: msg.response?.id, audioMs: 0, done: false };
+        this.events.emit('raw', msg);
+        break;
+
+      case 'input_audio_buffer.speech_started':
+        this.handleSpeechStarted();
+        this.events.emit('raw', msg);
+        break;
+
       case 'response.output_audio.delta':
+        // Nach einem Barge-in noch eintreffende Deltas der alten Antwort verwerfen
+        if (this.cancelledResponses.has(msg.response_id)) {
+          break;
+        }
         if (msg.delta) {
-          const payload: AudioDeltaPayload = {
+          const payload: SpeechAudioPayload = {
             base64: msg.delta,
             format: 'pcm16',
             sampleRate: this.options.outputSampleRate,
             responseId: msg.response_id,
+            itemId: msg.item_id,
           };
-          const pending = this.pendingInputChunks.shift();
-          if (pending) {
-            const latency = Date.now() - pending.sentAt;
-            this.logger.debug(`[latency] OpenAI process ${latency} ms for ${pending.size} bytes -> audio delta (${payload.base64.length} b64 chars)`);
-          } else {
-            this.logger.debug('[latency] Audio delta without pending input telemetry');
-          }
-          this.lastAudioDeltaAt = Date.now();
+          this.trackOutputAudio(msg.response_id, msg.item_id, payload.base64);
           this.events.emit('audio.output', payload);
         }
         break;
@@ -271,29 +484,74 @@ export class OpenAIRealtimeSocketHandler {
       case 'response.output_text.delta':
         if (msg.delta) {
           this.events.emit('transcript', msg.delta);
+          this.emitTranscript('output', msg.delta, false, msg.item_id, msg.response_id);
         }
         break;
 
+      // GA-Namen (output_audio_transcript) und Beta-Namen (audio_transcript)
+      case 'response.output_audio_transcript.delta':
       case 'response.audio_transcript.delta':
         // Dies ist das Transkript der KI-Stimme (Text der gesprochen wird)
         if (msg.delta) {
-          console.log('AI-Transkript:', msg.delta);
           this.events.emit('audio_transcript', msg.delta);
+          this.emitTranscript('output', msg.delta, false, msg.item_id, msg.response_id);
+        }
+        break;
+
+      case 'response.output_text.done':
+      case 'response.output_audio_transcript.done':
+      case 'response.audio_transcript.done':
+        this.emitTranscript('output', msg.transcript ?? msg.text, true, msg.item_id, msg.response_id);
+        break;
+
+      case 'conversation.item.input_audio_transcription.delta':
+        if (msg.delta) {
+          this.emitTranscript('input', msg.delta, false, msg.item_id);
         }
         break;
 
+      case 'conversation.item.input_audio_transcription.completed':
+        this.emitTranscript('input', msg.transcript, true, msg.item_id);
+        break;
+
+      case 'response.function_call_arguments.done':
+        this.handleFunctionCall(msg);
+        break;
+
+      case 'response.done':
       case 'response.completed':
+        if (this.activeResponse?.id === msg.response?.id) {
+          this.activeResponse.done = true;
+        }
+        void this.continueAfterToolCalls(msg.response?.id, msg.response?.status);
+        this.cancelledResponses.delete(msg.response?.id);
         this.markResponseComplete();
         this.events.emit('response.complete', msg);
         break;
 
       case 'error':
+        // Antwort war beim Barge-in schon beendet (z. B. von der Server-VAD abgebrochen)
+        if (msg.error?.code === 'response_cancel_not_active') {
+          this.logger.debug('response.cancel ignored, no active response');
+          break;
+        }
         console.error('OpenAI Realtime Error:', msg.error);
         this.events.emit('error', msg.error);
         break;
 
+      case 'conversation.item.created':
+      case 'conversation.item.added':
+      case 'conversation.item.done':
+      case 'conversation.item.retrieved':
+      case 'conversation.item.deleted':
+      case 'conversation.item.truncated':
+        this.events.emit(msg.type, msg);
+        break;
+
       case 'session.created':
       case 'session.updated':
+        this.sessionId = msg.session?.id ?? this.sessionId;
+        this.events.emit(msg.type, msg.session);
         this.events.emit('session.info', msg.session);
         break;
 
@@ -304,13 +562,142 @@ export class OpenAIRealtimeSocketHandler {
     }
   }
 
-  public sendAudioChunk(buffer: Buffer) {
-    const now = Date.now();
-    if (!this.lastAudioDeltaAt) {
-      this.lastAudioDeltaAt = now;
+  private trackOutputAudio(responseId: string, itemId: string | undefined, base64: string) {
+    if (!this.activeResponse || this.activeResponse.id !== responseId) {
+      this.activeResponse = { id: responseId, audioMs: 0, done: false };
+    }
+    this.activeResponse.itemId = itemId ?? this.activeResponse.itemId;
+    // base64 → PCM16 bytes → ms
+    const bytes = Math.floor((base64.length * 3) / 4);
+    this.activeResponse.audioMs += (bytes / 2 / this.options.outputSampleRate) * 1000;
+  }
+
+  /**
+   * Barge-in: the speaker talks again while a response is still playing.
+   * Cancels the response upstream and asks clients to drop queued audio; they
+   * answer with the played offset, see {@link truncateOutput}.
+   */
+  private handleSpeechStarted() {
+    const response = this.activeResponse;
+    if (!response || response.audioMs === 0) {
+      return;
+    }
+    this.activeResponse = null;
+
+    if (!response.done) {
+      this.logger.debug(`Barge-in: cancelling response ${response.id}`);
+      this.cancelledResponses.add(response.id);
+      this.ws.send(JSON.stringify({ type: 'response.cancel', response_id: response.id }));
     }
-    this.pendingInputChunks.push({ sentAt: now, size: buffer.length });
-    this.logger.debug(`[latency] queued chunk ${this.pendingInputChunks.length} (${buffer.length} bytes)`);
+    if (response.itemId) {
+      this.interruptedItem = { id: response.itemId, audioMs: response.audioMs };
+    }
+
+    const payload: PlaybackFlushPayload = {
+      responseId: response.id,
+      itemId: response.itemId,
+      reason: 'speech_started',
+      audioSentMs: Math.round(response.audioMs),
+    };
+    this.events.emit('playback.flush', payload);
+  }
+
+  /**
+   * Tells OpenAI how much of the interrupted item the listener actually heard,
+   * so the conversation does not contain audio that was never played.
+   */
+  public truncateOutput(playedMs: number, itemId?: string) {
+    const item = this.interruptedItem;
+    if (!item || (itemId && itemId !== item.id)) {
+      this.logger.debug(`No interrupted item to truncate (${itemId ?? 'none'})`);
+      return;
+    }
+    this.interruptedItem = null;
+    const audioEndMs = Math.max(0, Math.min(Math.round(playedMs), Math.floor(item.audioMs)));
+    this.logger.debug(`conversation.item.truncate ${item.id} at ${audioEndMs} ms`);
+    this.ws.send(JSON.stringify({
+      type: 'conversation.item.truncate',
+      item_id: item.id,
+      content_index: 0,
+      audio_end_ms: audioEndMs,
+    }));
+  }
+
+  /** Executes a function call and posts its output as `function_call_output` item. */
+  private handleFunctionCall(msg: { call_id: string; name: string; arguments: string; response_id?: string }) {
+    if (!this.toolProvider) {
+      this.logger.warn(`Function call ${msg.name} without tool provider`);
+      return;
+    }
+    const call: ToolCallPayload = {
+      callId: msg.call_id,
+      name: msg.name,
+      arguments: msg.arguments,
+      responseId: msg.response_id,
+    };
+    this.events.emit('tool.call', call);
+
+    const execution = this.toolProvider.execute(msg.name, msg.arguments).then((output) => {
+      this.logger.debug(`Tool ${msg.name} (${msg.call_id}) returned ${output.length} chars`);
+      this.ws.send(JSON.stringify({
+        type: 'conversation.item.create',
+        item: { type: 'function_call_output', call_id: msg.call_id, output },
+      }));
+      this.events.emit('tool.result', { ...call, output });
+    }).catch((err) => this.logger.error(`Posting output of tool ${msg.name} failed`, err as Error));
+    const key = msg.response_id ?? '';
+    this.pendingToolCalls.set(key, [...(this.pendingToolCalls.get(key) ?? []), execution]);
+  }
+
+  /**
+   * OpenAI rejects `response.create` while a response is active, so the
+   * follow-up response for tool outputs is requested after `response.done`.
+   */
+  private async continueAfterToolCalls(responseId: string | undefined, status?: string) {
+    const key = responseId ?? '';
+    const executions = this.pendingToolCalls.get(key);
+    if (!executions) {
+      return;
+    }
+    this.pendingToolCalls.delete(key);
+    await Promise.all(executions);
+    if (status === 'cancelled') {
+      return;
+    }
+    this.logger.debug(`Requesting follow-up response after ${executions.length} tool call(s)`);
+    this.awaitingResponse = true;
+    this.ws.send(JSON.stringify({ type: 'response.create' }));
+  }
+
+  /** Accumulates transcript deltas per item and emits `transcript.delta` / `transcript.done`. */
+  private emitTranscript(
+    source: TranscriptPayload['source'],
+    text: string | undefined,
+    final: boolean,
+    itemId?: string,
+    responseId?: string,
+  ) {
+    const key = `${source}:${itemId ?? responseId ?? ''}`;
+    const accumulated = final ? (text ?? this.transcripts.get(key) ?? '') : (this.transcripts.get(key) ?? '') + (text ?? '');
+    if (final) {
+      this.transcripts.delete(key);
+    } else {
+      this.transcripts.set(key, accumulated);
+    }
+
+    const payload: TranscriptPayload = {
+      source,
+      delta: final ? '' : (text ?? ''),
+      text: accumulated,
+      final,
+      itemId,
+      responseId,
+      timestamp: new Date().toISOString(),
+    };
+    this.events.emit(final ? 'transcript.done' : 'transcript.delta', payload);
+  }
+
+  public sendAudio(buffer: Buffer) {
     console.log('Sending audio chunk to OpenAI Realtime WebSocket...');
     this.ws.send(JSON.stringify({
       type: 'input_audio_buffer.append',
@@ -318,7 +705,27 @@ export class OpenAIRealtimeSocketHandler {
     }));
   }
 
-  public commitAudio() {
+  /**
+   * Adds a typed message to the conversation. User text optionally triggers a
+   * response right away; system notes only steer the following responses.
+   */
+  public sendText(text: string, role: 'user' | 'system' = 'user', respond = role === 'user') {
+    this.logger.debug(`conversation.item.create (${role} text, ${text.length} chars)`);
+    this.ws.send(JSON.stringify({
+      type: 'conversation.item.create',
+      item: { type: 'message', role, content: [{ type: 'input_text', text }] },
+    }));
+    if (respond) {
+      this.requestResponse();
+    }
+  }
+
+  public deleteItem(itemId: string) {
+    this.logger.debug(`conversation.item.delete ${itemId}`);
+    this.ws.send(JSON.stringify({ type: 'conversation.item.delete', item_id: itemId }));
+  }
+
+  public commit() {
     this.logger.debug('input_audio_buffer.commit sent to OpenAI');
     this.ws.send(JSON.stringify({ type: 'input_audio_buffer.commit' }));
   }
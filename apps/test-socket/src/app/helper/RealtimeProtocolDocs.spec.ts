@@ -0,0 +1,33 @@
+import { clientMessageSchema, serverMessageSchema } from '../models/realtime-protocol.model';
+import { buildRealtimeAsyncApiDocument } from './RealtimeProtocolDocs';
+
+describe('buildRealtimeAsyncApiDocument', () => {
+  const document = buildRealtimeAsyncApiDocument();
+  const messages = document.components.messages as Record<string, { name: string; payload: Record<string, unknown> }>;
+  const channel = Object.values(document.channels)[0];
+
+  it('keeps messages of both directions that share a type', () => {
+    const client = messages['client.ice'];
+    const server = messages['server.ice'];
+
+    expect(client.name).toBe('ice');
+    expect(server.name).toBe('ice');
+    expect(client.payload).not.toEqual(server.payload);
+    expect(JSON.stringify(client.payload)).toContain('sdpMLineIndex');
+  });
+
+  it('has one component per message of each direction', () => {
+    expect(Object.keys(messages)).toHaveLength(clientMessageSchema.options.length + serverMessageSchema.options.length);
+  });
+
+  it('references only existing components, by direction', () => {
+    const refs = (oneOf: Array<{ $ref: string }>) => oneOf.map((ref) => ref.$ref.replace('#/components/messages/', ''));
+    const publish = refs(channel.publish.message.oneOf);
+    const subscribe = refs(channel.subscribe.message.oneOf);
+
+    expect(publish.every((name) => name.startsWith('client.') && messages[name])).toBe(true);
+    expect(subscribe.every((name) => name.startsWith('server.') && messages[name])).toBe(true);
+    expect(publish).toContain('client.ice');
+    expect(subscribe).toContain('server.ice');
+  });
+});
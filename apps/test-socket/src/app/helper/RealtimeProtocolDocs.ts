@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import {
+  clientMessageSchema,
+  REALTIME_PATH,
+  REALTIME_PROTOCOL_VERSION,
+  serverMessageSchema,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from '../models/realtime-protocol.model';
+
+type MessageSchema = (typeof clientMessageSchema.options)[number] | (typeof serverMessageSchema.options)[number];
+
+function toJsonSchema(schema: z.ZodType): Record<string, unknown> {
+  const jsonSchema = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function toAsyncApiMessage(schema: MessageSchema) {
+  const meta = schema.meta() ?? {};
+  return {
+    name: schema.shape.type.value,
+    title: meta.title,
+    summary: meta.description,
+    deprecated: meta.deprecated,
+    payload: toJsonSchema(schema),
+  };
+}
+
+/** JSON Schema (draft 2020-12) for both message directions. */
+export function buildRealtimeJsonSchema() {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: 'Realtime gateway protocol',
+    version: REALTIME_PROTOCOL_VERSION,
+    supportedVersions: [...SUPPORTED_PROTOCOL_VERSIONS],
+    clientMessages: toJsonSchema(clientMessageSchema),
+    serverMessages: toJsonSchema(serverMessageSchema),
+  };
+}
+
+/** AsyncAPI 2.6 description of the realtime WebSocket, generated from the zod schemas. */
+export function buildRealtimeAsyncApiDocument() {
+  // Beide Richtungen kennen z. B. `ice`, deshalb sind die Komponenten nach Richtung benannt
+  const clientMessages = clientMessageSchema.options.map(toAsyncApiMessage);
+  const serverMessages = serverMessageSchema.options.map(toAsyncApiMessage);
+  const messages = Object.fromEntries([
+    ...clientMessages.map((message) => [`client.${message.name}`, message]),
+    ...serverMessages.map((message) => [`server.${message.name}`, message]),
+  ]);
+  const refs = (direction: 'client' | 'server', list: Array<{ name: string }>) =>
+    list.map((message) => ({ $ref: `#/components/messages/${direction}.${message.name}` }));
+
+  return {
+    asyncapi: '2.6.0',
+    info: {
+      title: 'Realtime translation gateway',
+      version: REALTIME_PROTOCOL_VERSION,
+      description:
+        'JSON messages exchanged over the realtime WebSocket. Clients send `hello` first to negotiate ' +
+        `one of the supported protocol versions (${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}). ` +
+        'With `audioTransport: binary` audio travels as binary frames with a 12 byte header ' +
+        '(version, format, flags, sequence, sample rate) instead of base64 JSON.',
+    },
+    defaultContentType: 'application/json',
+    channels: {
+      [REALTIME_PATH]: {
+        description: 'Realtime WebSocket endpoint',
+        publish: {
+          summary: 'Messages sent by the client',
+          message: { oneOf: refs('client', clientMessages) },
+        },
+        subscribe: {
+          summary: 'Messages sent by the server',
+          message: { oneOf: refs('server', serverMessages) },
+        },
+      },
+    },
+    components: { messages },
+  };
+}
@@ -0,0 +1,131 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { TranscriptPayload } from './SpeechTranslationProvider';
+import { createWavHeader, SessionRecorder, SessionRecordingFiles } from './SessionRecorder';
+
+const NOW = Date.parse('2026-01-01T12:00:00.000Z');
+const SAMPLE_RATE = 8000;
+
+function transcript(source: TranscriptPayload['source'], text: string, final: boolean, itemId: string): TranscriptPayload {
+  return { source, text, final, itemId, delta: final ? '' : text, timestamp: new Date().toISOString() };
+}
+
+/** PCM16 mono of constant `value`, `ms` long at `sampleRate`. */
+function tone(ms: number, value: number, sampleRate = SAMPLE_RATE): Buffer {
+  const pcm = Buffer.alloc(((ms * sampleRate) / 1000) * 2);
+  for (let i = 0; i < pcm.length; i += 2) {
+    pcm.writeInt16LE(value, i);
+  }
+  return pcm;
+}
+
+describe('SessionRecorder', () => {
+  let dir: string;
+  let files: SessionRecordingFiles;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-recorder-'));
+    files = {
+      audio: path.join(dir, 'session.wav'),
+      timeline: path.join(dir, 'session.json'),
+      subtitles: path.join(dir, 'session.vtt'),
+      inputPcm: path.join(dir, 'input.pcm'),
+      outputPcm: path.join(dir, 'output.pcm'),
+    };
+    // Nur die Uhr anhalten, die Dateistreams brauchen echte Ticks
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function record(maxDurationMs = 60_000) {
+    const recorder = new SessionRecorder({ sessionId: 's1', gateway: 'realtime' }, files, SAMPLE_RATE, maxDurationMs);
+
+    jest.setSystemTime(NOW + 200);
+    recorder.addTranscript(transcript('input', 'Hal', false, 'in_1'));
+    jest.setSystemTime(NOW + 1000);
+    recorder.writeInput(tone(1000, 1000), SAMPLE_RATE);
+    recorder.addTranscript(transcript('input', 'Hallo --> Welt', true, 'in_1'));
+    recorder.writeOutput(tone(1000, 2000, 16_000), 16_000, 'out_1');
+    jest.setSystemTime(NOW + 1200);
+    recorder.flushOutput({ itemId: 'out_1', reason: 'speech_started', audioSentMs: 1000 });
+    jest.setSystemTime(NOW + 1300);
+    recorder.addTranscript(transcript('output', 'Hello world', true, 'out_1'));
+
+    return recorder;
+  }
+
+  it('writes a timeline with cues placed on the audio', async () => {
+    const recorder = record();
+    const timeline = await recorder.finish();
+
+    expect(timeline).toMatchObject({
+      sessionId: 's1',
+      durationMs: 1200,
+      sampleRate: SAMPLE_RATE,
+      channels: ['input', 'output'],
+      audio: 'session.wav',
+      subtitles: 'session.vtt',
+      audioTruncated: false,
+    });
+    expect(timeline.entries).toEqual([
+      expect.objectContaining({ type: 'transcript', source: 'input', text: 'Hallo --> Welt', startMs: 200, endMs: 1200 }),
+      expect.objectContaining({ type: 'transcript', source: 'output', text: 'Hello world', startMs: 1000, endMs: 1200 }),
+      expect.objectContaining({ type: 'flush', atMs: 1200, itemId: 'out_1' }),
+    ]);
+    expect(JSON.parse(fs.readFileSync(files.timeline, 'utf8'))).toEqual(timeline);
+    expect(fs.existsSync(files.inputPcm) || fs.existsSync(files.outputPcm)).toBe(false);
+  });
+
+  it('writes WebVTT subtitles with escaped cue text', async () => {
+    const recorder = record();
+    await recorder.finish();
+
+    expect(fs.readFileSync(files.subtitles, 'utf8')).toBe(
+      [
+        'WEBVTT',
+        '1\n00:00:00.200 --> 00:00:01.200\n<v input>Hallo -> Welt',
+        '2\n00:00:01.000 --> 00:00:01.200\n<v output>Hello world',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('interleaves input and the played part of the output into a stereo WAV', async () => {
+    const recorder = record();
+    await recorder.finish();
+
+    const wav = fs.readFileSync(files.audio);
+    const frames = (1200 * SAMPLE_RATE) / 1000;
+    expect(wav.subarray(0, 44)).toEqual(createWavHeader(SAMPLE_RATE, 2, frames * 4));
+    const frame = (ms: number) => {
+      const offset = 44 + ((ms * SAMPLE_RATE) / 1000) * 4;
+      return [wav.readInt16LE(offset), wav.readInt16LE(offset + 2)];
+    };
+    expect(frame(500)).toEqual([1000, 0]);
+    // Ausgabe wurde auf 8 kHz heruntergerechnet und beim Barge-in abgeschnitten
+    expect(frame(1100)).toEqual([0, 2000]);
+    expect(wav.length).toBe(44 + frames * 4);
+  });
+
+  it('returns the same bundle for repeated finish calls and ignores late events', async () => {
+    const recorder = record();
+    const first = recorder.finish();
+    recorder.addTranscript(transcript('input', 'zu spät', true, 'in_2'));
+    expect(recorder.active).toBe(false);
+    expect(recorder.finish()).toBe(first);
+    expect((await first).entries).toHaveLength(3);
+  });
+
+  it('stops recording audio at the maximum duration but keeps transcripts', async () => {
+    const recorder = record(500);
+    const timeline = await recorder.finish();
+
+    expect(timeline.audioTruncated).toBe(true);
+    expect(timeline.durationMs).toBe(0);
+    expect(timeline.entries.filter((entry) => entry.type === 'transcript')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,393 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'node:fs';
+import { Pcm16Resampler } from './AudioTranscoder';
+import { PlaybackFlushPayload, TranscriptPayload } from './SpeechTranslationProvider';
+
+/** Input chunks cover the time before they arrive; gaps below this are jitter, not silence. */
+const INPUT_JITTER_MS = 250;
+/** Cues without a partial transcript have no start of their own. */
+const MIN_CUE_MS = 1000;
+/** Stereo frames interleaved per read when the WAV is assembled. */
+const INTERLEAVE_BLOCK_FRAMES = 24_000;
+
+export interface SessionRecordingInfo {
+  sessionId: string;
+  gateway: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+}
+
+/** Files of a recording bundle; `audio`, `timeline` and `subtitles` are what ends up in the recordings directory. */
+export interface SessionRecordingFiles {
+  audio: string;
+  timeline: string;
+  subtitles: string;
+  inputPcm: string;
+  outputPcm: string;
+}
+
+export type SessionTimelineEntry =
+  | {
+      type: 'transcript';
+      source: TranscriptPayload['source'];
+      text: string;
+      startMs: number;
+      endMs: number;
+      itemId?: string;
+      responseId?: string;
+    }
+  | { type: 'flush'; atMs: number; itemId?: string; responseId?: string };
+
+/** Content of the `.json` file of a bundle. */
+export interface SessionTimeline extends SessionRecordingInfo {
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  sampleRate: number;
+  /** Left channel is the speaker, right channel the translation as it was played. */
+  channels: ['input', 'output'];
+  audio: string;
+  subtitles: string;
+  /** Audio stopped at the configured maximum, transcripts went on. */
+  audioTruncated: boolean;
+  entries: SessionTimelineEntry[];
+}
+
+/**
+ * Append-only PCM16 mono file on the recording clock. Audio is scheduled at a
+ * time and only written once that time has passed, so a barge-in can still
+ * drop what was scheduled but not yet played.
+ */
+class PcmTrack {
+  private readonly stream: fs.WriteStream;
+  private writtenSamples = 0;
+  private pending: Buffer[] = [];
+  private pendingSamples = 0;
+  private error?: Error;
+
+  constructor(
+    readonly file: string,
+    private readonly sampleRate: number,
+  ) {
+    this.stream = fs.createWriteStream(file);
+    // Ein voller Datenträger darf die Session nicht beenden, der Fehler kommt erst mit end()
+    this.stream.on('error', (err) => {
+      this.error = err;
+    });
+  }
+
+  get endMs(): number {
+    return this.toMs(this.writtenSamples + this.pendingSamples);
+  }
+
+  /** Places `pcm` at `atMs` or right after the audio already scheduled, whichever is later. */
+  schedule(pcm: Buffer, atMs: number): number {
+    this.commit(atMs);
+    const gap = this.toSamples(atMs) - this.writtenSamples - this.pendingSamples;
+    if (gap > 0) {
+      this.push(Buffer.alloc(gap * 2));
+    }
+    const startMs = this.endMs;
+    this.push(pcm);
+    return startMs;
+  }
+
+  /** Writes the scheduled audio up to `atMs` and drops the rest. */
+  truncate(atMs: number): void {
+    this.commit(atMs);
+    this.pending = [];
+    this.pendingSamples = 0;
+  }
+
+  async end(): Promise<number> {
+    this.commit(Infinity);
+    await new Promise<void>((resolve) => this.stream.end(resolve));
+    if (this.error) {
+      throw this.error;
+    }
+    return this.writtenSamples;
+  }
+
+  /** Writes the scheduled audio up to `atMs`. */
+  commit(atMs: number): void {
+    let samples = Math.min(this.toSamples(atMs) - this.writtenSamples, this.pendingSamples);
+    while (samples > 0) {
+      const chunk = this.pending[0];
+      const take = Math.min(samples, chunk.length / 2);
+      this.stream.write(chunk.subarray(0, take * 2));
+      if (take * 2 === chunk.length) {
+        this.pending.shift();
+      } else {
+        this.pending[0] = chunk.subarray(take * 2);
+      }
+      this.writtenSamples += take;
+      this.pendingSamples -= take;
+      samples -= take;
+    }
+  }
+
+  private push(pcm: Buffer): void {
+    const samples = Math.floor(pcm.length / 2);
+    if (samples > 0) {
+      this.pending.push(pcm.subarray(0, samples * 2));
+      this.pendingSamples += samples;
+    }
+  }
+
+  private toSamples(ms: number): number {
+    return ms === Infinity ? Infinity : Math.round((ms * this.sampleRate) / 1000);
+  }
+
+  private toMs(samples: number): number {
+    return (samples * 1000) / this.sampleRate;
+  }
+}
+
+/**
+ * Records one translation session: the speaker's PCM, the translated PCM as
+ * it would have been played (cut on barge-in) and the final transcripts.
+ * `finish()` writes a stereo WAV, a JSON timeline and WebVTT subtitles; the
+ * audio is buffered in temporary PCM files, not in memory.
+ */
+export class SessionRecorder {
+  private readonly logger = new Logger(SessionRecorder.name);
+  private readonly startedAt = new Date();
+  private readonly input: PcmTrack;
+  private readonly output: PcmTrack;
+  private readonly resamplers = new Map<'input' | 'output', Pcm16Resampler>();
+  private readonly entries: SessionTimelineEntry[] = [];
+  /** First partial per `source:itemId`, the cue start of its final transcript. */
+  private readonly partialStarts = new Map<string, number>();
+  /** Where each output item sits on the output track. */
+  private readonly outputSpans = new Map<string, { startMs: number; endMs: number }>();
+  private audioTruncated = false;
+  private finished?: Promise<SessionTimeline>;
+
+  constructor(
+    readonly info: SessionRecordingInfo,
+    private readonly files: SessionRecordingFiles,
+    readonly sampleRate: number,
+    private readonly maxDurationMs: number,
+  ) {
+    this.input = new PcmTrack(files.inputPcm, sampleRate);
+    this.output = new PcmTrack(files.outputPcm, sampleRate);
+  }
+
+  get active(): boolean {
+    return !this.finished;
+  }
+
+  /** PCM16 mono of the speaker, right after decoding. */
+  writeInput(pcm: Buffer, sampleRate: number): void {
+    if (!this.acceptAudio()) {
+      return;
+    }
+    const audio = this.resample('input', pcm, sampleRate);
+    const durationMs = (audio.length / 2 / this.sampleRate) * 1000;
+    const atMs = this.elapsedMs() - durationMs;
+    this.input.schedule(audio, atMs - this.input.endMs < INPUT_JITTER_MS ? 0 : atMs);
+    // Eingang wird nie gekürzt, also sofort schreiben statt im Speicher zu halten
+    this.input.commit(Infinity);
+  }
+
+  /** Translated PCM16 mono, played from its arrival on unless earlier output is still playing. */
+  writeOutput(pcm: Buffer, sampleRate: number, itemId?: string): void {
+    if (!this.acceptAudio()) {
+      return;
+    }
+    const startMs = this.output.schedule(this.resample('output', pcm, sampleRate), this.elapsedMs());
+    if (itemId) {
+      const span = this.outputSpans.get(itemId) ?? { startMs, endMs: startMs };
+      span.endMs = this.output.endMs;
+      this.outputSpans.set(itemId, span);
+    }
+  }
+
+  /** Barge-in: the output that was scheduled after now was never heard. */
+  flushOutput(payload: PlaybackFlushPayload): void {
+    if (!this.active) {
+      return;
+    }
+    const atMs = this.elapsedMs();
+    this.output.truncate(atMs);
+    const span = payload.itemId ? this.outputSpans.get(payload.itemId) : undefined;
+    if (span) {
+      span.endMs = Math.min(span.endMs, atMs);
+    }
+    this.entries.push({ type: 'flush', atMs: Math.round(atMs), itemId: payload.itemId, responseId: payload.responseId });
+  }
+
+  addTranscript(payload: TranscriptPayload): void {
+    if (!this.active) {
+      return;
+    }
+    const key = `${payload.source}:${payload.itemId ?? payload.responseId ?? ''}`;
+    const nowMs = this.elapsedMs();
+    if (!payload.final) {
+      if (!this.partialStarts.has(key)) {
+        this.partialStarts.set(key, nowMs);
+      }
+      return;
+    }
+    if (!payload.text) {
+      return;
+    }
+
+    const partialStart = this.partialStarts.get(key);
+    this.partialStarts.delete(key);
+    // Übersetzte Untertitel laufen mit dem Audio auf dem Ausgabekanal, nicht mit dem Eintreffen des Texts
+    const span = payload.source === 'output' && payload.itemId ? this.outputSpans.get(payload.itemId) : undefined;
+    const startMs = span?.startMs ?? partialStart ?? nowMs;
+    const endMs = span && span.endMs > span.startMs ? span.endMs : Math.max(nowMs, startMs + MIN_CUE_MS);
+    this.entries.push({
+      type: 'transcript',
+      source: payload.source,
+      text: payload.text,
+      startMs: Math.round(startMs),
+      endMs: Math.round(endMs),
+      itemId: payload.itemId,
+      responseId: payload.responseId,
+    });
+  }
+
+  /** Writes the bundle once, later calls return the same result. */
+  finish(): Promise<SessionTimeline> {
+    this.finished ??= this.writeBundle();
+    return this.finished;
+  }
+
+  private async writeBundle(): Promise<SessionTimeline> {
+    const endedAt = new Date();
+    try {
+      const [inputSamples, outputSamples] = await Promise.all([this.input.end(), this.output.end()]);
+      const frames = Math.max(inputSamples, outputSamples);
+      await this.writeStereoWav(frames);
+
+      const timeline: SessionTimeline = {
+        ...this.info,
+        startedAt: this.startedAt.toISOString(),
+        endedAt: endedAt.toISOString(),
+        durationMs: Math.round((frames * 1000) / this.sampleRate),
+        sampleRate: this.sampleRate,
+        channels: ['input', 'output'],
+        audio: this.basename(this.files.audio),
+        subtitles: this.basename(this.files.subtitles),
+        audioTruncated: this.audioTruncated,
+        entries: [...this.entries].sort((a, b) => this.entryTime(a) - this.entryTime(b)),
+      };
+      await fs.promises.writeFile(this.files.timeline, JSON.stringify(timeline, null, 2));
+      await fs.promises.writeFile(this.files.subtitles, this.toWebVtt(timeline.entries));
+      return timeline;
+    } finally {
+      this.resamplers.clear();
+      await Promise.all(
+        [this.files.inputPcm, this.files.outputPcm].map((file) => fs.promises.rm(file, { force: true })),
+      );
+    }
+  }
+
+  /** Interleaves both tracks block by block, the shorter one is padded with silence. */
+  private async writeStereoWav(frames: number): Promise<void> {
+    const input = await fs.promises.open(this.files.inputPcm, 'r');
+    const output = await fs.promises.open(this.files.outputPcm, 'r');
+    const wav = await fs.promises.open(this.files.audio, 'w');
+    try {
+      await wav.write(createWavHeader(this.sampleRate, 2, frames * 4));
+      const left = Buffer.alloc(INTERLEAVE_BLOCK_FRAMES * 2);
+      const right = Buffer.alloc(INTERLEAVE_BLOCK_FRAMES * 2);
+      for (let done = 0; done < frames; done += INTERLEAVE_BLOCK_FRAMES) {
+        const count = Math.min(INTERLEAVE_BLOCK_FRAMES, frames - done);
+        left.fill(0);
+        right.fill(0);
+        await input.read(left, 0, count * 2, done * 2);
+        await output.read(right, 0, count * 2, done * 2);
+        const block = Buffer.alloc(count * 4);
+        for (let i = 0; i < count; i++) {
+          block.writeInt16LE(left.readInt16LE(i * 2), i * 4);
+          block.writeInt16LE(right.readInt16LE(i * 2), i * 4 + 2);
+        }
+        await wav.write(block);
+      }
+    } finally {
+      await Promise.all([input.close(), output.close(), wav.close()]);
+    }
+  }
+
+  private toWebVtt(entries: SessionTimelineEntry[]): string {
+    const cues = entries
+      .filter((entry) => entry.type === 'transcript')
+      .map((entry, index) =>
+        [
+          String(index + 1),
+          `${formatVttTime(entry.startMs)} --> ${formatVttTime(entry.endMs)}`,
+          `<v ${entry.source}>${entry.text.replace(/-->/g, '->')}`,
+        ].join('\n'),
+      );
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+  }
+
+  private acceptAudio(): boolean {
+    if (!this.active) {
+      return false;
+    }
+    if (this.elapsedMs() > this.maxDurationMs) {
+      if (!this.audioTruncated) {
+        this.audioTruncated = true;
+        this.logger.warn(`Session recording ${this.info.sessionId} reached ${this.maxDurationMs} ms, audio is no longer recorded`);
+      }
+      return false;
+    }
+    return true;
+  }
+
+  private resample(track: 'input' | 'output', pcm: Buffer, sampleRate: number): Buffer {
+    if (sampleRate === this.sampleRate) {
+      return pcm;
+    }
+    let resampler = this.resamplers.get(track);
+    if (resampler?.fromRate !== sampleRate) {
+      resampler = new Pcm16Resampler(sampleRate, this.sampleRate);
+      this.resamplers.set(track, resampler);
+    }
+    return resampler.process(pcm);
+  }
+
+  private elapsedMs(): number {
+    return Date.now() - this.startedAt.getTime();
+  }
+
+  private entryTime(entry: SessionTimelineEntry): number {
+    return entry.type === 'transcript' ? entry.startMs : entry.atMs;
+  }
+
+  private basename(file: string): string {
+    return file.substring(file.lastIndexOf('/') + 1);
+  }
+}
+
+/** 44-byte RIFF header for PCM16. */
+export function createWavHeader(sampleRate: number, channels: number, dataBytes: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+function formatVttTime(ms: number): string {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(Math.floor(ms % 1000), 3)}`;
+}
@@ -0,0 +1,71 @@
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import type { RealtimeSessionConfig, RealtimeSessionUpdate } from './OpenAISocketHandler';
+
+/** Backends a session can be translated with, selected via `provider` in the session options. */
+export const speechProviders = z.enum({
+  openai: 'openai',
+  local: 'local',
+});
+
+export type SpeechProviderName = z.infer<typeof speechProviders>;
+
+/** Translated output audio, emitted as `audio.output`. */
+export type SpeechAudioPayload = {
+  base64: string;
+  format: string;
+  sampleRate: number;
+  responseId?: string;
+  itemId?: string;
+};
+
+/** Emitted as `playback.flush` when the speaker interrupts a response that is still playing. */
+export type PlaybackFlushPayload = {
+  responseId?: string;
+  itemId?: string;
+  reason: 'speech_started';
+  /** Output audio the provider had sent for the item, the upper bound for the played offset. */
+  audioSentMs: number;
+};
+
+/**
+ * Live subtitle update, emitted as `transcript.delta` (partial) and
+ * `transcript.done` (final). `input` is what the speaker said, `output` the translation.
+ */
+export type TranscriptPayload = {
+  source: 'input' | 'output';
+  /** New text of a partial update, empty for final updates. */
+  delta: string;
+  /** Text accumulated so far, the complete transcript when final. */
+  text: string;
+  final: boolean;
+  itemId?: string;
+  responseId?: string;
+  timestamp: string;
+};
+
+/**
+ * Speech-to-speech translation backend of one session.
+ *
+ * Implementations emit on `events`:
+ * - `audio.output` ({@link SpeechAudioPayload}), `transcript.delta` / `transcript.done` ({@link TranscriptPayload})
+ * - `playback.flush` ({@link PlaybackFlushPayload}) on barge-in
+ * - `conversation.item.added` / `.done` / `.deleted` / `.truncated` with Realtime API shaped payloads
+ * - `session.updated`, `error` and `close` ({ code, reason }) when the backend connection ends
+ */
+export interface SpeechTranslationProvider {
+  readonly events: EventEmitter;
+  /** Resolves once audio can be sent. */
+  connect(): Promise<void>;
+  /** Appends PCM16 mono input audio at the session's input sample rate. */
+  sendAudio(chunk: Buffer): void;
+  /** Ends the current user turn. */
+  commit(): void;
+  requestResponse(instructions?: string): void;
+  updateSession(update: RealtimeSessionUpdate): Promise<RealtimeSessionConfig>;
+  getSessionConfig(): RealtimeSessionConfig;
+  truncateOutput(playedMs: number, itemId?: string): void;
+  sendText(text: string, role?: 'user' | 'system', respond?: boolean): void;
+  deleteItem(itemId: string): void;
+  close(): void;
+}
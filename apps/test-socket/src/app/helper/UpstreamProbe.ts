@@ -0,0 +1,43 @@
+import * as net from 'node:net';
+import * as tls from 'node:tls';
+
+/**
+ * Checks whether an upstream Realtime endpoint can be reached. Replaceable
+ * via the `UPSTREAM_PROBE` provider, e.g. for offline setups or tests.
+ */
+export interface UpstreamProbe {
+  /** Resolves once the endpoint answered, rejects on errors or after `timeoutMs`. */
+  probe(url: URL, timeoutMs: number): Promise<void>;
+}
+
+/**
+ * Opens a TCP connection to the endpoint and, for `wss:`/`https:`, completes
+ * the TLS handshake. No HTTP request is sent, so no API key is needed.
+ */
+export const tcpUpstreamProbe: UpstreamProbe = {
+  probe(url: URL, timeoutMs: number): Promise<void> {
+    const secure = url.protocol === 'wss:' || url.protocol === 'https:';
+    const port = Number(url.port) || (secure ? 443 : 80);
+    const host = url.hostname;
+
+    return new Promise<void>((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+        : net.connect({ host, port });
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`Timeout after ${timeoutMs} ms connecting to ${host}:${port}`));
+      }, timeoutMs);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer);
+        socket.end();
+        resolve();
+      });
+      socket.once('error', (err) => {
+        clearTimeout(timer);
+        socket.destroy();
+        reject(err);
+      });
+    });
+  },
+};
@@ -0,0 +1,268 @@
+import { Logger } from '@nestjs/common';
+import OpusScript from 'opusscript';
+import {
+  MediaStreamTrack,
+  RTCDataChannel,
+  RTCIceCandidate,
+  RTCPeerConnection,
+  RTCRtpCodecParameters,
+  RTCRtpTransceiver,
+  RtpHeader,
+  RtpPacket,
+} from 'werift';
+import { Pcm16Resampler } from './AudioTranscoder';
+import { OPUS_GRANULE_RATE } from './OggOpusMuxer';
+import type { IceCandidateInit } from '../models/realtime-protocol.model';
+
+/** WebRTC Opus always runs at 48 kHz; 20 ms frames as in the browser. */
+const OPUS_FRAME_MS = 20;
+const OPUS_FRAME_SAMPLES = (OPUS_GRANULE_RATE * OPUS_FRAME_MS) / 1000;
+/** Decoded input is batched so the upstream does not get 50 messages per second. */
+const INPUT_BATCH_MS = 100;
+
+export type WebRtcPeerState = 'new' | 'connecting' | 'connected' | 'disconnected' | 'failed' | 'closed';
+
+export interface WebRtcAudioPeerOptions {
+  iceServers: { urls: string }[];
+  icePortRange?: [number, number];
+  /** Sample rate of the PCM16 delivered to {@link onPcm}, i.e. what the upstream expects. */
+  inputSampleRate: number;
+  /** Decoded audio of the remote track, `encodedBytes` is the Opus payload it came from. */
+  onPcm(pcm: Buffer, encodedBytes: number): void;
+  /** Messages of the `audio` DataChannel, same framing as on the WebSocket. */
+  onDataChannelMessage(data: Buffer, isBinary: boolean): void;
+  /** Local candidates for trickle ICE; `null` ends gathering. */
+  onIceCandidate(candidate: ReturnType<RTCIceCandidate['toJSON']> | null): void;
+  onStateChange(state: WebRtcPeerState): void;
+}
+
+/**
+ * Server end of a browser `RTCPeerConnection` (werift): decodes the Opus RTP
+ * of the remote audio track to PCM16 for the upstream, accepts the same
+ * messages as the WebSocket on the `audio` DataChannel, and sends upstream
+ * PCM back as a paced Opus track. The browser makes the offer, the server
+ * only answers.
+ */
+export class WebRtcAudioPeer {
+  private readonly logger = new Logger(WebRtcAudioPeer.name);
+  private readonly pc: RTCPeerConnection;
+  private readonly outputTrack = new MediaStreamTrack({ kind: 'audio' });
+  private readonly decoder = new OpusScript(OPUS_GRANULE_RATE, 1);
+  private readonly encoder = new OpusScript(OPUS_GRANULE_RATE, 1, OpusScript.Application.VOIP);
+  private readonly inputResampler: Pcm16Resampler;
+  private outputResampler?: Pcm16Resampler;
+  private transceiver?: RTCRtpTransceiver;
+  private inputBatch: Buffer[] = [];
+  private inputBatchBytes = 0;
+  private inputEncodedBytes = 0;
+  private receivingRtp = false;
+
+  /** Encoded 20 ms packets waiting for their send slot. */
+  private outputQueue: Buffer[] = [];
+  private pendingPcm = Buffer.alloc(0);
+  private pacer?: NodeJS.Timeout;
+  private pacerStartedAt = 0;
+  private packetsSinceStart = 0;
+  private sequenceNumber = Math.floor(Math.random() * 0xffff);
+  private rtpTimestamp = Math.floor(Math.random() * 0xffffffff);
+  private lastPacketAt = 0;
+  private outputItemId?: string;
+  private outputItemPackets = 0;
+  private state: WebRtcPeerState = 'new';
+  private closed = false;
+
+  constructor(private readonly options: WebRtcAudioPeerOptions) {
+    this.inputResampler = new Pcm16Resampler(OPUS_GRANULE_RATE, options.inputSampleRate);
+    this.pc = new RTCPeerConnection({
+      iceServers: options.iceServers,
+      icePortRange: options.icePortRange,
+      codecs: {
+        audio: [new RTCRtpCodecParameters({ mimeType: 'audio/opus', clockRate: OPUS_GRANULE_RATE, channels: 2 })],
+      },
+    });
+
+    this.pc.onIceCandidate.subscribe((candidate) => options.onIceCandidate(candidate ? candidate.toJSON() : null));
+    this.pc.connectionStateChange.subscribe((state) => this.setState(state));
+    this.pc.onDataChannel.subscribe((channel) => this.attachDataChannel(channel));
+    this.pc.onTrack.subscribe((track) => {
+      if (track.kind === 'audio') {
+        track.onReceiveRtp.subscribe((rtp) => this.receiveRtp(rtp));
+      }
+    });
+  }
+
+  getState(): WebRtcPeerState {
+    return this.state;
+  }
+
+  /** True once translated audio can go out over the track instead of the WebSocket. */
+  get outputActive(): boolean {
+    return this.state === 'connected' && this.transceiver !== undefined;
+  }
+
+  /** True once the browser sends RTP, chunks on the socket are then redundant. */
+  get inputActive(): boolean {
+    return this.state === 'connected' && this.receivingRtp;
+  }
+
+  /** Applies the browser offer and returns the answer SDP; candidates follow via `onIceCandidate`. */
+  async answer(offerSdp: string): Promise<string> {
+    await this.pc.setRemoteDescription({ type: 'offer', sdp: offerSdp });
+    if (this.pc.getTransceivers().length === 0 && !this.pc.sctpTransport) {
+      throw new Error('Offer contains neither an audio track nor a DataChannel');
+    }
+    // Ohne Audio-m-Line im Offer (nur DataChannel) bleibt es beim WebSocket für die Ausgabe
+    this.transceiver = this.pc.getTransceivers().find((transceiver) => transceiver.kind === 'audio');
+    if (this.transceiver) {
+      await this.transceiver.sender.replaceTrack(this.outputTrack);
+      this.transceiver.setDirection('sendrecv');
+    }
+    const answer = await this.pc.createAnswer();
+    await this.pc.setLocalDescription(answer);
+    return this.pc.localDescription.sdp;
+  }
+
+  async addIceCandidate(candidate: IceCandidateInit | null): Promise<void> {
+    if (candidate?.candidate) {
+      await this.pc.addIceCandidate(
+        new RTCIceCandidate({
+          candidate: candidate.candidate,
+          sdpMid: candidate.sdpMid ?? undefined,
+          sdpMLineIndex: candidate.sdpMLineIndex ?? undefined,
+          usernameFragment: candidate.usernameFragment ?? undefined,
+        }),
+      );
+    }
+  }
+
+  /** Queues upstream PCM16 mono for the output track; a new `itemId` restarts the played-time count. */
+  sendPcm(pcm: Buffer, sampleRate: number, itemId?: string): void {
+    if (this.closed || !this.outputActive) {
+      return;
+    }
+    if (itemId !== this.outputItemId) {
+      this.outputItemId = itemId;
+      this.outputItemPackets = 0;
+    }
+    if (this.outputResampler?.fromRate !== sampleRate) {
+      this.outputResampler = new Pcm16Resampler(sampleRate, OPUS_GRANULE_RATE);
+    }
+
+    const frameBytes = OPUS_FRAME_SAMPLES * 2;
+    this.pendingPcm = Buffer.concat([this.pendingPcm, this.outputResampler.process(pcm)]);
+    let offset = 0;
+    for (; offset + frameBytes <= this.pendingPcm.length; offset += frameBytes) {
+      const frame = this.pendingPcm.subarray(offset, offset + frameBytes);
+      this.outputQueue.push(Buffer.from(this.encoder.encode(frame, OPUS_FRAME_SAMPLES)));
+    }
+    this.pendingPcm = Buffer.from(this.pendingPcm.subarray(offset));
+    this.startPacer();
+  }
+
+  /**
+   * Barge-in: drops the audio that has not been sent yet and returns how many
+   * ms of the current item went out, as the played time for the truncation.
+   */
+  flush(): { itemId?: string; playedMs: number } {
+    const flushed = { itemId: this.outputItemId, playedMs: this.outputItemPackets * OPUS_FRAME_MS };
+    this.outputQueue = [];
+    this.pendingPcm = Buffer.alloc(0);
+    this.outputItemPackets = 0;
+    this.stopPacer();
+    return flushed;
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.stopPacer();
+    this.setState('closed');
+    this.pc.close().catch((err: Error) => this.logger.warn(`Closing peer connection failed: ${err.message}`));
+    // WASM-Speicher wird nicht vom GC freigegeben
+    this.decoder.delete();
+    this.encoder.delete();
+  }
+
+  private setState(state: WebRtcPeerState): void {
+    if (state !== this.state) {
+      this.state = state;
+      this.options.onStateChange(state);
+    }
+  }
+
+  private attachDataChannel(channel: RTCDataChannel): void {
+    this.logger.log(`DataChannel ${channel.label} opened`);
+    channel.onMessage.subscribe((data) => {
+      if (!this.closed) {
+        this.options.onDataChannelMessage(typeof data === 'string' ? Buffer.from(data) : data, typeof data !== 'string');
+      }
+    });
+  }
+
+  private receiveRtp(rtp: RtpPacket): void {
+    if (this.closed || rtp.payload.length === 0) {
+      return;
+    }
+    this.receivingRtp = true;
+    let pcm: Buffer;
+    try {
+      pcm = this.inputResampler.process(this.decoder.decode(rtp.payload));
+    } catch (err) {
+      this.logger.warn(`Dropping undecodable Opus packet: ${(err as Error).message}`);
+      return;
+    }
+    this.inputBatch.push(pcm);
+    this.inputBatchBytes += pcm.length;
+    this.inputEncodedBytes += rtp.payload.length;
+    if (this.inputBatchBytes >= (this.options.inputSampleRate * 2 * INPUT_BATCH_MS) / 1000) {
+      this.options.onPcm(Buffer.concat(this.inputBatch), this.inputEncodedBytes);
+      this.inputBatch = [];
+      this.inputBatchBytes = 0;
+      this.inputEncodedBytes = 0;
+    }
+  }
+
+  /** Sends one packet per 20 ms of wall clock, catching up after timer jitter. */
+  private startPacer(): void {
+    if (this.pacer || this.outputQueue.length === 0) {
+      return;
+    }
+    const now = Date.now();
+    // Nach einer Pause springt der RTP-Zeitstempel um die verstrichene Zeit, der Marker kennzeichnet den Neubeginn
+    if (this.lastPacketAt > 0) {
+      this.rtpTimestamp = (this.rtpTimestamp + Math.round(((now - this.lastPacketAt) * OPUS_GRANULE_RATE) / 1000)) >>> 0;
+    }
+    this.pacerStartedAt = now;
+    this.packetsSinceStart = 0;
+    this.writePacket(true);
+    this.pacer = setInterval(() => {
+      const due = Math.floor((Date.now() - this.pacerStartedAt) / OPUS_FRAME_MS) + 1;
+      while (this.packetsSinceStart < due && this.outputQueue.length > 0) {
+        this.writePacket(false);
+      }
+      if (this.outputQueue.length === 0) {
+        this.stopPacer();
+      }
+    }, OPUS_FRAME_MS);
+  }
+
+  private stopPacer(): void {
+    clearInterval(this.pacer);
+    this.pacer = undefined;
+  }
+
+  private writePacket(marker: boolean): void {
+    const payload = this.outputQueue.shift();
+    if (!marker) {
+      this.rtpTimestamp = (this.rtpTimestamp + OPUS_FRAME_SAMPLES) >>> 0;
+    }
+    this.sequenceNumber = (this.sequenceNumber + 1) & 0xffff;
+    const header = new RtpHeader({ sequenceNumber: this.sequenceNumber, timestamp: this.rtpTimestamp, marker });
+    this.outputTrack.writeRtp(new RtpPacket(header, payload));
+    this.packetsSinceStart++;
+    this.outputItemPackets++;
+    this.lastPacketAt = Date.now();
+  }
+}
@@ -5,6 +5,11 @@ export const msgTypes = z.enum({
   sound_data_from_ai: 'sound_data_from_ai',
   message: 'message',
   broadcast: 'broadcast',
+  session_configure: 'session_configure',
+  playback_flushed: 'playback_flushed',
+  playback_started: 'playback_started',
+  room_join: 'room_join',
+  room_leave: 'room_leave',
 });
 
 export const msgDataFromClientSchema = z.object({
@@ -12,7 +17,25 @@ export const msgDataFromClientSchema = z.object({
   message: z.string().optional(),
   chunk: z.string(),    // Base 64 encoded audio chunk
   sequence: z.number(),
+  sentAt: z.number().optional(), // Client-Zeitstempel (epoch ms) für die Latenz-Telemetrie
 });
 
 export type MsgDataFromClient = z.infer<typeof msgDataFromClientSchema>;
 
+
+export const roomRoles = z.enum({
+  speaker: 'speaker',
+  listener: 'listener',
+});
+
+export type RoomRole = z.infer<typeof roomRoles>;
+
+export const roomJoinSchema = z.object({
+  roomId: z.string().min(1).max(64),
+  role: roomRoles,
+  name: z.string().max(64).optional(), // Anzeigename für die anderen Teilnehmer
+  languages: z.array(z.string().min(2).max(16)).min(1).optional(), // Sprecher: zusätzliche Zielsprachen
+  language: z.string().min(2).max(16).optional(), // Zuhörer: Sprachkanal
+});
+
+export type RoomJoin = z.infer<typeof roomJoinSchema>;
@@ -0,0 +1,606 @@
+import { z } from 'zod';
+
+/**
+ * Wire protocol of the realtime gateway (`/realtime`).
+ *
+ * Every frame is a JSON object with a `type`. Clients may start with `hello`
+ * to negotiate the protocol version; clients that skip it are treated as
+ * speaking {@link DEFAULT_PROTOCOL_VERSION}.
+ *
+ * Audio is carried as base64 inside JSON by default. Clients that negotiate
+ * `audioTransport: 'binary'` (via `hello` or `?audio=binary`) receive output
+ * audio as binary frames, see `helper/BinaryAudioFrame.ts`; binary input
+ * frames are accepted in both modes.
+ */
+export const REALTIME_PATH = '/realtime';
+
+export const REALTIME_PROTOCOL_VERSION = '1.0';
+export const SUPPORTED_PROTOCOL_VERSIONS = ['1.0'] as const;
+export const DEFAULT_PROTOCOL_VERSION = '1.0';
+
+export const audioTransports = z.enum({
+  json: 'json',
+  binary: 'binary',
+});
+
+export type AudioTransport = z.infer<typeof audioTransports>;
+
+/** Audio codecs a client can negotiate in `hello`, see `helper/AudioTranscoder.ts`. */
+export const audioCodecs = z.enum({
+  pcm16: 'pcm16',
+  g711_ulaw: 'g711_ulaw',
+  g711_alaw: 'g711_alaw',
+  opus: 'opus',
+  webm: 'webm',
+});
+
+export type AudioCodec = z.infer<typeof audioCodecs>;
+
+export const audioFormatSchema = z.object({
+  codec: audioCodecs.describe('opus means an Ogg/Opus stream, webm a WebM/Opus stream'),
+  sampleRate: z.number().int().min(8000).max(48_000).optional().describe('Defaults to 24000, G.711 is always 8000'),
+  channels: z.number().int().min(1).max(2).optional().describe('Stereo input is mixed down to mono'),
+});
+
+export type AudioFormat = z.infer<typeof audioFormatSchema>;
+
+export const resolvedAudioFormatSchema = audioFormatSchema.required();
+
+export type ResolvedAudioFormat = z.infer<typeof resolvedAudioFormatSchema>;
+
+export const protocolErrorCodes = z.enum({
+  invalid_payload: 'invalid_payload',
+  invalid_binary_frame: 'invalid_binary_frame',
+  unknown_message_type: 'unknown_message_type',
+  missing_audio_data: 'missing_audio_data',
+  session_not_ready: 'session_not_ready',
+  unsupported_version: 'unsupported_version',
+  unauthorized: 'unauthorized',
+  token_expired: 'token_expired',
+  insufficient_scope: 'insufficient_scope',
+  rate_limited: 'rate_limited',
+  unknown_profile: 'unknown_profile',
+  profile_not_allowed: 'profile_not_allowed',
+  unknown_item: 'unknown_item',
+  unsupported_audio_format: 'unsupported_audio_format',
+  upstream_unavailable: 'upstream_unavailable',
+  upstream_error: 'upstream_error',
+});
+
+export type ProtocolErrorCode = z.infer<typeof protocolErrorCodes>;
+
+/**
+ * Stages of the audio path that are measured per session:
+ *
+ * - `client_to_server`: client `sentAt` → server receive (client clock vs. server clock, only as good as their sync)
+ * - `decode`: server receive → PCM out of the transcoder (ffmpeg, native decoder or resampler)
+ * - `upstream_response`: end of the user turn upstream (last audio chunk or commit) → first audio delta of the response
+ * - `playback_start`: first audio delta forwarded → client reports playback start (server clock)
+ * - `end_to_end`: last input chunk sent → playback start, both client clock
+ */
+export const latencyStages = z.enum({
+  client_to_server: 'client_to_server',
+  decode: 'decode',
+  upstream_response: 'upstream_response',
+  playback_start: 'playback_start',
+  end_to_end: 'end_to_end',
+});
+
+export type LatencyStage = z.infer<typeof latencyStages>;
+
+const base64Audio = z.string().min(1).describe('Base64 encoded audio in the negotiated format (PCM16 mono by default)');
+
+// ---------------------------------------------------------------------------
+// Client → Server
+// ---------------------------------------------------------------------------
+
+export const helloMessageSchema = z
+  .object({
+    type: z.literal('hello'),
+    versions: z.array(z.string()).min(1).describe('Protocol versions the client supports, preferred first'),
+    client: z.object({ name: z.string(), version: z.string().optional() }).optional(),
+    audioTransport: audioTransports.optional().describe('How output audio is delivered, defaults to json'),
+    audio: z
+      .object({
+        input: audioFormatSchema.optional().describe('Format of the audio the client sends'),
+        output: audioFormatSchema.optional().describe('Preferred format of the translated audio'),
+      })
+      .optional()
+      .describe('Audio formats, both default to PCM16 mono at 24 kHz'),
+    latencyReports: z.boolean().optional().describe('Send a latency message per response'),
+    record: z.boolean().optional().describe('Record the session (audio, translation and transcripts), same as ?record=true'),
+  })
+  .meta({ title: 'hello', description: 'Negotiates the protocol version, answered with hello.ack' });
+
+export const audioChunkMessageSchema = z
+  .object({
+    type: z.literal('audio.chunk'),
+    data: base64Audio,
+    sequence: z.number().int().nonnegative().optional(),
+    sentAt: z.number().optional().describe('Client timestamp (epoch ms) for latency telemetry'),
+  })
+  .meta({ title: 'audio.chunk', description: 'Appends input audio to the upstream buffer' });
+
+/** Frame sent by the frontend `AudioTransport`; accepted as an alias of `audio.chunk`. */
+export const legacyAudioMessageSchema = z
+  .object({
+    type: z.literal('audio'),
+    data: base64Audio,
+    sequence: z.number().int().nonnegative().optional(),
+    mimeType: z.string().optional(),
+    sampleRate: z.number().int().positive().optional(),
+    encoder: z.string().optional(),
+    timestamp: z.number().optional(),
+  })
+  .meta({
+    title: 'audio',
+    description: 'Deprecated alias of audio.chunk, frames without type are read as this message',
+    deprecated: true,
+  });
+
+/**
+ * Clients from before the versioned protocol send audio frames without `type`.
+ * They are kept working in every protocol version by reading them as `audio`.
+ */
+export function withLegacyAudioType(json: unknown): unknown {
+  if (json && typeof json === 'object' && !Array.isArray(json) && (json as { type?: unknown }).type === undefined) {
+    return { ...json, type: legacyAudioMessageSchema.shape.type.value };
+  }
+  return json;
+}
+
+export const audioCommitMessageSchema = z
+  .object({ type: z.literal('audio.commit') })
+  .meta({ title: 'audio.commit', description: 'Commits the buffered input audio as a user turn' });
+
+export const responseRequestMessageSchema = z
+  .object({
+    type: z.literal('response.request'),
+    instructions: z.string().optional(),
+  })
+  .meta({ title: 'response.request', description: 'Asks the upstream model to respond now' });
+
+const languageCode = z
+  .string()
+  .regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/)
+  .describe('BCP 47 language code, e.g. de or en-US');
+
+export const turnDetectionSchema = z.object({
+  type: z.enum(['server', 'semantic', 'none']),
+  threshold: z.number().min(0).max(1).optional(),
+  prefixPaddingMs: z.number().int().nonnegative().optional(),
+  silenceDurationMs: z.number().int().nonnegative().optional(),
+  eagerness: z.enum(['low', 'medium', 'high', 'auto']).optional(),
+});
+
+export const sessionConfigureMessageSchema = z
+  .object({
+    type: z.literal('session.configure'),
+    sourceLanguage: languageCode.optional(),
+    targetLanguage: languageCode.optional(),
+    voice: z.string().min(1).optional(),
+    instructions: z.string().min(1).optional(),
+    turnDetection: turnDetectionSchema.optional(),
+  })
+  .meta({
+    title: 'session.configure',
+    description: 'Changes language pair, voice, instructions or turn detection, answered with session.configured',
+  });
+
+export const playbackFlushedMessageSchema = z
+  .object({
+    type: z.literal('playback.flushed'),
+    itemId: z.string().optional().describe('itemId from playback.flush'),
+    playedMs: z.number().nonnegative().describe('Milliseconds of the interrupted item the listener actually heard'),
+  })
+  .meta({ title: 'playback.flushed', description: 'Reply to playback.flush, used to truncate the interrupted item' });
+
+export const playbackStartedMessageSchema = z
+  .object({
+    type: z.literal('playback.started'),
+    responseId: z.string().min(1),
+    startedAt: z.number().optional().describe('Client timestamp (epoch ms) the first audio of the response was audible'),
+  })
+  .meta({
+    title: 'playback.started',
+    description: 'Playback acknowledgement for latency telemetry, answered with a final latency report if enabled',
+  });
+
+export const conversationTextMessageSchema = z
+  .object({
+    type: z.literal('conversation.text'),
+    text: z.string().min(1),
+    respond: z.boolean().optional().describe('Request a response right away, defaults to true'),
+  })
+  .meta({ title: 'conversation.text', description: 'Adds a typed user message to the conversation' });
+
+export const conversationNoteMessageSchema = z
+  .object({
+    type: z.literal('conversation.note'),
+    text: z.string().min(1),
+  })
+  .meta({
+    title: 'conversation.note',
+    description: 'Adds a system note (e.g. names, context) that steers the following responses',
+  });
+
+export const conversationItemDeleteMessageSchema = z
+  .object({
+    type: z.literal('conversation.item.delete'),
+    itemId: z.string().min(1),
+  })
+  .meta({ title: 'conversation.item.delete', description: 'Removes an item, answered with conversation.item.deleted' });
+
+export const conversationItemRetrieveMessageSchema = z
+  .object({
+    type: z.literal('conversation.item.retrieve'),
+    itemId: z.string().min(1),
+  })
+  .meta({ title: 'conversation.item.retrieve', description: 'Fetches a single item, answered with conversation.item' });
+
+export const conversationGetMessageSchema = z
+  .object({ type: z.literal('conversation.get') })
+  .meta({ title: 'conversation.get', description: 'Fetches the whole conversation, answered with conversation.history' });
+
+export const webrtcOfferMessageSchema = z
+  .object({
+    type: z.literal('offer'),
+    sdp: z.string().min(1),
+  })
+  .meta({
+    title: 'offer',
+    description: 'SDP offer for the server-side WebRTC endpoint, answered with answer or fallback',
+  });
+
+/** `RTCIceCandidateInit` as produced by `RTCIceCandidate.toJSON()`, browsers send null for unknown fields. */
+export const iceCandidateInitSchema = z.object({
+  candidate: z.string().max(1024).describe('candidate-attribute line, empty for end-of-candidates'),
+  sdpMid: z.string().nullish(),
+  sdpMLineIndex: z.number().int().nonnegative().nullish(),
+  usernameFragment: z.string().nullish(),
+});
+
+export type IceCandidateInit = z.infer<typeof iceCandidateInitSchema>;
+
+export const webrtcIceMessageSchema = z
+  .object({
+    type: z.literal('ice'),
+    candidate: iceCandidateInitSchema.nullable().describe('RTCIceCandidateInit, null ends gathering'),
+  })
+  .meta({ title: 'ice', description: 'Trickle ICE candidate of the browser' });
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  helloMessageSchema,
+  audioChunkMessageSchema,
+  legacyAudioMessageSchema,
+  audioCommitMessageSchema,
+  responseRequestMessageSchema,
+  sessionConfigureMessageSchema,
+  playbackFlushedMessageSchema,
+  playbackStartedMessageSchema,
+  conversationTextMessageSchema,
+  conversationNoteMessageSchema,
+  conversationItemDeleteMessageSchema,
+  conversationItemRetrieveMessageSchema,
+  conversationGetMessageSchema,
+  webrtcOfferMessageSchema,
+  webrtcIceMessageSchema,
+]);
+
+export type HelloMessage = z.infer<typeof helloMessageSchema>;
+export type AudioChunkMessage = z.infer<typeof audioChunkMessageSchema>;
+export type LegacyAudioMessage = z.infer<typeof legacyAudioMessageSchema>;
+export type SessionConfigureMessage = z.infer<typeof sessionConfigureMessageSchema>;
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ClientMessageType = ClientMessage['type'];
+
+export const CLIENT_MESSAGE_TYPES: ClientMessageType[] = clientMessageSchema.options.map(
+  (option) => option.shape.type.value,
+);
+
+// ---------------------------------------------------------------------------
+// Server → Client
+// ---------------------------------------------------------------------------
+
+const quotaSnapshotSchema = z.object({
+  windowMs: z.number(),
+  bytes: z.object({ limit: z.number(), remaining: z.number() }),
+  messages: z.object({ limit: z.number(), remaining: z.number() }),
+  audioSeconds: z.object({ limit: z.number(), remaining: z.number(), resetsAt: z.string() }),
+  sessions: z.object({ limit: z.number(), active: z.number() }),
+});
+
+export const helloAckMessageSchema = z
+  .object({
+    type: z.literal('hello.ack'),
+    version: z.string(),
+    sessionId: z.string(),
+    audioTransport: audioTransports,
+    audio: z.object({ input: resolvedAudioFormatSchema, output: resolvedAudioFormatSchema }),
+    recording: z.boolean().describe('The session is being recorded'),
+  })
+  .meta({ title: 'hello.ack', description: 'Confirms the negotiated protocol version and audio formats' });
+
+export const readyMessageSchema = z
+  .object({
+    type: z.literal('ready'),
+    sessionId: z.string(),
+    protocolVersion: z.string(),
+    supportedVersions: z.array(z.string()),
+    audioTransport: audioTransports,
+    rateLimit: z.object({ bytes: z.number(), windowMs: z.number() }),
+    quota: quotaSnapshotSchema,
+    recording: z.boolean().describe('The session is being recorded, requested with ?record=true'),
+  })
+  .meta({ title: 'ready', description: 'Upstream session is connected, audio may be sent' });
+
+export const ttsChunkMessageSchema = z
+  .object({
+    type: z.literal('tts-chunk'),
+    data: base64Audio,
+    format: z.string(),
+    sampleRate: z.number(),
+    responseId: z.string().optional(),
+    itemId: z.string().optional(),
+  })
+  .meta({ title: 'tts-chunk', description: 'Translated output audio' });
+
+export const sessionConfiguredMessageSchema = z
+  .object({
+    type: z.literal('session.configured'),
+    session: z.object({
+      sessionId: z.string().optional().describe('Upstream session id'),
+      model: z.string(),
+      voice: z.string(),
+      sourceLanguage: z.string(),
+      targetLanguage: z.string(),
+      instructions: z.string(),
+      turnDetection: turnDetectionSchema,
+      transcriptionModel: z.string(),
+      inputSampleRate: z.number(),
+      outputSampleRate: z.number(),
+    }),
+  })
+  .meta({ title: 'session.configured', description: 'Session settings after OpenAI applied session.configure' });
+
+const transcriptFields = {
+  source: z.enum(['input', 'output']).describe('input: what the speaker said, output: the translation'),
+  text: z.string(),
+  itemId: z.string().optional(),
+  responseId: z.string().optional(),
+  timestamp: z.string().describe('ISO 8601 time the server received the text'),
+};
+
+export const transcriptPartialMessageSchema = z
+  .object({
+    type: z.literal('transcript.partial'),
+    ...transcriptFields,
+    delta: z.string(),
+  })
+  .meta({ title: 'transcript.partial', description: 'Transcript so far (text) plus the newly received delta' });
+
+export const transcriptFinalMessageSchema = z
+  .object({
+    type: z.literal('transcript.final'),
+    ...transcriptFields,
+  })
+  .meta({ title: 'transcript.final', description: 'Complete transcript of an input item or output response' });
+
+export const playbackFlushMessageSchema = z
+  .object({
+    type: z.literal('playback.flush'),
+    responseId: z.string().optional(),
+    itemId: z.string().optional(),
+    reason: z.enum(['speech_started']),
+    audioSentMs: z.number().describe('Output audio sent for the item so far'),
+    truncated: z
+      .boolean()
+      .optional()
+      .describe('Output runs over the WebRTC track, the server already truncated the item; no playback.flushed needed'),
+  })
+  .meta({
+    title: 'playback.flush',
+    description: 'Barge-in: drop all queued output audio now and answer with playback.flushed',
+  });
+
+export const ttsStartMessageSchema = z
+  .object({
+    type: z.literal('tts.start'),
+    responseId: z.string().optional(),
+    itemId: z.string().optional(),
+    format: z.string(),
+    sampleRate: z.number(),
+  })
+  .meta({
+    title: 'tts.start',
+    description: 'Binary transport only: the following binary frames belong to this response',
+  });
+
+export const conversationItemSchema = z.object({
+  id: z.string(),
+  type: z.enum(['message', 'function_call', 'function_call_output']),
+  role: z.enum(['user', 'assistant', 'system']).optional(),
+  text: z.string().describe('Typed text or audio transcript; arguments or output for function items'),
+  status: z.string().optional(),
+  name: z.string().optional().describe('Function name of function_call items'),
+  callId: z.string().optional(),
+  audioEndMs: z.number().optional().describe('Played length if the item was truncated by a barge-in'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type ConversationItem = z.infer<typeof conversationItemSchema>;
+
+export const conversationItemMessageSchema = z
+  .object({
+    type: z.literal('conversation.item'),
+    item: conversationItemSchema,
+  })
+  .meta({ title: 'conversation.item', description: 'Reply to conversation.item.retrieve' });
+
+export const conversationItemDeletedMessageSchema = z
+  .object({
+    type: z.literal('conversation.item.deleted'),
+    itemId: z.string(),
+  })
+  .meta({ title: 'conversation.item.deleted', description: 'An item was removed from the conversation' });
+
+export const conversationHistoryMessageSchema = z
+  .object({
+    type: z.literal('conversation.history'),
+    sessionId: z.string(),
+    items: z.array(conversationItemSchema),
+  })
+  .meta({ title: 'conversation.history', description: 'Reply to conversation.get, items in conversation order' });
+
+export const sessionReconnectingMessageSchema = z
+  .object({
+    type: z.literal('session.reconnecting'),
+    attempt: z.number().int(),
+    maxRetries: z.number().int(),
+    delayMs: z.number(),
+    reason: z.string(),
+  })
+  .meta({
+    title: 'session.reconnecting',
+    description: 'Upstream connection lost, input audio is buffered until session.reconnected',
+  });
+
+export const sessionReconnectedMessageSchema = z
+  .object({
+    type: z.literal('session.reconnected'),
+    attempt: z.number().int(),
+    replayedItems: z.number().int().describe('Conversation entries replayed as context into the new upstream session'),
+    resumedAudioMs: z.number().describe('Buffered input audio sent after the reconnect'),
+    droppedAudioMs: z.number().describe('Input audio dropped because the buffer was full or too old'),
+  })
+  .meta({ title: 'session.reconnected', description: 'Upstream session resumed with the previous settings' });
+
+export const sessionGaveUpMessageSchema = z
+  .object({
+    type: z.literal('session.gave_up'),
+    attempts: z.number().int(),
+    reason: z.string(),
+  })
+  .meta({ title: 'session.gave_up', description: 'Reconnecting failed, the connection is closed afterwards' });
+
+export const latencyMessageSchema = z
+  .object({
+    type: z.literal('latency'),
+    responseId: z.string().optional(),
+    itemId: z.string().optional(),
+    stages: z.partialRecord(latencyStages, z.number()).describe('Milliseconds per measured stage'),
+    final: z.boolean().describe('false at the first audio of the response, true after playback.started'),
+  })
+  .meta({ title: 'latency', description: 'Latency of one response per stage, sent when enabled in hello' });
+
+export const webrtcAnswerMessageSchema = z
+  .object({
+    type: z.literal('answer'),
+    sdp: z.string(),
+  })
+  .meta({ title: 'answer', description: 'SDP answer of the server-side WebRTC endpoint' });
+
+export const webrtcIceCandidateMessageSchema = z
+  .object({
+    type: z.literal('ice'),
+    candidate: z
+      .object({
+        candidate: z.string(),
+        sdpMid: z.string().optional(),
+        sdpMLineIndex: z.number().optional(),
+        usernameFragment: z.string().optional(),
+      })
+      .nullable(),
+  })
+  .meta({ title: 'ice', description: 'Trickle ICE candidate of the server, null ends gathering' });
+
+export const webrtcStateMessageSchema = z
+  .object({
+    type: z.literal('webrtc.state'),
+    state: z.enum(['new', 'connecting', 'connected', 'disconnected', 'failed', 'closed']),
+    input: z.boolean().describe('Input audio is taken from the RTP track, audio chunks on the socket are ignored'),
+    output: z.boolean().describe('Output audio goes over the track instead of tts-chunk or binary frames'),
+  })
+  .meta({ title: 'webrtc.state', description: 'State of the peer connection; on failed the socket takes over again' });
+
+export const fallbackMessageSchema = z
+  .object({
+    type: z.literal('fallback'),
+    reason: z.string(),
+  })
+  .meta({ title: 'fallback', description: 'No WebRTC for this session, keep streaming over the WebSocket' });
+
+export const errorMessageSchema = z
+  .object({
+    type: z.literal('error'),
+    code: protocolErrorCodes,
+    /** Same value as `code`, kept for clients written against the unversioned protocol. */
+    reason: protocolErrorCodes.describe('Deprecated alias of code'),
+    message: z.string(),
+    retryAfterMs: z.number().optional(),
+    limit: z.string().optional(),
+    scope: z.string().optional(),
+    supportedVersions: z.array(z.string()).optional(),
+    details: z.unknown().optional(),
+  })
+  .meta({ title: 'error', description: 'Structured error; the connection stays open unless it is closed separately' });
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  helloAckMessageSchema,
+  readyMessageSchema,
+  ttsChunkMessageSchema,
+  ttsStartMessageSchema,
+  sessionConfiguredMessageSchema,
+  transcriptPartialMessageSchema,
+  transcriptFinalMessageSchema,
+  playbackFlushMessageSchema,
+  conversationItemMessageSchema,
+  conversationItemDeletedMessageSchema,
+  conversationHistoryMessageSchema,
+  sessionReconnectingMessageSchema,
+  sessionReconnectedMessageSchema,
+  sessionGaveUpMessageSchema,
+  latencyMessageSchema,
+  webrtcAnswerMessageSchema,
+  webrtcIceCandidateMessageSchema,
+  webrtcStateMessageSchema,
+  fallbackMessageSchema,
+  errorMessageSchema,
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type LatencyMessage = z.infer<typeof latencyMessageSchema>;
+export type ErrorMessage = z.infer<typeof errorMessageSchema>;
+
+const ERROR_MESSAGES: Record<ProtocolErrorCode, string> = {
+  invalid_payload: 'The message is not valid JSON or does not match the protocol schema.',
+  invalid_binary_frame: 'The binary frame header is malformed or uses an unknown audio format.',
+  unknown_message_type: 'The message type is not part of the protocol.',
+  missing_audio_data: 'Audio messages require base64 encoded data.',
+  session_not_ready: 'The upstream session is still connecting.',
+  unsupported_version: 'None of the requested protocol versions is supported.',
+  unauthorized: 'The connection is not authenticated.',
+  token_expired: 'The access token has expired.',
+  insufficient_scope: 'The credentials lack the scope required for this message.',
+  rate_limited: 'A rate limit or quota was exceeded.',
+  unknown_profile: 'The requested upstream profile does not exist.',
+  profile_not_allowed: 'The credentials are not allowed to use the requested upstream profile.',
+  unknown_item: 'The conversation has no item with this id.',
+  unsupported_audio_format: 'The requested audio codec, sample rate or channel count is not supported.',
+  upstream_unavailable: 'The upstream realtime service could not be reached.',
+  upstream_error: 'The upstream realtime service reported an error.',
+};
+
+/** Builds a structured error frame with the default message for its code. */
+export function protocolError(
+  code: ProtocolErrorCode,
+  extra: Partial<Omit<ErrorMessage, 'type' | 'code' | 'reason'>> = {},
+): ErrorMessage {
+  return { type: 'error', code, reason: code, message: ERROR_MESSAGES[code], ...extra };
+}
+
+/** Picks the first client version the server supports, `null` if there is none. */
+export function negotiateProtocolVersion(requested: string[]): string | null {
+  return requested.find((version) => (SUPPORTED_PROTOCOL_VERSIONS as readonly string[]).includes(version)) ?? null;
+}
@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+/**
+ * Wire protocol of the WebRTC signaling gateway (`/signaling`).
+ *
+ * Every frame is a JSON object with a `type`. Peers are addressed by the id
+ * the server assigns in `welcome`; `from` is always set by the server, a value
+ * sent by the client is ignored. Offers, answers and ICE candidates are only
+ * relayed between peers of the same room.
+ */
+export const SIGNALING_PATH = '/signaling';
+
+export const DEFAULT_SIGNALING_ROOM = 'default';
+
+const peerId = z.string().min(1).max(64);
+const roomId = z.string().min(1).max(64);
+
+/** `RTCSessionDescriptionInit` as produced by `pc.localDescription`. */
+const sessionDescriptionSchema = z.object({
+  type: z.enum(['offer', 'answer', 'pranswer', 'rollback']),
+  sdp: z.string().optional(),
+});
+
+export const signalingJoinMessageSchema = z
+  .object({
+    type: z.literal('join'),
+    room: roomId,
+    name: z.string().max(64).optional(),
+  })
+  .meta({ title: 'join', description: 'Switches to another room, answered with welcome' });
+
+export const signalingLeaveMessageSchema = z
+  .object({ type: z.literal('leave') })
+  .meta({ title: 'leave', description: 'Leaves the room, the connection stays open' });
+
+export const signalingOfferMessageSchema = z
+  .object({
+    type: z.literal('offer'),
+    to: peerId.optional().describe('Without to the offer is meant for the server, answered with fallback'),
+    offer: sessionDescriptionSchema.optional(),
+    sdp: z.string().optional().describe('Plain SDP instead of offer, as sent by AudioTransport'),
+  })
+  .meta({ title: 'offer', description: 'SDP offer, relayed to the peer with from' });
+
+export const signalingAnswerMessageSchema = z
+  .object({
+    type: z.literal('answer'),
+    to: peerId,
+    answer: sessionDescriptionSchema.optional(),
+    sdp: z.string().optional(),
+  })
+  .meta({ title: 'answer', description: 'SDP answer, relayed to the peer with from' });
+
+export const signalingIceMessageSchema = z
+  .object({
+    type: z.literal('ice'),
+    to: peerId,
+    candidate: z.record(z.string(), z.unknown()).describe('RTCIceCandidateInit'),
+  })
+  .meta({ title: 'ice', description: 'ICE candidate, relayed to the peer with from' });
+
+export const signalingMuteMessageSchema = z
+  .object({
+    type: z.literal('mute'),
+    muted: z.boolean(),
+  })
+  .meta({ title: 'mute', description: 'Mute state of the own microphone, broadcast to the room' });
+
+export const signalingClientMessageSchema = z.discriminatedUnion('type', [
+  signalingJoinMessageSchema,
+  signalingLeaveMessageSchema,
+  signalingOfferMessageSchema,
+  signalingAnswerMessageSchema,
+  signalingIceMessageSchema,
+  signalingMuteMessageSchema,
+]);
+
+export type SignalingClientMessage = z.infer<typeof signalingClientMessageSchema>;
+
+export const signalingErrorReasons = z.enum({
+  invalid_payload: 'invalid_payload',
+  unauthorized: 'unauthorized',
+  room_full: 'room_full',
+  not_in_room: 'not_in_room',
+  peer_not_found: 'peer_not_found',
+});
+
+export type SignalingErrorReason = z.infer<typeof signalingErrorReasons>;
+
+/** Presence of a peer as seen by the other peers of its room. */
+export interface PeerPresence {
+  id: string;
+  name?: string;
+  muted: boolean;
+  joinedAt: string;
+}
@@ -0,0 +1,54 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import {
+  AudioCodecBackend,
+  audioCodecBackends,
+  createInputTranscoder,
+  createOutputTranscoder,
+  InputTranscoder,
+  OutputTranscoder,
+} from '../helper/AudioTranscoder';
+import { ResolvedAudioFormat } from '../models/realtime-protocol.model';
+
+export const AUDIO_CODEC_CONFIG = 'AUDIO_CODEC_CONFIG';
+
+export interface AudioCodecConfig {
+  /** Decoder for WebM and Ogg/Opus input, see {@link audioCodecBackends}. */
+  backend: AudioCodecBackend;
+}
+
+/** Reads `AUDIO_CODEC_BACKEND` (`ffmpeg` (default) or `native`) from the environment. */
+export function loadAudioCodecConfig(env: NodeJS.ProcessEnv = process.env): AudioCodecConfig {
+  return { backend: audioCodecBackends.parse(env.AUDIO_CODEC_BACKEND ?? audioCodecBackends.enum.ffmpeg) };
+}
+
+/**
+ * Creates the audio transcoders of all gateways with the configured codec
+ * backend. Callers own the transcoders and must `close()` them on disconnect.
+ */
+@Injectable()
+export class AudioCodecService {
+  private readonly logger = new Logger(AudioCodecService.name);
+  private readonly config: AudioCodecConfig;
+
+  constructor(@Optional() @Inject(AUDIO_CODEC_CONFIG) config?: AudioCodecConfig) {
+    this.config = config ?? loadAudioCodecConfig();
+    this.logger.log(`Audio codec backend: ${this.config.backend}`);
+  }
+
+  getBackend(): AudioCodecBackend {
+    return this.config.backend;
+  }
+
+  createInputTranscoder(
+    format: ResolvedAudioFormat,
+    targetRate: number,
+    onPcm: (pcm: Buffer) => void,
+    onError?: (err: Error) => void,
+  ): InputTranscoder {
+    return createInputTranscoder(format, targetRate, onPcm, onError, this.config.backend);
+  }
+
+  createOutputTranscoder(format: ResolvedAudioFormat, sourceRate: number): OutputTranscoder {
+    return createOutputTranscoder(format, sourceRate);
+  }
+}
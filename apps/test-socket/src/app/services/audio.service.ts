@@ -105,6 +105,10 @@ export class OwnAudioService {
     }
   }
 
+  getAudioDirectory(): string {
+    return this.audioDirectory;
+  }
+
   getAvailableAudioFiles(): AudioFile[] {
     try {
       if (!fs.existsSync(this.audioDirectory)) {
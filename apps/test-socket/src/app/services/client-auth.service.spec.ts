@@ -0,0 +1,150 @@
+import { IncomingMessage } from 'http';
+import {
+  ALL_CLIENT_SCOPES,
+  ClientAuthConfig,
+  ClientAuthService,
+  ClientPrincipal,
+  DEV_CLIENT_API_KEY,
+  loadClientAuthConfig,
+} from './client-auth.service';
+
+const NOW = Date.parse('2026-01-01T12:00:00.000Z');
+
+function request(url: string, headers: IncomingMessage['headers'] = {}): IncomingMessage {
+  return { url, headers } as IncomingMessage;
+}
+
+describe('ClientAuthService', () => {
+  const config: ClientAuthConfig = {
+    ...loadClientAuthConfig({
+      CLIENT_API_KEYS: JSON.stringify({
+        full: { scopes: ALL_CLIENT_SCOPES, profiles: ['*'] },
+        azure: { scopes: ['realtime:stream'], profiles: ['azure'] },
+        plain: ['realtime:stream'],
+      }),
+    }),
+    tokenSecret: 'spec-secret',
+    defaultTokenTtlSeconds: 60,
+    maxTokenTtlSeconds: 120,
+  };
+  let auth: ClientAuthService;
+  let principal: ClientPrincipal;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    auth = new ClientAuthService(config);
+    principal = auth.authenticateApiKey('full');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('authenticates API keys without exposing them', () => {
+    expect(principal).toMatchObject({ method: 'api-key', scopes: ALL_CLIENT_SCOPES });
+    expect(principal.keyId).not.toContain('full');
+    expect(auth.authenticateApiKey('wrong')).toBeNull();
+    expect(auth.authenticateApiKey(undefined)).toBeNull();
+  });
+
+  it.each(['jwt', 'hmac'] as const)('accepts %s tokens until they expire', (format) => {
+    const issued = auth.issueToken(principal, format);
+    expect(issued.expiresAt).toBe('2026-01-01T12:01:00.000Z');
+
+    expect(auth.authenticate({ token: issued.token })).toEqual({
+      keyId: principal.keyId,
+      scopes: ALL_CLIENT_SCOPES,
+      method: format,
+      expiresAt: NOW + 60_000,
+    });
+
+    jest.spyOn(Date, 'now').mockReturnValue(NOW + 60_000);
+    expect(auth.authenticate({ token: issued.token })).toBeNull();
+  });
+
+  it.each(['jwt', 'hmac'] as const)('rejects %s tokens with a foreign signature', (format) => {
+    const issued = auth.issueToken(principal, format);
+    const foreign = new ClientAuthService({ ...config, tokenSecret: 'other-secret' });
+    expect(foreign.authenticate({ token: issued.token })).toBeNull();
+    expect(auth.authenticate({ token: issued.token.replace(/.$/, (last) => (last === 'A' ? 'B' : 'A')) })).toBeNull();
+  });
+
+  it('does not accept tokens as API keys', () => {
+    const issued = auth.issueToken(principal, 'hmac');
+    expect(auth.authenticateApiKey(issued.token)).toBeNull();
+  });
+
+  it('narrows scopes to the key and caps the TTL', () => {
+    const limited = auth.authenticateApiKey('plain');
+    const issued = auth.issueToken(limited, 'jwt', 3600, ['realtime:stream', 'realtime:admin']);
+    expect(issued.scopes).toEqual(['realtime:stream']);
+    expect(issued.expiresAt).toBe('2026-01-01T12:02:00.000Z');
+    expect(auth.authenticate({ token: issued.token })?.scopes).toEqual(['realtime:stream']);
+  });
+
+  it('reports expiry of token principals', () => {
+    const tokenPrincipal = auth.authenticate({ token: auth.issueToken(principal).token });
+    expect(auth.isExpired(tokenPrincipal)).toBe(false);
+    expect(auth.isExpired(tokenPrincipal, NOW + 60_000)).toBe(true);
+    expect(auth.isExpired(principal, Number.MAX_SAFE_INTEGER)).toBe(false);
+  });
+
+  it('only allows profiles granted to the key, also for its tokens', () => {
+    const azure = auth.authenticateApiKey('azure');
+    const plain = auth.authenticateApiKey('plain');
+
+    expect(auth.canUseProfile(principal, 'anything')).toBe(true);
+    expect(auth.canUseProfile(azure, 'azure')).toBe(true);
+    expect(auth.canUseProfile(azure, 'other')).toBe(false);
+    expect(auth.canUseProfile(plain, 'azure')).toBe(false);
+    expect(auth.canUseProfile(plain, undefined)).toBe(true);
+    expect(auth.canUseProfile(null, 'azure')).toBe(false);
+    expect(auth.canUseProfile(auth.authenticate({ token: auth.issueToken(azure, 'hmac').token }), 'azure')).toBe(true);
+  });
+
+  it('reads WebSocket credentials from subprotocols, query and headers', () => {
+    expect(auth.extractCredentials(request('/realtime', { 'sec-websocket-protocol': 'realtime, apikey.abc' }))).toEqual({
+      apiKey: 'abc',
+      token: undefined,
+    });
+    expect(auth.extractCredentials(request('/realtime?token=t1&api_key=k1'))).toEqual({ apiKey: 'k1', token: 't1' });
+    expect(auth.extractCredentials(request('/realtime', { 'x-api-key': 'k2', authorization: 'Bearer t2' }))).toEqual({
+      apiKey: 'k2',
+      token: 't2',
+    });
+  });
+
+  it('authenticates REST requests by API key only', () => {
+    expect(auth.authenticateHttpRequest({ headers: { 'x-api-key': 'full' } })?.keyId).toBe(principal.keyId);
+    expect(auth.authenticateHttpRequest({ headers: { authorization: 'Bearer full' } })?.keyId).toBe(principal.keyId);
+    const issued = auth.issueToken(principal);
+    expect(auth.authenticateHttpRequest({ headers: { authorization: `Bearer ${issued.token}` } })).toBeNull();
+  });
+});
+
+describe('loadClientAuthConfig', () => {
+  it('grants the CLIENT_API_KEY fallback all scopes and profiles', () => {
+    expect(loadClientAuthConfig({ CLIENT_API_KEY: 'k' }).apiKeys).toEqual([
+      expect.objectContaining({ key: 'k', scopes: ALL_CLIENT_SCOPES, profiles: ['*'] }),
+    ]);
+  });
+
+  it('accepts no key without configuration', () => {
+    expect(loadClientAuthConfig({}).apiKeys).toEqual([]);
+    expect(loadClientAuthConfig({ CLIENT_AUTH_DEV_KEY: '1' }).apiKeys).toEqual([]);
+  });
+
+  it('only falls back to the development key when asked to', () => {
+    expect(loadClientAuthConfig({ CLIENT_AUTH_DEV_KEY: 'true' }).apiKeys).toEqual([
+      expect.objectContaining({ key: DEV_CLIENT_API_KEY, scopes: ALL_CLIENT_SCOPES }),
+    ]);
+    // Ein konfigurierter Key hat Vorrang
+    expect(loadClientAuthConfig({ CLIENT_AUTH_DEV_KEY: 'true', CLIENT_API_KEY: 'k' }).apiKeys).toEqual([
+      expect.objectContaining({ key: 'k' }),
+    ]);
+  });
+
+  it('rejects unknown scopes', () => {
+    expect(() => loadClientAuthConfig({ CLIENT_API_KEYS: JSON.stringify({ k: ['root'] }) })).toThrow();
+  });
+});
@@ -0,0 +1,354 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { IncomingMessage } from 'node:http';
+import { z } from 'zod';
+
+export const CLIENT_AUTH_CONFIG = 'CLIENT_AUTH_CONFIG';
+export const CLIENT_AUTH_STRATEGIES = 'CLIENT_AUTH_STRATEGIES';
+
+/** Close code used by every gateway when a client is (or becomes) unauthenticated. */
+export const UNAUTHORIZED_CLOSE_CODE = 4401;
+
+export const clientScopes = z.enum({
+  stream: 'realtime:stream',
+  respond: 'realtime:respond',
+  configure: 'realtime:configure',
+  admin: 'realtime:admin',
+});
+
+export type ClientScope = z.infer<typeof clientScopes>;
+
+export const ALL_CLIENT_SCOPES: ClientScope[] = clientScopes.options;
+
+export type TokenFormat = 'jwt' | 'hmac';
+
+export interface ClientPrincipal {
+  /** Identifier of the API key the client authenticated with (never the key itself). */
+  keyId: string;
+  scopes: ClientScope[];
+  method: 'api-key' | TokenFormat;
+  /** Epoch milliseconds after which the credentials are no longer valid. */
+  expiresAt?: number;
+}
+
+export interface ClientApiKey {
+  id: string;
+  key: string;
+  scopes: ClientScope[];
+  /** Upstream profiles the key may select with `?profile=`, {@link ALL_PROFILES} for any. */
+  profiles: string[];
+}
+
+export interface ClientAuthConfig {
+  apiKeys: ClientApiKey[];
+  tokenSecret: string;
+  defaultTokenTtlSeconds: number;
+  maxTokenTtlSeconds: number;
+}
+
+/** Credentials extracted from a WebSocket upgrade request. */
+export interface ClientCredentials {
+  apiKey?: string;
+  token?: string;
+}
+
+/** Pluggable authentication step; the first strategy returning a principal wins. */
+export interface ClientAuthStrategy {
+  readonly name: string;
+  authenticate(credentials: ClientCredentials): ClientPrincipal | null;
+}
+
+export interface IssuedToken {
+  token: string;
+  format: TokenFormat;
+  scopes: ClientScope[];
+  expiresAt: string;
+}
+
+/** Allows every upstream profile, granted to the `CLIENT_API_KEY` fallback. */
+export const ALL_PROFILES = '*';
+
+/** Well-known key of local setups, only accepted with `CLIENT_AUTH_DEV_KEY=true`. */
+export const DEV_CLIENT_API_KEY = 'dev-key';
+
+const apiKeysSchema = z.record(
+  z.string(),
+  z.union([
+    z.array(clientScopes),
+    z.object({ scopes: z.array(clientScopes), profiles: z.array(z.string()).default([]) }),
+  ]),
+);
+
+const TOKEN_PROTOCOL_PREFIX = 'token.';
+const API_KEY_PROTOCOL_PREFIX = 'apikey.';
+const HMAC_TOKEN_VERSION = 'v1';
+
+/**
+ * Reads client authentication settings from the environment:
+ *
+ * - `CLIENT_API_KEYS`: JSON object mapping API keys to scopes, e.g. `{"abc": ["realtime:stream"]}`,
+ *   or to scopes and upstream profiles, e.g. `{"abc": {"scopes": ["realtime:stream"], "profiles": ["azure"]}}`;
+ *   keys without `profiles` only get the default upstream
+ * - `CLIENT_API_KEY`: single key with all scopes and profiles, used when `CLIENT_API_KEYS` is unset
+ * - `CLIENT_AUTH_DEV_KEY`: `true` accepts {@link DEV_CLIENT_API_KEY} when neither is set; without any
+ *   key only tokens work, which cannot be issued either, so every client is rejected
+ * - `CLIENT_TOKEN_SECRET`: HMAC secret for issued tokens (random per process when unset)
+ * - `CLIENT_TOKEN_TTL_SECONDS`, `CLIENT_TOKEN_MAX_TTL_SECONDS`
+ */
+export function loadClientAuthConfig(env: NodeJS.ProcessEnv = process.env): ClientAuthConfig {
+  const fallbackKey = env.CLIENT_API_KEY || (env.CLIENT_AUTH_DEV_KEY === 'true' ? DEV_CLIENT_API_KEY : undefined);
+  const keyGrants = env.CLIENT_API_KEYS
+    ? apiKeysSchema.parse(JSON.parse(env.CLIENT_API_KEYS))
+    : fallbackKey
+      ? { [fallbackKey]: { scopes: ALL_CLIENT_SCOPES, profiles: [ALL_PROFILES] } }
+      : {};
+
+  return {
+    apiKeys: Object.entries(keyGrants).map(([key, grant]) =>
+      Array.isArray(grant)
+        ? { id: keyId(key), key, scopes: grant, profiles: [] }
+        : { id: keyId(key), key, scopes: grant.scopes, profiles: grant.profiles },
+    ),
+    tokenSecret: env.CLIENT_TOKEN_SECRET || randomBytes(32).toString('hex'),
+    defaultTokenTtlSeconds: Number(env.CLIENT_TOKEN_TTL_SECONDS ?? 300),
+    maxTokenTtlSeconds: Number(env.CLIENT_TOKEN_MAX_TTL_SECONDS ?? 3600),
+  };
+}
+
+/** Stable, non-reversible identifier for an API key (safe to log and to put into tokens). */
+function keyId(key: string): string {
+  return createHmac('sha256', 'client-key-id').update(key).digest('hex').substring(0, 16);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+export class ApiKeyAuthStrategy implements ClientAuthStrategy {
+  readonly name = 'api-key';
+
+  constructor(private readonly apiKeys: ClientApiKey[]) {}
+
+  authenticate(credentials: ClientCredentials): ClientPrincipal | null {
+    const apiKey = credentials.apiKey;
+    if (!apiKey) {
+      return null;
+    }
+    const match = this.apiKeys.find((entry) => safeEqual(entry.key, apiKey));
+    return match ? { keyId: match.id, scopes: [...match.scopes], method: 'api-key' } : null;
+  }
+}
+
+/** HS256 JSON Web Tokens issued by {@link ClientAuthService.issueToken}. */
+export class JwtAuthStrategy implements ClientAuthStrategy {
+  readonly name = 'jwt';
+
+  constructor(private readonly secret: string) {}
+
+  sign(principal: ClientPrincipal): string {
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify({
+      sub: principal.keyId,
+      scope: principal.scopes.join(' '),
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor((principal.expiresAt ?? Date.now()) / 1000),
+    }));
+    return `${header}.${payload}.${this.signature(`${header}.${payload}`)}`;
+  }
+
+  authenticate(credentials: ClientCredentials): ClientPrincipal | null {
+    const parts = credentials.token?.split('.');
+    if (!parts || parts.length !== 3) {
+      return null;
+    }
+    const [header, payload, signature] = parts;
+    if (!safeEqual(signature, this.signature(`${header}.${payload}`))) {
+      return null;
+    }
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      const expiresAt = Number(claims.exp) * 1000;
+      if (!claims.sub || !Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+        return null;
+      }
+      const scopes = String(claims.scope ?? '').split(' ').filter((scope) => clientScopes.safeParse(scope).success);
+      return { keyId: claims.sub, scopes: scopes as ClientScope[], method: 'jwt', expiresAt };
+    } catch {
+      return null;
+    }
+  }
+
+  private signature(input: string): string {
+    return createHmac('sha256', this.secret).update(input).digest('base64url');
+  }
+}
+
+/** Compact `v1.<keyId>.<exp>.<scopes>.<signature>` tokens, short enough for query strings. */
+export class HmacTokenAuthStrategy implements ClientAuthStrategy {
+  readonly name = 'hmac';
+
+  constructor(private readonly secret: string) {}
+
+  sign(principal: ClientPrincipal): string {
+    const scopes = principal.scopes.map((scope) => ALL_CLIENT_SCOPES.indexOf(scope)).join('-');
+    const body = `${HMAC_TOKEN_VERSION}.${principal.keyId}.${Math.floor((principal.expiresAt ?? Date.now()) / 1000)}.${scopes}`;
+    return `${body}.${this.signature(body)}`;
+  }
+
+  authenticate(credentials: ClientCredentials): ClientPrincipal | null {
+    const parts = credentials.token?.split('.');
+    if (!parts || parts.length !== 5 || parts[0] !== HMAC_TOKEN_VERSION) {
+      return null;
+    }
+    const [, id, exp, scopes, signature] = parts;
+    if (!safeEqual(signature, this.signature(parts.slice(0, 4).join('.')))) {
+      return null;
+    }
+
+    const expiresAt = Number(exp) * 1000;
+    if (!Number.isFinite(expiresAt) || expiresAt <= Date.now()) {
+      return null;
+    }
+    const resolved = (scopes ? scopes.split('-') : [])
+      .map((index) => ALL_CLIENT_SCOPES[Number(index)])
+      .filter((scope): scope is ClientScope => scope !== undefined);
+    return { keyId: id, scopes: resolved, method: 'hmac', expiresAt };
+  }
+
+  private signature(input: string): string {
+    return createHmac('sha256', this.secret).update(input).digest('base64url');
+  }
+}
+
+/**
+ * Authenticates realtime WebSocket clients and issues short-lived tokens.
+ *
+ * Browsers cannot set headers on a WebSocket, so credentials are accepted as
+ * subprotocols (`apikey.<key>`, `token.<token>`), query parameters
+ * (`?api_key=`, `?token=`) or headers (`x-api-key`, `Authorization: Bearer`).
+ */
+@Injectable()
+export class ClientAuthService {
+  private readonly logger = new Logger(ClientAuthService.name);
+  private readonly config: ClientAuthConfig;
+  private readonly jwt: JwtAuthStrategy;
+  private readonly hmac: HmacTokenAuthStrategy;
+  private readonly strategies: ClientAuthStrategy[];
+
+  constructor(
+    @Optional() @Inject(CLIENT_AUTH_CONFIG) config?: ClientAuthConfig,
+    @Optional() @Inject(CLIENT_AUTH_STRATEGIES) extraStrategies: ClientAuthStrategy[] = [],
+  ) {
+    this.config = config ?? loadClientAuthConfig();
+    this.jwt = new JwtAuthStrategy(this.config.tokenSecret);
+    this.hmac = new HmacTokenAuthStrategy(this.config.tokenSecret);
+    this.strategies = [new ApiKeyAuthStrategy(this.config.apiKeys), this.jwt, this.hmac, ...extraStrategies];
+    this.logger.log(`Client auth strategies: ${this.strategies.map((strategy) => strategy.name).join(', ')}`);
+    if (this.config.apiKeys.length === 0) {
+      this.logger.warn('No client API keys configured (CLIENT_API_KEYS / CLIENT_API_KEY), every client is rejected');
+    } else if (this.config.apiKeys.some((entry) => entry.key === DEV_CLIENT_API_KEY)) {
+      this.logger.warn(`Development key '${DEV_CLIENT_API_KEY}' is accepted, do not use this outside local setups`);
+    }
+  }
+
+  /** Authenticates a WebSocket upgrade request, `null` when no strategy accepts it. */
+  authenticateRequest(request?: IncomingMessage): ClientPrincipal | null {
+    return request ? this.authenticate(this.extractCredentials(request)) : null;
+  }
+
+  authenticate(credentials: ClientCredentials): ClientPrincipal | null {
+    for (const strategy of this.strategies) {
+      const principal = strategy.authenticate(credentials);
+      if (principal) {
+        return principal;
+      }
+    }
+    return null;
+  }
+
+  /** Authenticates a raw API key (token issuance must not accept tokens). */
+  authenticateApiKey(apiKey?: string): ClientPrincipal | null {
+    return this.strategies[0].authenticate({ apiKey });
+  }
+
+  /**
+   * Authenticates a REST request by its API key from `x-api-key` or
+   * `Authorization: Bearer <key>`. Tokens are only meant for the WebSocket.
+   */
+  authenticateHttpRequest(request: Pick<IncomingMessage, 'headers'>): ClientPrincipal | null {
+    const header = request.headers['x-api-key'];
+    const authorization = request.headers.authorization;
+    return this.authenticateApiKey(
+      (Array.isArray(header) ? header[0] : header) ??
+        (authorization?.startsWith('Bearer ') ? authorization.substring('Bearer '.length) : undefined),
+    );
+  }
+
+  isExpired(principal: ClientPrincipal, now = Date.now()): boolean {
+    return principal.expiresAt !== undefined && principal.expiresAt <= now;
+  }
+
+  hasScope(principal: ClientPrincipal, scope: ClientScope): boolean {
+    return principal.scopes.includes(scope);
+  }
+
+  /**
+   * Whether the client may select the upstream `profile`. Profiles can carry
+   * another tenant's credentials, so only the keys they are granted to may use
+   * them; tokens inherit the grants of the key they were issued for and
+   * unauthenticated clients only get the default upstream.
+   */
+  canUseProfile(principal: ClientPrincipal | null, profile?: string | null): boolean {
+    if (!profile) {
+      return true;
+    }
+    const profiles = this.config.apiKeys.find((entry) => entry.id === principal?.keyId)?.profiles ?? [];
+    return profiles.includes(ALL_PROFILES) || profiles.includes(profile);
+  }
+
+  /**
+   * Issues a short-lived token for an API-key principal. Requested scopes are
+   * narrowed to the scopes of the key; the TTL is capped by configuration.
+   */
+  issueToken(principal: ClientPrincipal, format: TokenFormat = 'jwt', ttlSeconds?: number, scopes?: ClientScope[]): IssuedToken {
+    const ttl = Math.min(ttlSeconds ?? this.config.defaultTokenTtlSeconds, this.config.maxTokenTtlSeconds);
+    const granted = scopes ? scopes.filter((scope) => principal.scopes.includes(scope)) : principal.scopes;
+    const tokenPrincipal: ClientPrincipal = {
+      keyId: principal.keyId,
+      scopes: granted,
+      method: format,
+      expiresAt: (Math.floor(Date.now() / 1000) + ttl) * 1000,
+    };
+    const token = format === 'hmac' ? this.hmac.sign(tokenPrincipal) : this.jwt.sign(tokenPrincipal);
+    return { token, format, scopes: granted, expiresAt: new Date(tokenPrincipal.expiresAt).toISOString() };
+  }
+
+  extractCredentials(request: IncomingMessage): ClientCredentials {
+    const credentials: ClientCredentials = {};
+    const query = new URL(request.url ?? '/', 'ws://localhost').searchParams;
+    const protocols = String(request.headers['sec-websocket-protocol'] ?? '')
+      .split(',')
+      .map((protocol) => protocol.trim());
+
+    const headerKey = request.headers['x-api-key'];
+    credentials.apiKey =
+      protocols.find((protocol) => protocol.startsWith(API_KEY_PROTOCOL_PREFIX))?.substring(API_KEY_PROTOCOL_PREFIX.length) ??
+      query.get('api_key') ??
+      (Array.isArray(headerKey) ? headerKey[0] : headerKey);
+
+    const authorization = request.headers.authorization;
+    credentials.token =
+      protocols.find((protocol) => protocol.startsWith(TOKEN_PROTOCOL_PREFIX))?.substring(TOKEN_PROTOCOL_PREFIX.length) ??
+      query.get('token') ??
+      (authorization?.startsWith('Bearer ') ? authorization.substring('Bearer '.length) : undefined);
+
+    return credentials;
+  }
+}
@@ -0,0 +1,90 @@
+import { EventEmitter } from 'events';
+import { ConversationStoreService } from './conversation-store.service';
+
+describe('ConversationStoreService', () => {
+  let store: ConversationStoreService;
+  let events: EventEmitter;
+
+  beforeEach(() => {
+    store = new ConversationStoreService();
+    events = new EventEmitter();
+    store.attach('s1', 'key', events);
+  });
+
+  it('tracks items in conversation order', () => {
+    events.emit('conversation.item.created', {
+      item: { id: 'i1', type: 'message', role: 'user', content: [{ type: 'input_audio', transcript: null }] },
+    });
+    events.emit('conversation.item.added', {
+      item: { id: 'i2', type: 'message', role: 'assistant', content: [{ type: 'text', text: 'Bonjour' }] },
+    });
+    events.emit('conversation.item.done', { item: { id: 'i1', type: 'message', status: 'completed' } });
+
+    const snapshot = store.get('s1');
+    expect(snapshot).toMatchObject({ sessionId: 's1', keyId: 'key' });
+    expect(snapshot?.items.map((item) => [item.id, item.role, item.text, item.status])).toEqual([
+      ['i1', 'user', '', 'completed'],
+      ['i2', 'assistant', 'Bonjour', undefined],
+    ]);
+  });
+
+  it('keeps transcripts that arrive before or after their item', () => {
+    events.emit('transcript.final', { itemId: 'i1', source: 'input', text: 'Hello' });
+    events.emit('conversation.item.created', { item: { id: 'i1', type: 'message', role: 'user', content: [] } });
+    events.emit('conversation.item.created', { item: { id: 'i2', type: 'message', role: 'assistant' } });
+    events.emit('transcript.final', { itemId: 'i2', source: 'output', text: 'Bonjour' });
+    // Ohne Item-Id lässt sich ein Transkript keinem Eintrag zuordnen
+    events.emit('transcript.final', { source: 'output', text: 'lost' });
+
+    expect(store.getItem('s1', 'i1')).toMatchObject({ role: 'user', text: 'Hello' });
+    expect(store.getItem('s1', 'i2')).toMatchObject({ role: 'assistant', text: 'Bonjour' });
+    expect(store.get('s1')?.items).toHaveLength(2);
+  });
+
+  it('stores function calls with their arguments and output', () => {
+    events.emit('conversation.item.done', {
+      item: { id: 'f1', type: 'function_call', name: 'lookup', call_id: 'c1', arguments: '{"q":1}' },
+    });
+    events.emit('conversation.item.done', { item: { id: 'f2', type: 'function_call_output', output: '42' } });
+
+    expect(store.getItem('s1', 'f1')).toMatchObject({
+      type: 'function_call',
+      name: 'lookup',
+      callId: 'c1',
+      text: '{"q":1}',
+    });
+    expect(store.getItem('s1', 'f2')).toMatchObject({ type: 'function_call_output', text: '42' });
+  });
+
+  it('applies truncation and deletion', () => {
+    events.emit('conversation.item.created', { item: { id: 'i1', type: 'message', role: 'assistant' } });
+    events.emit('conversation.item.created', { item: { id: 'i2', type: 'message', role: 'user' } });
+    events.emit('conversation.item.truncated', { item_id: 'i1', audio_end_ms: 1500 });
+    events.emit('conversation.item.deleted', { item_id: 'i2' });
+
+    expect(store.get('s1')?.items).toEqual([expect.objectContaining({ id: 'i1', audioEndMs: 1500 })]);
+  });
+
+  it('returns copies that do not change the stored items', () => {
+    events.emit('conversation.item.created', {
+      item: { id: 'i1', type: 'message', content: [{ type: 'text', text: 'a' }] },
+    });
+
+    const [listed] = store.get('s1')?.items ?? [];
+    const item = store.getItem('s1', 'i1');
+    Object.assign(listed, { text: 'changed' });
+    Object.assign(item ?? {}, { text: 'changed' });
+    expect(store.getItem('s1', 'i1')?.text).toBe('a');
+  });
+
+  it('stops listening once detached or re-attached', () => {
+    const other = new EventEmitter();
+    store.attach('s1', 'key', other);
+    expect(events.listenerCount('conversation.item.created')).toBe(0);
+
+    store.detach('s1');
+    expect(other.listenerCount('transcript.final')).toBe(0);
+    expect(store.get('s1')).toBeNull();
+    expect(store.getItem('s1', 'i1')).toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import { Injectable, Logger } from '@nestjs/common';
+import { TranscriptPayload } from '../helper/SpeechTranslationProvider';
+import { ConversationItem } from '../models/realtime-protocol.model';
+
+export interface ConversationSnapshot {
+  sessionId: string;
+  keyId: string;
+  startedAt: string;
+  items: ConversationItem[];
+}
+
+type Conversation = {
+  sessionId: string;
+  keyId: string;
+  startedAt: string;
+  /** OpenAI adds items in conversation order, so the Map order is the conversation order. */
+  items: Map<string, ConversationItem>;
+  detach: () => void;
+};
+
+/** Item as sent by the Realtime API in `conversation.item.*` events. */
+type UpstreamItem = {
+  id: string;
+  type: string;
+  role?: ConversationItem['role'];
+  status?: string;
+  name?: string;
+  call_id?: string;
+  arguments?: string;
+  output?: string;
+  content?: Array<{ type: string; text?: string; transcript?: string | null }>;
+};
+
+const TRACKED_EVENTS = [
+  'conversation.item.created',
+  'conversation.item.added',
+  'conversation.item.done',
+  'conversation.item.retrieved',
+];
+
+/**
+ * In-memory conversation history of the active realtime sessions, kept in
+ * sync with the upstream `conversation.item.*` events and transcripts.
+ */
+@Injectable()
+export class ConversationStoreService {
+  private readonly logger = new Logger(ConversationStoreService.name);
+  private readonly conversations = new Map<string, Conversation>();
+
+  /** Starts tracking the conversation from the events of an `OpenAiRtcSession`. */
+  attach(sessionId: string, keyId: string, events: EventEmitter): void {
+    this.detach(sessionId);
+
+    const onItem = (msg: { item?: UpstreamItem }) => msg.item && this.upsertItem(sessionId, msg.item);
+    const onDeleted = (msg: { item_id: string }) => this.removeItem(sessionId, msg.item_id);
+    const onTruncated = (msg: { item_id: string; audio_end_ms: number }) =>
+      this.updateItem(sessionId, msg.item_id, { audioEndMs: msg.audio_end_ms });
+    const onTranscript = (payload: TranscriptPayload) => {
+      if (payload.itemId) {
+        this.updateItem(sessionId, payload.itemId, {
+          text: payload.text,
+          role: payload.source === 'input' ? 'user' : 'assistant',
+        });
+      }
+    };
+
+    TRACKED_EVENTS.forEach((event) => events.on(event, onItem));
+    events.on('conversation.item.deleted', onDeleted);
+    events.on('conversation.item.truncated', onTruncated);
+    events.on('transcript.final', onTranscript);
+
+    this.conversations.set(sessionId, {
+      sessionId,
+      keyId,
+      startedAt: new Date().toISOString(),
+      items: new Map(),
+      detach: () => {
+        TRACKED_EVENTS.forEach((event) => events.off(event, onItem));
+        events.off('conversation.item.deleted', onDeleted);
+        events.off('conversation.item.truncated', onTruncated);
+        events.off('transcript.final', onTranscript);
+      },
+    });
+  }
+
+  /** Forgets the conversation once the session ends. */
+  detach(sessionId: string): void {
+    this.conversations.get(sessionId)?.detach();
+    this.conversations.delete(sessionId);
+  }
+
+  get(sessionId: string): ConversationSnapshot | null {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) {
+      return null;
+    }
+    return {
+      sessionId,
+      keyId: conversation.keyId,
+      startedAt: conversation.startedAt,
+      items: [...conversation.items.values()].map((item) => ({ ...item })),
+    };
+  }
+
+  getItem(sessionId: string, itemId: string): ConversationItem | null {
+    const item = this.conversations.get(sessionId)?.items.get(itemId);
+    return item ? { ...item } : null;
+  }
+
+  private upsertItem(sessionId: string, upstream: UpstreamItem): void {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation || !upstream.id) {
+      return;
+    }
+    const now = new Date().toISOString();
+    const existing = conversation.items.get(upstream.id);
+    const text = this.extractText(upstream);
+    conversation.items.set(upstream.id, {
+      id: upstream.id,
+      type: upstream.type === 'function_call' || upstream.type === 'function_call_output' ? upstream.type : 'message',
+      role: upstream.role ?? existing?.role,
+      // Transcripts kommen oft erst nach dem Item, daher vorhandenen Text nicht mit '' überschreiben
+      text: text || existing?.text || '',
+      status: upstream.status ?? existing?.status,
+      name: upstream.name ?? existing?.name,
+      callId: upstream.call_id ?? existing?.callId,
+      audioEndMs: existing?.audioEndMs,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  private updateItem(sessionId: string, itemId: string, changes: Partial<ConversationItem>): void {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) {
+      return;
+    }
+    const now = new Date().toISOString();
+    const existing = conversation.items.get(itemId);
+    conversation.items.set(itemId, {
+      id: itemId,
+      type: 'message',
+      text: '',
+      createdAt: now,
+      ...existing,
+      ...changes,
+      updatedAt: now,
+    });
+  }
+
+  private removeItem(sessionId: string, itemId: string): void {
+    if (this.conversations.get(sessionId)?.items.delete(itemId)) {
+      this.logger.debug(`Conversation item ${itemId} of session ${sessionId} deleted`);
+    }
+  }
+
+  private extractText(item: UpstreamItem): string {
+    if (item.type === 'function_call') {
+      return item.arguments ?? '';
+    }
+    if (item.type === 'function_call_output') {
+      return item.output ?? '';
+    }
+    return (item.content ?? [])
+      .map((part) => part.text ?? part.transcript ?? '')
+      .filter(Boolean)
+      .join(' ');
+  }
+}
@@ -1,11 +1,264 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import * as fs from 'node:fs';
+import { IntervalHistogram, monitorEventLoopDelay } from 'node:perf_hooks';
+import { DEFAULT_BASE_URL } from '../helper/OpenAISocketHandler';
+import { speechProviders } from '../helper/SpeechTranslationProvider';
+import { tcpUpstreamProbe, UpstreamProbe } from '../helper/UpstreamProbe';
+import { OpenAiRtcService } from '../../services/openai-rtc.service';
+import { RealtimeConfigService } from './realtime-config.service';
+import { AudioCodecService } from './audio-codec.service';
+import { AudioRecordingService } from './recording.service';
+import { OwnAudioService } from './audio.service';
+import { ResourceLifecycleService } from './resource-lifecycle.service';
 
+export const HEALTH_CONFIG = 'HEALTH_CONFIG';
+export const UPSTREAM_PROBE = 'UPSTREAM_PROBE';
+
+export interface HealthConfig {
+  /** Readiness fails below this much free space on the recordings volume. */
+  minFreeDiskBytes: number;
+  upstreamTimeoutMs: number;
+  /** Upstream probe results are reused for this long, so frequent polling does not flood the endpoint. */
+  upstreamCacheMs: number;
+  /** p99 event-loop delay above which the process counts as not live. */
+  maxEventLoopLagMs: number;
+  /** Length of the windows the event-loop delay is measured over, independent of how often checks run. */
+  eventLoopWindowMs: number;
+  /** Readiness fails once this many upstream sessions are open, 0 = unlimited. */
+  maxActiveSessions: number;
+}
+
+/**
+ * Reads the health thresholds from the environment (`HEALTH_MIN_FREE_DISK_MB`,
+ * `HEALTH_UPSTREAM_TIMEOUT_MS`, `HEALTH_UPSTREAM_CACHE_MS`, `HEALTH_MAX_EVENT_LOOP_LAG_MS`,
+ * `HEALTH_EVENT_LOOP_WINDOW_MS`, `HEALTH_MAX_ACTIVE_SESSIONS`).
+ */
+export function loadHealthConfig(env: NodeJS.ProcessEnv = process.env): HealthConfig {
+  return {
+    minFreeDiskBytes: Number(env.HEALTH_MIN_FREE_DISK_MB ?? 512) * 1024 * 1024,
+    upstreamTimeoutMs: Number(env.HEALTH_UPSTREAM_TIMEOUT_MS ?? 2_000),
+    upstreamCacheMs: Number(env.HEALTH_UPSTREAM_CACHE_MS ?? 10_000),
+    maxEventLoopLagMs: Number(env.HEALTH_MAX_EVENT_LOOP_LAG_MS ?? 1_000),
+    eventLoopWindowMs: Number(env.HEALTH_EVENT_LOOP_WINDOW_MS ?? 10_000),
+    maxActiveSessions: Number(env.HEALTH_MAX_ACTIVE_SESSIONS ?? 0),
+  };
+}
+
+export type HealthStatus = 'up' | 'down';
+
+export interface ComponentHealth {
+  /** `skipped` when the component is not used in this configuration. */
+  status: HealthStatus | 'skipped';
+  /** Only critical components fail the check when they are down. */
+  critical: boolean;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+interface EventLoopDelay {
+  p99Ms: number;
+  maxMs: number;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  timestamp: string;
+  components: Record<string, ComponentHealth>;
+}
+
+/**
+ * Liveness (is the process responsive) and readiness (can it serve new
+ * sessions) checks for `GET /health/live` and `GET /health/ready`.
+ */
 @Injectable()
-export class HealthService {
+export class HealthService implements OnModuleInit, OnModuleDestroy {
+  private readonly config: HealthConfig;
+  private readonly probe: UpstreamProbe;
+  private readonly eventLoopDelay: IntervalHistogram = monitorEventLoopDelay({ resolution: 20 });
+  /** Delay of the last completed window, see {@link rotateEventLoopWindow}. */
+  private lastEventLoopWindow?: EventLoopDelay;
+  private eventLoopTimer?: NodeJS.Timeout;
+  private upstreamCache?: { checkedAt: number; health: ComponentHealth };
+
+  constructor(
+    private readonly realtimeConfig: RealtimeConfigService,
+    private readonly rtcService: OpenAiRtcService,
+    private readonly resources: ResourceLifecycleService,
+    private readonly audioCodec: AudioCodecService,
+    private readonly recordingService: AudioRecordingService,
+    private readonly audioService: OwnAudioService,
+    @Optional() @Inject(HEALTH_CONFIG) config?: HealthConfig,
+    @Optional() @Inject(UPSTREAM_PROBE) probe?: UpstreamProbe,
+  ) {
+    this.config = config ?? loadHealthConfig();
+    this.probe = probe ?? tcpUpstreamProbe;
+  }
+
+  onModuleInit(): void {
+    this.eventLoopDelay.enable();
+    this.eventLoopTimer = setInterval(() => this.rotateEventLoopWindow(), this.config.eventLoopWindowMs);
+    this.eventLoopTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.eventLoopTimer);
+    this.eventLoopDelay.disable();
+  }
+
+  /** Kept for `POST /health`: `ok` is the liveness result. */
   getStatus(): { ok: boolean; timestamp: string } {
+    const report = this.checkLiveness();
+    return { ok: report.status === 'up', timestamp: report.timestamp };
+  }
+
+  checkLiveness(): HealthReport {
+    return this.report({ eventLoop: this.checkEventLoop() });
+  }
+
+  async checkReadiness(): Promise<HealthReport> {
+    const [ffmpeg, recordingsDirectory, audioDirectory, disk, upstream] = await Promise.all([
+      this.checkFfmpeg(),
+      this.checkWritable(this.recordingService.getRecordingsDirectory()),
+      this.checkWritable(this.audioService.getAudioDirectory()),
+      this.checkDisk(this.recordingService.getRecordingsDirectory()),
+      this.checkUpstream(),
+    ]);
+    return this.report({
+      eventLoop: this.checkEventLoop(),
+      ffmpeg,
+      recordingsDirectory,
+      audioDirectory,
+      disk,
+      upstream,
+      sessions: this.checkSessions(),
+    });
+  }
+
+  private report(components: Record<string, ComponentHealth>): HealthReport {
+    const failed = Object.values(components).some((component) => component.critical && component.status === 'down');
+    return { status: failed ? 'down' : 'up', timestamp: new Date().toISOString(), components };
+  }
+
+  /**
+   * The worse of the last completed window and the one in progress. Checks
+   * only read the histogram, so a stall shows up in every probe for at least
+   * one window, however often liveness and readiness are polled.
+   */
+  private checkEventLoop(): ComponentHealth {
+    const current = this.readEventLoopDelay();
+    const p99Ms = Math.max(current.p99Ms, this.lastEventLoopWindow?.p99Ms ?? 0);
+    const details = {
+      p99Ms,
+      maxMs: Math.max(current.maxMs, this.lastEventLoopWindow?.maxMs ?? 0),
+      windowMs: this.config.eventLoopWindowMs,
+      thresholdMs: this.config.maxEventLoopLagMs,
+    };
+    return { status: p99Ms > this.config.maxEventLoopLagMs ? 'down' : 'up', critical: true, details };
+  }
+
+  /** Closes the current window; the only place the histogram is reset. */
+  private rotateEventLoopWindow(): void {
+    this.lastEventLoopWindow = this.readEventLoopDelay();
+    this.eventLoopDelay.reset();
+  }
+
+  private readEventLoopDelay(): EventLoopDelay {
+    const toMs = (ns: number) => Math.round(ns / 1e4) / 100;
+    return { p99Ms: toMs(this.eventLoopDelay.percentile(99)), maxMs: toMs(this.eventLoopDelay.max) };
+  }
+
+  /** Only critical with the ffmpeg codec backend, the native backend does not spawn it. */
+  private async checkFfmpeg(): Promise<ComponentHealth> {
+    const critical = this.audioCodec.getBackend() === 'ffmpeg';
+    const details = { path: ffmpegInstaller.path, backend: this.audioCodec.getBackend() };
+    try {
+      await fs.promises.access(ffmpegInstaller.path, fs.constants.X_OK);
+      return { status: 'up', critical, details };
+    } catch (err) {
+      return { status: 'down', critical, details, error: (err as Error).message };
+    }
+  }
+
+  private async checkWritable(directory: string): Promise<ComponentHealth> {
+    try {
+      await fs.promises.access(directory, fs.constants.W_OK);
+      return { status: 'up', critical: true, details: { path: directory } };
+    } catch (err) {
+      return { status: 'down', critical: true, details: { path: directory }, error: (err as Error).message };
+    }
+  }
+
+  private async checkDisk(directory: string): Promise<ComponentHealth> {
+    try {
+      const stats = await fs.promises.statfs(directory);
+      const freeBytes = stats.bavail * stats.bsize;
+      const details = { path: directory, freeBytes, minFreeBytes: this.config.minFreeDiskBytes };
+      return { status: freeBytes < this.config.minFreeDiskBytes ? 'down' : 'up', critical: true, details };
+    } catch (err) {
+      return { status: 'down', critical: true, details: { path: directory }, error: (err as Error).message };
+    }
+  }
+
+  /**
+   * Probes the default endpoint and those of the profiles. Only the default
+   * endpoint is critical, a broken profile only affects its own sessions.
+   */
+  private async checkUpstream(): Promise<ComponentHealth> {
+    if (this.upstreamCache && Date.now() - this.upstreamCache.checkedAt < this.config.upstreamCacheMs) {
+      return this.upstreamCache.health;
+    }
+
+    const targets: Array<[string, string]> = [];
+    for (const profile of [null, ...this.realtimeConfig.getProfileNames()]) {
+      const options = this.realtimeConfig.resolve(profile);
+      if (options.provider !== speechProviders.enum.local) {
+        targets.push([profile ?? 'default', options.baseUrl ?? DEFAULT_BASE_URL]);
+      }
+    }
+    if (targets.length === 0) {
+      return { status: 'skipped', critical: false, details: { provider: speechProviders.enum.local } };
+    }
+
+    // Profile mit demselben Endpunkt teilen sich eine Probe
+    const probes = new Map<string, Promise<{ status: HealthStatus; latencyMs?: number; error?: string }>>();
+    const probeUrl = (url: string) => {
+      const startedAt = Date.now();
+      return this.probe.probe(new URL(url), this.config.upstreamTimeoutMs).then(
+        () => ({ status: 'up' as const, latencyMs: Date.now() - startedAt }),
+        (err: Error) => ({ status: 'down' as const, error: err.message }),
+      );
+    };
+    targets.forEach(([, url]) => probes.set(url, probes.get(url) ?? probeUrl(url)));
+
+    const endpoints: Record<string, { url: string; status: HealthStatus; latencyMs?: number; error?: string }> = {};
+    for (const [profile, url] of targets) {
+      endpoints[profile] = { url, ...(await probes.get(url)) };
+    }
+    const health: ComponentHealth = {
+      status: (endpoints.default ?? Object.values(endpoints)[0]).status,
+      critical: endpoints.default !== undefined,
+      details: { endpoints },
+    };
+    this.upstreamCache = { checkedAt: Date.now(), health };
+    return health;
+  }
+
+  private checkSessions(): ComponentHealth {
+    const upstream = this.rtcService.getMetrics();
+    const resources = this.resources.getStats();
+    const max = this.config.maxActiveSessions;
     return {
-      ok: true,
-      timestamp: new Date().toISOString(),
+      status: max > 0 && upstream.activeSessions >= max ? 'down' : 'up',
+      critical: true,
+      details: {
+        active: upstream.activeSessions,
+        activeByGateway: upstream.activeSessionsByGateway,
+        connectedByGateway: upstream.connectedSessionsByGateway,
+        connections: resources.scopes,
+        leakedResources: resources.leaked,
+        max: max > 0 ? max : undefined,
+      },
     };
   }
 }
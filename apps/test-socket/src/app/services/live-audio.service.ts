@@ -10,10 +10,19 @@ export interface LiveAudioSession {
   totalBytes: number;
 }
 
+export interface LiveAudioStats {
+  activeSessions: number;
+  /** Totals since start, including sessions that were already cleaned up. */
+  sessions: number;
+  chunks: number;
+  bytes: number;
+}
+
 @Injectable()
 export class SocketLiveAudioService {
   private readonly logger = new Logger(SocketLiveAudioService.name);
   private activeSessions = new Map<string, LiveAudioSession>();
+  private readonly totals = { sessions: 0, chunks: 0, bytes: 0 };
 
   startLiveSession(clientId: string): LiveAudioSession {
     const sessionId = `live_${clientId}_${Date.now()}`;
@@ -27,6 +36,7 @@ export class SocketLiveAudioService {
     };
 
     this.activeSessions.set(sessionId, session);
+    this.totals.sessions++;
     this.logger.log(`Started live audio session ${sessionId} for client ${clientId}`);
 
     return session;
@@ -40,6 +50,8 @@ export class SocketLiveAudioService {
 
     session.chunkCount++;
     session.totalBytes += chunkSize;
+    this.totals.chunks++;
+    this.totals.bytes += chunkSize;
 
     return true;
   }
@@ -76,6 +88,10 @@ export class SocketLiveAudioService {
     return Array.from(this.activeSessions.values()).filter(s => s.isActive);
   }
 
+  getStats(): LiveAudioStats {
+    return { activeSessions: this.getActiveSessions().length, ...this.totals };
+  }
+
   cleanupExpiredSessions(): void {
     const now = Date.now();
     const maxAge = 5 * 60 * 1000; // 5 minutes
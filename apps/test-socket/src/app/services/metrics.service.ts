@@ -0,0 +1,253 @@
+import { Injectable } from '@nestjs/common';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { LatencyStage } from '../models/realtime-protocol.model';
+import { OpenAiRtcMetrics, OpenAiRtcService } from '../../services/openai-rtc.service';
+import { ResourceLifecycleService } from './resource-lifecycle.service';
+import { AudioRecordingService } from './recording.service';
+import { SocketLiveAudioService } from './live-audio.service';
+import { RoomService } from './room.service';
+import { SignalingService } from './signaling.service';
+import { WebRtcService } from './webrtc.service';
+
+/** Latency buckets in seconds, from a few ms (decode) up to slow upstream responses. */
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export type AudioDirection = 'in' | 'out';
+
+/** Upstream counters of {@link OpenAiRtcService}, exported as `realtime_upstream_<name>_total`. */
+const UPSTREAM_COUNTERS: Array<[keyof OpenAiRtcMetrics, string, string]> = [
+  ['sessionsCreated', 'sessions_created', 'Upstream sessions opened'],
+  ['reconnectAttempts', 'reconnect_attempts', 'Reconnect attempts after a lost upstream connection'],
+  ['reconnects', 'reconnects', 'Upstream sessions restored after a lost connection'],
+  ['gaveUp', 'gave_up', 'Upstream sessions given up after all reconnect attempts'],
+  ['upstreamErrors', 'errors', 'Error events of upstream sessions'],
+];
+
+/**
+ * Prometheus registry of the application, rendered by `GET /metrics`.
+ * Gateways record into the metrics defined here instead of creating their own registries;
+ * state owned by other services (sessions, resources, recordings) is read on every scrape.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly registry = new Registry();
+
+  private readonly latency = new Histogram({
+    name: 'realtime_latency_seconds',
+    help: 'Latency of the realtime audio path per stage, see LatencyTracker',
+    labelNames: ['gateway', 'stage'] as const,
+    buckets: LATENCY_BUCKETS,
+    registers: [this.registry],
+  });
+
+  private readonly audioBytes = new Counter({
+    name: 'realtime_audio_bytes_total',
+    help: 'Audio bytes received from (in) and sent to (out) clients',
+    labelNames: ['gateway', 'direction'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly audioChunks = new Counter({
+    name: 'realtime_audio_chunks_total',
+    help: 'Audio chunks received from (in) and sent to (out) clients',
+    labelNames: ['gateway', 'direction'] as const,
+    registers: [this.registry],
+  });
+
+  private readonly clientErrors = new Counter({
+    name: 'realtime_client_errors_total',
+    help: 'Error messages sent to clients per error code',
+    labelNames: ['gateway', 'code'] as const,
+    registers: [this.registry],
+  });
+
+  constructor(
+    private readonly rtcService: OpenAiRtcService,
+    private readonly resources: ResourceLifecycleService,
+    private readonly recordingService: AudioRecordingService,
+    private readonly liveAudioService: SocketLiveAudioService,
+    private readonly rooms: RoomService,
+    private readonly signaling: SignalingService,
+    private readonly webrtc: WebRtcService,
+  ) {
+    collectDefaultMetrics({ register: this.registry });
+    this.registerUpstreamMetrics();
+    this.registerResourceMetrics();
+    this.registerRecordingMetrics();
+    this.registerRoomMetrics();
+  }
+
+  observeLatency(gateway: string, stage: LatencyStage, ms: number): void {
+    this.latency.observe({ gateway, stage }, ms / 1000);
+  }
+
+  recordAudio(gateway: string, direction: AudioDirection, bytes: number): void {
+    this.audioBytes.inc({ gateway, direction }, bytes);
+    this.audioChunks.inc({ gateway, direction });
+  }
+
+  recordClientError(gateway: string, code: string): void {
+    this.clientErrors.inc({ gateway, code });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  render(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  private registerUpstreamMetrics(): void {
+    const rtcService = this.rtcService;
+    new Gauge({
+      name: 'realtime_sessions_active',
+      help: 'Open upstream sessions per gateway',
+      labelNames: ['gateway'] as const,
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        Object.entries(rtcService.getMetrics().activeSessionsByGateway).forEach(([gateway, count]) =>
+          this.set({ gateway }, count),
+        );
+      },
+    });
+    new Gauge({
+      name: 'realtime_upstream_connected_sessions',
+      help: 'Open upstream sessions per gateway whose connection to the provider is currently up',
+      labelNames: ['gateway'] as const,
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        Object.entries(rtcService.getMetrics().connectedSessionsByGateway).forEach(([gateway, count]) =>
+          this.set({ gateway }, count),
+        );
+      },
+    });
+    UPSTREAM_COUNTERS.forEach(([key, name, help]) =>
+      this.mirrorCounter(`realtime_upstream_${name}_total`, help, () => rtcService.getMetrics()[key] as number),
+    );
+  }
+
+  private registerResourceMetrics(): void {
+    const resources = this.resources;
+    new Gauge({
+      name: 'realtime_resources_open',
+      help: 'Open per-connection resources per kind, see ResourceLifecycleService',
+      labelNames: ['kind'] as const,
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        Object.entries(resources.getStats().resourcesByKind).forEach(([kind, count]) => this.set({ kind }, count));
+      },
+    });
+    new Gauge({
+      name: 'realtime_resources_leaked',
+      help: 'Resources still held by connections that are already closed',
+      registers: [this.registry],
+      collect() {
+        this.set(resources.getStats().leaked);
+      },
+    });
+    this.mirrorCounter('realtime_resource_close_errors_total', 'Resources whose close() threw', () =>
+      resources.getStats().closeErrors,
+    );
+  }
+
+  private registerRecordingMetrics(): void {
+    const recordingService = this.recordingService;
+    const liveAudioService = this.liveAudioService;
+    new Gauge({
+      name: 'recording_disk_bytes',
+      help: 'Disk space used by stored recordings',
+      registers: [this.registry],
+      collect() {
+        this.set(recordingService.getRecordingStats().totalSize);
+      },
+    });
+    new Gauge({
+      name: 'recording_files',
+      help: 'Stored recordings',
+      registers: [this.registry],
+      collect() {
+        this.set(recordingService.getRecordingStats().totalRecordings);
+      },
+    });
+    new Gauge({
+      name: 'recording_sessions_active',
+      help: 'Recordings currently being written',
+      registers: [this.registry],
+      collect() {
+        this.set(recordingService.getActiveSessionsCount());
+      },
+    });
+    new Gauge({
+      name: 'live_audio_sessions_active',
+      help: 'Active Socket.IO live audio sessions',
+      registers: [this.registry],
+      collect() {
+        this.set(liveAudioService.getStats().activeSessions);
+      },
+    });
+    this.mirrorCounter('live_audio_chunks_total', 'Audio chunks received in live audio sessions', () =>
+      liveAudioService.getStats().chunks,
+    );
+    this.mirrorCounter('live_audio_bytes_total', 'Audio bytes received in live audio sessions', () =>
+      liveAudioService.getStats().bytes,
+    );
+  }
+
+  private registerRoomMetrics(): void {
+    const rooms = this.rooms;
+    new Gauge({
+      name: 'realtime_rooms_active',
+      help: 'Open translation rooms',
+      registers: [this.registry],
+      collect() {
+        this.set(rooms.listRooms().length);
+      },
+    });
+    new Gauge({
+      name: 'realtime_room_listeners',
+      help: 'Listeners in all translation rooms',
+      registers: [this.registry],
+      collect() {
+        this.set(rooms.listRooms().reduce((sum, room) => sum + room.listenerCount, 0));
+      },
+    });
+    const signaling = this.signaling;
+    new Gauge({
+      name: 'realtime_signaling_peers',
+      help: 'Peers connected to WebRTC signaling',
+      registers: [this.registry],
+      collect() {
+        this.set(signaling.getPeerCount());
+      },
+    });
+    const webrtc = this.webrtc;
+    new Gauge({
+      name: 'realtime_webrtc_peers',
+      help: 'Server-side WebRTC peer connections of the realtime gateway',
+      labelNames: ['state'],
+      registers: [this.registry],
+      collect() {
+        const stats = webrtc.getStats();
+        this.set({ state: 'connected' }, stats.connectedPeers);
+        this.set({ state: 'connecting' }, stats.peers - stats.connectedPeers);
+      },
+    });
+  }
+
+  /** Counter whose value is kept by another service and read on every scrape. */
+  private mirrorCounter(name: string, help: string, read: () => number): void {
+    new Counter({
+      name,
+      help,
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        this.inc(read());
+      },
+    });
+  }
+}
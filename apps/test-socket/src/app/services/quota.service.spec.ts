@@ -0,0 +1,107 @@
+import { loadQuotaConfig, pcm16Seconds, QuotaConfig, QuotaService } from './quota.service';
+
+const config: QuotaConfig = {
+  windowMs: 1000,
+  bytesPerWindow: 100,
+  messagesPerWindow: 3,
+  keyBytesPerWindow: 150,
+  keyMessagesPerWindow: 5,
+  audioSecondsPerDay: 10,
+  maxConcurrentSessions: 2,
+};
+
+const NOW = Date.parse('2026-01-01T12:00:00.000Z');
+
+describe('QuotaService', () => {
+  let quota: QuotaService;
+
+  beforeEach(() => {
+    quota = new QuotaService(config);
+  });
+
+  it('caps concurrent sessions per key without a retry hint', () => {
+    expect(quota.openSession('key', 'a').allowed).toBe(true);
+    expect(quota.openSession('key', 'b').allowed).toBe(true);
+    expect(quota.openSession('key', 'c')).toEqual({ allowed: false, limit: 'concurrent_sessions' });
+    expect(quota.openSession('other', 'd').allowed).toBe(true);
+
+    quota.closeSession('key', 'a');
+    expect(quota.openSession('key', 'c').allowed).toBe(true);
+  });
+
+  it('limits messages per connection within the sliding window', () => {
+    quota.openSession('key', 'a');
+    for (let i = 0; i < 3; i++) {
+      expect(quota.consume('key', 'a', {}, NOW + i * 100).allowed).toBe(true);
+    }
+    expect(quota.consume('key', 'a', {}, NOW + 300)).toEqual({ allowed: false, limit: 'messages', retryAfterMs: 700 });
+    expect(quota.consume('key', 'a', {}, NOW + 1000).allowed).toBe(true);
+  });
+
+  it('does not account rejected messages', () => {
+    quota.openSession('key', 'a');
+    expect(quota.consume('key', 'a', { bytes: 80 }, NOW).allowed).toBe(true);
+    expect(quota.consume('key', 'a', { bytes: 30 }, NOW)).toMatchObject({ allowed: false, limit: 'bytes' });
+    expect(quota.consume('key', 'a', { bytes: 20 }, NOW).allowed).toBe(true);
+  });
+
+  it('sums bytes over all connections of a key', () => {
+    quota.openSession('key', 'a');
+    quota.openSession('key', 'b');
+    expect(quota.consume('key', 'a', { bytes: 100 }, NOW).allowed).toBe(true);
+    expect(quota.consume('key', 'b', { bytes: 60 }, NOW)).toMatchObject({ allowed: false, limit: 'bytes' });
+    expect(quota.consume('key', 'b', { bytes: 50 }, NOW).allowed).toBe(true);
+  });
+
+  it('budgets audio seconds per UTC day', () => {
+    quota.openSession('key', 'a');
+    expect(quota.consume('key', 'a', { messages: 0, audioSeconds: 8 }, NOW).allowed).toBe(true);
+    expect(quota.consume('key', 'a', { messages: 0, audioSeconds: 3 }, NOW)).toEqual({
+      allowed: false,
+      limit: 'audio_seconds',
+      retryAfterMs: 12 * 60 * 60 * 1000,
+    });
+    const nextDay = Date.parse('2026-01-02T00:00:00.000Z');
+    expect(quota.consume('key', 'a', { messages: 0, audioSeconds: 3 }, nextDay).allowed).toBe(true);
+  });
+
+  it('rejects usage of sessions that are closed or were never opened', () => {
+    expect(quota.consume('key', 'unknown', {}, NOW)).toEqual({ allowed: false, limit: 'session' });
+
+    quota.openSession('key', 'a');
+    quota.closeSession('key', 'a');
+    expect(quota.consume('key', 'a', { bytes: 10 }, NOW)).toEqual({ allowed: false, limit: 'session' });
+    expect(quota.getSnapshot('key', 'a', NOW).sessions.active).toBe(0);
+  });
+
+  it('reports the remaining quota of connection and key', () => {
+    quota.openSession('key', 'a');
+    quota.openSession('key', 'b');
+    quota.consume('key', 'a', { bytes: 70, audioSeconds: 4 }, NOW);
+    quota.consume('key', 'b', { bytes: 60 }, NOW);
+
+    expect(quota.getSnapshot('key', 'a', NOW)).toEqual({
+      windowMs: 1000,
+      bytes: { limit: 100, remaining: 20 },
+      messages: { limit: 3, remaining: 2 },
+      audioSeconds: { limit: 10, remaining: 6, resetsAt: '2026-01-02T00:00:00.000Z' },
+      sessions: { limit: 2, active: 2 },
+    });
+  });
+});
+
+describe('loadQuotaConfig', () => {
+  it('derives the key limits from the connection limits', () => {
+    expect(loadQuotaConfig({ QUOTA_BYTES_PER_WINDOW: '10', QUOTA_MAX_CONCURRENT_SESSIONS: '3' })).toMatchObject({
+      bytesPerWindow: 10,
+      keyBytesPerWindow: 30,
+      maxConcurrentSessions: 3,
+    });
+  });
+});
+
+describe('pcm16Seconds', () => {
+  it('converts PCM16 mono bytes to seconds', () => {
+    expect(pcm16Seconds(48_000, 24_000)).toBe(1);
+  });
+});
@@ -0,0 +1,228 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+
+export const QUOTA_CONFIG = 'QUOTA_CONFIG';
+
+export interface QuotaConfig {
+  windowMs: number;
+  /** Decoded audio bytes per sliding window and connection. */
+  bytesPerWindow: number;
+  messagesPerWindow: number;
+  /** Same limits summed over all connections of one API key. */
+  keyBytesPerWindow: number;
+  keyMessagesPerWindow: number;
+  /** Upstream audio budget per API key and UTC day. */
+  audioSecondsPerDay: number;
+  maxConcurrentSessions: number;
+}
+
+/** `session` rejects usage of a session that was never opened or is already closed. */
+export type QuotaLimit = 'bytes' | 'messages' | 'audio_seconds' | 'concurrent_sessions' | 'session';
+
+export interface QuotaDecision {
+  allowed: boolean;
+  /** Limit that rejected the request. */
+  limit?: QuotaLimit;
+  /**
+   * When the window or the daily budget allows the request again. Not set for
+   * `concurrent_sessions`, a slot only frees up when another session closes.
+   */
+  retryAfterMs?: number;
+}
+
+export interface QuotaSnapshot {
+  windowMs: number;
+  bytes: { limit: number; remaining: number };
+  messages: { limit: number; remaining: number };
+  audioSeconds: { limit: number; remaining: number; resetsAt: string };
+  sessions: { limit: number; active: number };
+}
+
+export interface QuotaUsage {
+  /** Client messages to account, defaults to one. */
+  messages?: number;
+  bytes?: number;
+  audioSeconds?: number;
+}
+
+type WindowEntry = { at: number; bytes: number; messages: number };
+
+type KeyState = {
+  window: WindowEntry[];
+  day: string;
+  audioSeconds: number;
+  sessions: Set<string>;
+};
+
+/**
+ * Reads quota limits from the environment (`QUOTA_WINDOW_MS`, `QUOTA_BYTES_PER_WINDOW`,
+ * `QUOTA_MESSAGES_PER_WINDOW`, `QUOTA_KEY_BYTES_PER_WINDOW`, `QUOTA_KEY_MESSAGES_PER_WINDOW`,
+ * `QUOTA_AUDIO_SECONDS_PER_DAY`, `QUOTA_MAX_CONCURRENT_SESSIONS`).
+ */
+export function loadQuotaConfig(env: NodeJS.ProcessEnv = process.env): QuotaConfig {
+  const bytesPerWindow = Number(env.QUOTA_BYTES_PER_WINDOW ?? 4 * 1024 * 1024);
+  const messagesPerWindow = Number(env.QUOTA_MESSAGES_PER_WINDOW ?? 1200);
+  const maxConcurrentSessions = Number(env.QUOTA_MAX_CONCURRENT_SESSIONS ?? 5);
+  return {
+    windowMs: Number(env.QUOTA_WINDOW_MS ?? 60_000),
+    bytesPerWindow,
+    messagesPerWindow,
+    keyBytesPerWindow: Number(env.QUOTA_KEY_BYTES_PER_WINDOW ?? bytesPerWindow * maxConcurrentSessions),
+    keyMessagesPerWindow: Number(env.QUOTA_KEY_MESSAGES_PER_WINDOW ?? messagesPerWindow * maxConcurrentSessions),
+    audioSecondsPerDay: Number(env.QUOTA_AUDIO_SECONDS_PER_DAY ?? 4 * 60 * 60),
+    maxConcurrentSessions,
+  };
+}
+
+/** Duration of raw PCM16 mono audio. */
+export function pcm16Seconds(bytes: number, sampleRate: number): number {
+  return bytes / (sampleRate * 2);
+}
+
+/**
+ * Rate limits and quotas for realtime audio, shared by all gateways.
+ *
+ * Byte and message limits use a sliding window and apply both per connection
+ * and per API key; audio seconds are budgeted per API key and UTC day; the
+ * number of concurrent upstream sessions is capped per API key.
+ */
+@Injectable()
+export class QuotaService {
+  private readonly logger = new Logger(QuotaService.name);
+  private readonly config: QuotaConfig;
+  private readonly keys = new Map<string, KeyState>();
+  private readonly connections = new Map<string, WindowEntry[]>();
+
+  constructor(@Optional() @Inject(QUOTA_CONFIG) config?: QuotaConfig) {
+    this.config = config ?? loadQuotaConfig();
+  }
+
+  getConfig(): QuotaConfig {
+    return { ...this.config };
+  }
+
+  /** Registers a new session for the key, unless the concurrency cap is reached. */
+  openSession(keyId: string, sessionId: string): QuotaDecision {
+    const state = this.getKeyState(keyId);
+    if (!state.sessions.has(sessionId) && state.sessions.size >= this.config.maxConcurrentSessions) {
+      this.logger.warn(`Key ${keyId} exceeded ${this.config.maxConcurrentSessions} concurrent sessions`);
+      return { allowed: false, limit: 'concurrent_sessions' };
+    }
+    state.sessions.add(sessionId);
+    this.connections.set(sessionId, []);
+    return { allowed: true };
+  }
+
+  closeSession(keyId: string, sessionId: string): void {
+    this.keys.get(keyId)?.sessions.delete(sessionId);
+    this.connections.delete(sessionId);
+  }
+
+  /**
+   * Accounts one client message. Nothing is recorded when any limit would be
+   * exceeded, so a rejected message does not eat into the remaining quota.
+   * Usage after {@link closeSession} (e.g. PCM a decoder flushes after the
+   * disconnect) is rejected instead of reviving the session.
+   */
+  consume(keyId: string, sessionId: string, usage: QuotaUsage = {}, now = Date.now()): QuotaDecision {
+    if (!this.connections.has(sessionId)) {
+      return { allowed: false, limit: 'session' };
+    }
+    const messages = usage.messages ?? 1;
+    const bytes = usage.bytes ?? 0;
+    const audioSeconds = usage.audioSeconds ?? 0;
+    const state = this.getKeyState(keyId, now);
+    const connectionWindow = this.prune(this.connections.get(sessionId), now);
+    state.window = this.prune(state.window, now);
+    this.connections.set(sessionId, connectionWindow);
+
+    const windows: Array<[WindowEntry[], number, number]> = [
+      [connectionWindow, this.config.messagesPerWindow, this.config.bytesPerWindow],
+      [state.window, this.config.keyMessagesPerWindow, this.config.keyBytesPerWindow],
+    ];
+    for (const [window, messageLimit, byteLimit] of windows) {
+      if (messages > 0 && this.sumMessages(window) + messages > messageLimit) {
+        return this.reject('messages', window, now);
+      }
+      if (bytes > 0 && this.sumBytes(window) + bytes > byteLimit) {
+        return this.reject('bytes', window, now);
+      }
+    }
+
+    if (state.audioSeconds + audioSeconds > this.config.audioSecondsPerDay) {
+      return { allowed: false, limit: 'audio_seconds', retryAfterMs: this.msUntilNextDay(now) };
+    }
+
+    if (messages > 0 || bytes > 0) {
+      const entry = { at: now, bytes, messages };
+      connectionWindow.push(entry);
+      state.window.push(entry);
+    }
+    state.audioSeconds += audioSeconds;
+    return { allowed: true };
+  }
+
+  /** Remaining quota as reported to clients in the `ready` message. */
+  getSnapshot(keyId: string, sessionId: string, now = Date.now()): QuotaSnapshot {
+    const state = this.getKeyState(keyId, now);
+    const connectionWindow = this.prune(this.connections.get(sessionId) ?? [], now);
+    state.window = this.prune(state.window, now);
+
+    const remainingBytes = Math.min(
+      this.config.bytesPerWindow - this.sumBytes(connectionWindow),
+      this.config.keyBytesPerWindow - this.sumBytes(state.window),
+    );
+    const remainingMessages = Math.min(
+      this.config.messagesPerWindow - this.sumMessages(connectionWindow),
+      this.config.keyMessagesPerWindow - this.sumMessages(state.window),
+    );
+    return {
+      windowMs: this.config.windowMs,
+      bytes: { limit: this.config.bytesPerWindow, remaining: Math.max(0, remainingBytes) },
+      messages: { limit: this.config.messagesPerWindow, remaining: Math.max(0, remainingMessages) },
+      audioSeconds: {
+        limit: this.config.audioSecondsPerDay,
+        remaining: Math.max(0, this.config.audioSecondsPerDay - state.audioSeconds),
+        resetsAt: new Date(now + this.msUntilNextDay(now)).toISOString(),
+      },
+      sessions: { limit: this.config.maxConcurrentSessions, active: state.sessions.size },
+    };
+  }
+
+  private getKeyState(keyId: string, now = Date.now()): KeyState {
+    const day = new Date(now).toISOString().substring(0, 10);
+    let state = this.keys.get(keyId);
+    if (!state) {
+      state = { window: [], day, audioSeconds: 0, sessions: new Set() };
+      this.keys.set(keyId, state);
+    } else if (state.day !== day) {
+      state.day = day;
+      state.audioSeconds = 0;
+    }
+    return state;
+  }
+
+  private reject(limit: QuotaLimit, window: WindowEntry[], now: number): QuotaDecision {
+    const oldest = window[0]?.at ?? now;
+    return { allowed: false, limit, retryAfterMs: Math.max(0, oldest + this.config.windowMs - now) };
+  }
+
+  private prune(window: WindowEntry[], now: number): WindowEntry[] {
+    const cutoff = now - this.config.windowMs;
+    const firstValid = window.findIndex((entry) => entry.at > cutoff);
+    return firstValid === -1 ? [] : firstValid === 0 ? window : window.slice(firstValid);
+  }
+
+  private sumBytes(window: WindowEntry[]): number {
+    return window.reduce((sum, entry) => sum + entry.bytes, 0);
+  }
+
+  private sumMessages(window: WindowEntry[]): number {
+    return window.reduce((sum, entry) => sum + entry.messages, 0);
+  }
+
+  private msUntilNextDay(now: number): number {
+    const next = new Date(now);
+    next.setUTCHours(24, 0, 0, 0);
+    return next.getTime() - now;
+  }
+}
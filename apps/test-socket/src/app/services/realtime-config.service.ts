@@ -0,0 +1,130 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { z } from 'zod';
+import { RealtimeSessionOptions } from '../helper/OpenAISocketHandler';
+import { speechProviders } from '../helper/SpeechTranslationProvider';
+import { turnDetectionSchema } from '../models/realtime-protocol.model';
+
+export const REALTIME_UPSTREAM_CONFIG = 'REALTIME_UPSTREAM_CONFIG';
+
+export const realtimeSessionOptionsSchema = z.object({
+  provider: speechProviders.optional(),
+  local: z
+    .object({
+      pitch: z.number().positive().optional(),
+      inputTranscript: z.string().optional(),
+      outputTranscript: z.string().optional(),
+      responseDelayMs: z.number().int().nonnegative().optional(),
+    })
+    .optional(),
+  baseUrl: z.url().optional(),
+  apiKey: z.string().optional(),
+  authStyle: z.enum(['bearer', 'api-key']).optional(),
+  organization: z.string().optional(),
+  project: z.string().optional(),
+  modelParam: z.string().optional(),
+  queryParams: z.record(z.string(), z.string()).optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  model: z.string().optional(),
+  voice: z.string().optional(),
+  instructions: z.string().optional(),
+  sourceLanguage: z.string().optional(),
+  targetLanguage: z.string().optional(),
+  turnDetection: turnDetectionSchema.optional(),
+  transcriptionModel: z.string().optional(),
+  inputSampleRate: z.number().int().positive().optional(),
+  outputSampleRate: z.number().int().positive().optional(),
+});
+
+export interface RealtimeUpstreamConfig {
+  /** Applied to every session. */
+  defaults: RealtimeSessionOptions;
+  /** Named overrides (tenants, models, Azure deployments) selected per session. */
+  profiles: Record<string, RealtimeSessionOptions>;
+}
+
+export class UnknownRealtimeProfileError extends Error {
+  constructor(readonly profile: string) {
+    super(`Unknown realtime profile '${profile}'`);
+  }
+}
+
+/**
+ * Builds the upstream configuration from the environment:
+ *
+ * - `REALTIME_PROVIDER`: `openai` (default) or `local` (offline echo pipeline)
+ * - `OPENAI_REALTIME_URL`, `OPENAI_REALTIME_MODEL`, `OPENAI_REALTIME_VOICE`
+ * - `OPENAI_REALTIME_SOURCE_LANGUAGE`, `OPENAI_REALTIME_TARGET_LANGUAGE` (default `de` → `en`)
+ * - `OPENAI_REALTIME_TRANSCRIPTION_MODEL` (empty disables input transcripts)
+ * - `OPENAI_API_KEY`, `OPENAI_REALTIME_AUTH_STYLE` (`bearer` | `api-key`)
+ * - `OPENAI_ORGANIZATION`, `OPENAI_PROJECT`
+ * - `OPENAI_REALTIME_MODEL_PARAM`, `OPENAI_REALTIME_QUERY` (e.g. `api-version=2024-10-01-preview`)
+ * - `OPENAI_REALTIME_PROFILES`: JSON object mapping profile names to session options
+ */
+export function loadRealtimeUpstreamConfig(env: NodeJS.ProcessEnv = process.env): RealtimeUpstreamConfig {
+  const defaults = realtimeSessionOptionsSchema.parse(
+    stripUndefined({
+      provider: env.REALTIME_PROVIDER,
+      baseUrl: env.OPENAI_REALTIME_URL,
+      apiKey: env.OPENAI_API_KEY,
+      authStyle: env.OPENAI_REALTIME_AUTH_STYLE,
+      organization: env.OPENAI_ORGANIZATION,
+      project: env.OPENAI_PROJECT,
+      modelParam: env.OPENAI_REALTIME_MODEL_PARAM,
+      queryParams: env.OPENAI_REALTIME_QUERY
+        ? Object.fromEntries(new URLSearchParams(env.OPENAI_REALTIME_QUERY))
+        : undefined,
+      model: env.OPENAI_REALTIME_MODEL,
+      voice: env.OPENAI_REALTIME_VOICE,
+      sourceLanguage: env.OPENAI_REALTIME_SOURCE_LANGUAGE,
+      targetLanguage: env.OPENAI_REALTIME_TARGET_LANGUAGE,
+      transcriptionModel: env.OPENAI_REALTIME_TRANSCRIPTION_MODEL,
+    }),
+  );
+
+  const profiles = env.OPENAI_REALTIME_PROFILES
+    ? z.record(z.string(), realtimeSessionOptionsSchema).parse(JSON.parse(env.OPENAI_REALTIME_PROFILES))
+    : {};
+
+  return { defaults, profiles };
+}
+
+function stripUndefined<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
+
+/**
+ * Resolves upstream Realtime session options per session: global defaults,
+ * then the selected profile, then the caller's own overrides.
+ */
+@Injectable()
+export class RealtimeConfigService {
+  private readonly logger = new Logger(RealtimeConfigService.name);
+  private readonly config: RealtimeUpstreamConfig;
+
+  constructor(@Optional() @Inject(REALTIME_UPSTREAM_CONFIG) config?: RealtimeUpstreamConfig) {
+    this.config = config ?? loadRealtimeUpstreamConfig();
+    this.logger.log(`Realtime upstream profiles: ${Object.keys(this.config.profiles).join(', ') || 'none'}`);
+  }
+
+  getProfileNames(): string[] {
+    return Object.keys(this.config.profiles);
+  }
+
+  resolve(profile?: string | null, overrides: RealtimeSessionOptions = {}): RealtimeSessionOptions {
+    let profileOptions: RealtimeSessionOptions = {};
+    if (profile) {
+      // Nur eigene Einträge, sonst wären `constructor` oder `__proto__` gültige Profile
+      if (!Object.prototype.hasOwnProperty.call(this.config.profiles, profile)) {
+        throw new UnknownRealtimeProfileError(profile);
+      }
+      profileOptions = this.config.profiles[profile];
+    }
+
+    const merged = { ...this.config.defaults, ...profileOptions, ...stripUndefined({ ...overrides }) };
+    return {
+      ...merged,
+      queryParams: { ...this.config.defaults.queryParams, ...profileOptions.queryParams, ...overrides.queryParams },
+      headers: { ...this.config.defaults.headers, ...profileOptions.headers, ...overrides.headers },
+    };
+  }
+}
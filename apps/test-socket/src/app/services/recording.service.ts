@@ -1,7 +1,30 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { v4 as uuidv4 } from 'uuid';
+import { randomUUID } from 'crypto';
+import { SessionRecorder, SessionRecordingInfo, SessionTimeline } from '../helper/SessionRecorder';
+
+export const SESSION_RECORDING_CONFIG = 'SESSION_RECORDING_CONFIG';
+
+export interface SessionRecordingConfig {
+  /** When disabled, clients asking for a recording get none. */
+  enabled: boolean;
+  /** Audio after this is dropped, transcripts are still kept. */
+  maxDurationSeconds: number;
+}
+
+/** Reads `SESSION_RECORDING_ENABLED` (default true) and `SESSION_RECORDING_MAX_SECONDS` (default 3600). */
+export function loadSessionRecordingConfig(env: NodeJS.ProcessEnv = process.env): SessionRecordingConfig {
+  return {
+    enabled: env.SESSION_RECORDING_ENABLED !== 'false',
+    maxDurationSeconds: Number(env.SESSION_RECORDING_MAX_SECONDS ?? 3600),
+  };
+}
+
+/** Stereo WAV of a session recording; timeline and subtitles share its base name. */
+const SESSION_RECORDING_PATTERN = /^session_.+\.wav$/i;
+const SESSION_ATTACHMENTS = ['json', 'vtt'] as const;
 
 export interface RecordingSession {
   id: string;
@@ -21,16 +44,23 @@ export class AudioRecordingService {
   private readonly logger = new Logger(AudioRecordingService.name);
   private readonly recordingsDirectory = path.join(process.cwd(), 'apps/test-socket/src/assets/recordings');
   private activeSessions = new Map<string, RecordingSession>();
+  private sessionRecorders = new Map<string, SessionRecorder>();
+  private readonly sessionRecordingConfig: SessionRecordingConfig;
 
-  constructor() {
+  constructor(@Optional() @Inject(SESSION_RECORDING_CONFIG) sessionRecordingConfig?: SessionRecordingConfig) {
+    this.sessionRecordingConfig = sessionRecordingConfig ?? loadSessionRecordingConfig();
     // Erstelle Verzeichnis falls es nicht existiert
     if (!fs.existsSync(this.recordingsDirectory)) {
       fs.mkdirSync(this.recordingsDirectory, { recursive: true });
     }
   }
 
+  getRecordingsDirectory(): string {
+    return this.recordingsDirectory;
+  }
+
   startRecordingSession(clientId: string): RecordingSession {
-    const sessionId = uuidv4();
+    const sessionId = randomUUID();
     const session: RecordingSession = {
       id: sessionId,
       clientId,
@@ -48,6 +78,64 @@ export class AudioRecordingService {
     return session;
   }
 
+  isSessionRecordingEnabled(): boolean {
+    return this.sessionRecordingConfig.enabled;
+  }
+
+  /**
+   * Starts recording a translation session (speaker, translation and transcripts), null if
+   * session recording is disabled. An existing recorder for the session is returned as is.
+   * The bundle is written by {@link finishSessionRecording}.
+   */
+  startSessionRecording(info: SessionRecordingInfo, sampleRate: number): SessionRecorder | null {
+    if (!this.sessionRecordingConfig.enabled) {
+      return null;
+    }
+    const existing = this.sessionRecorders.get(info.sessionId);
+    if (existing) {
+      return existing;
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const base = path.join(this.recordingsDirectory, `session_${timestamp}_${info.sessionId.substring(0, 8)}`);
+    const temp = path.join(os.tmpdir(), `session_${info.sessionId}`);
+    const recorder = new SessionRecorder(
+      info,
+      {
+        audio: `${base}.wav`,
+        timeline: `${base}.json`,
+        subtitles: `${base}.vtt`,
+        inputPcm: `${temp}.input.pcm`,
+        outputPcm: `${temp}.output.pcm`,
+      },
+      sampleRate,
+      this.sessionRecordingConfig.maxDurationSeconds * 1000,
+    );
+    this.sessionRecorders.set(info.sessionId, recorder);
+    this.logger.log(`Started session recording for ${info.gateway} session ${info.sessionId}`);
+    return recorder;
+  }
+
+  /** Writes the WAV, timeline and subtitles of a session recording; null if there was none or writing failed. */
+  async finishSessionRecording(sessionId: string): Promise<SessionTimeline | null> {
+    const recorder = this.sessionRecorders.get(sessionId);
+    if (!recorder) {
+      return null;
+    }
+    this.sessionRecorders.delete(sessionId);
+    try {
+      const timeline = await recorder.finish();
+      this.logger.log(
+        `Session recording ${sessionId} completed: ${timeline.audio} (${(timeline.durationMs / 1000).toFixed(2)}s, ` +
+          `${timeline.entries.length} timeline entries)`,
+      );
+      return timeline;
+    } catch (error) {
+      this.logger.error(`Error writing session recording ${sessionId}:`, error);
+      return null;
+    }
+  }
+
   addAudioChunk(sessionId: string, chunkData: Buffer): boolean {
     const session = this.activeSessions.get(sessionId);
     if (!session || session.status !== 'recording') {
@@ -210,7 +298,15 @@ export class AudioRecordingService {
     return this.activeSessions.get(sessionId) || null;
   }
 
-  getAllRecordings(): { file: string; size: number; created: Date; format: string; duration?: number }[] {
+  getAllRecordings(): {
+    file: string;
+    size: number;
+    created: Date;
+    format: string;
+    duration?: number;
+    /** Timeline and subtitles of a session recording. */
+    attachments?: string[];
+  }[] {
     try {
       if (!fs.existsSync(this.recordingsDirectory)) {
         return [];
@@ -229,6 +325,7 @@ export class AudioRecordingService {
             created: stats.birthtime,
             format: ext,
             // Duration calculation would require media parsing for WebM - skip for now
+            attachments: SESSION_RECORDING_PATTERN.test(file) ? this.getSessionAttachments(file) : undefined,
           };
         })
         .sort((a, b) => b.created.getTime() - a.created.getTime());
@@ -251,6 +348,10 @@ export class AudioRecordingService {
       const filePath = path.join(this.recordingsDirectory, filename);
       if (fs.existsSync(filePath)) {
         fs.unlinkSync(filePath);
+        // Timeline und Untertitel gehören zur Aufnahme und gehen mit
+        if (SESSION_RECORDING_PATTERN.test(filename)) {
+          this.getSessionAttachments(filename).forEach((file) => fs.unlinkSync(path.join(this.recordingsDirectory, file)));
+        }
         this.logger.log(`Recording deleted: ${filename}`);
         return true;
       }
@@ -263,12 +364,19 @@ export class AudioRecordingService {
 
   getRecordingFilePath(filename: string): string {
     // Security check
-    if (!filename.match(/\.(webm|wav)$/i)) {
-      throw new Error('Only WebM and WAV files are supported');
+    if (!filename.match(/\.(webm|wav)$/i) && !filename.match(/^session_[\w-]+\.(json|vtt)$/i)) {
+      throw new Error('Only WebM and WAV files and session timelines are supported');
     }
     return path.join(this.recordingsDirectory, filename);
   }
 
+  private getSessionAttachments(audioFile: string): string[] {
+    const base = audioFile.replace(/\.wav$/i, '');
+    return SESSION_ATTACHMENTS.map((ext) => `${base}.${ext}`).filter((file) =>
+      fs.existsSync(path.join(this.recordingsDirectory, file)),
+    );
+  }
+
   cleanupExpiredSessions(): void {
     const now = Date.now();
     const maxAge = 30 * 60 * 1000; // 30 minutes
@@ -291,7 +399,7 @@ export class AudioRecordingService {
   }
 
   getActiveSessionsCount(): number {
-    return this.activeSessions.size;
+    return this.activeSessions.size + this.sessionRecorders.size;
   }
 
   getRecordingStats(): {
@@ -0,0 +1,148 @@
+import { Injectable, Logger, OnApplicationShutdown, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+
+/** Interval of the safety sweep that releases scopes whose connection is already gone. */
+const LEAK_SWEEP_INTERVAL_MS = 30_000;
+
+export type ResourceKind =
+  | 'quota_session'
+  | 'upstream_session'
+  | 'conversation'
+  | 'transcoder'
+  | 'socket_stream'
+  | 'room_membership'
+  | 'signaling_peer'
+  | 'webrtc_peer'
+  | 'session_recording';
+
+export interface ResourceStats {
+  /** Open scopes, one per client connection. */
+  scopes: number;
+  scopesByOwner: Record<string, number>;
+  resources: number;
+  resourcesByKind: Partial<Record<ResourceKind, number>>;
+  tracked: number;
+  released: number;
+  /** Resources whose `close()` threw. */
+  closeErrors: number;
+  /** Resources registered after their scope was released, closed right away. */
+  lateRegistrations: number;
+  /** Resources still held by scopes whose connection is gone, should stay 0. */
+  leaked: number;
+  /** Resources the sweep had to release because nobody else did. */
+  leaksReclaimed: number;
+}
+
+type TrackedResource = { kind: ResourceKind; close: () => void };
+
+type ResourceScope = {
+  id: string;
+  owner: string;
+  openedAt: number;
+  /** False once the owning connection is closed. */
+  isAlive: () => boolean;
+  resources: TrackedResource[];
+};
+
+/**
+ * Tracks every per-connection resource (quota slot, upstream session,
+ * transcoder, ...) in a scope per connection and closes them in reverse
+ * order when the connection ends, fails or the application shuts down.
+ */
+@Injectable()
+export class ResourceLifecycleService implements OnModuleInit, OnModuleDestroy, OnApplicationShutdown {
+  private readonly logger = new Logger(ResourceLifecycleService.name);
+  private readonly scopes = new Map<string, ResourceScope>();
+  private readonly counters = { tracked: 0, released: 0, closeErrors: 0, lateRegistrations: 0, leaksReclaimed: 0 };
+  private sweepTimer?: NodeJS.Timeout;
+
+  onModuleInit(): void {
+    this.sweepTimer = setInterval(() => this.sweepLeaks(), LEAK_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  onApplicationShutdown(signal?: string): void {
+    const scopes = [...this.scopes.keys()];
+    scopes.forEach((scopeId) => this.releaseScope(scopeId, signal ?? 'shutdown'));
+    if (scopes.length > 0) {
+      this.logger.log(`Released ${scopes.length} connection scope(s) on shutdown`);
+    }
+  }
+
+  openScope(scopeId: string, owner: string, isAlive: () => boolean): void {
+    this.releaseScope(scopeId, 'reopened');
+    this.scopes.set(scopeId, { id: scopeId, owner, openedAt: Date.now(), isAlive, resources: [] });
+  }
+
+  /** Registers a resource of the scope; if the scope is already gone it is closed immediately. */
+  track(scopeId: string, kind: ResourceKind, close: () => void): void {
+    const scope = this.scopes.get(scopeId);
+    const resource = { kind, close };
+    this.counters.tracked += 1;
+    if (!scope) {
+      this.counters.lateRegistrations += 1;
+      this.logger.warn(`${kind} registered after scope ${scopeId} was released, closing it`);
+      this.closeResource(scopeId, resource);
+      return;
+    }
+    scope.resources.push(resource);
+  }
+
+  /** Closes all resources of the scope, newest first. Returns how many were released. */
+  releaseScope(scopeId: string, reason: string): number {
+    const scope = this.scopes.get(scopeId);
+    if (!scope) {
+      return 0;
+    }
+    // Erst austragen, damit Close-Handler, die erneut releaseScope aufrufen, nichts doppelt schließen
+    this.scopes.delete(scopeId);
+    const resources = scope.resources.reverse();
+    resources.forEach((resource) => this.closeResource(scopeId, resource));
+    this.logger.debug(`Scope ${scopeId} of ${scope.owner} released (${reason}, ${resources.length} resources)`);
+    return resources.length;
+  }
+
+  getStats(): ResourceStats {
+    const scopesByOwner: Record<string, number> = {};
+    const resourcesByKind: Partial<Record<ResourceKind, number>> = {};
+    let resources = 0;
+    let leaked = 0;
+    for (const scope of this.scopes.values()) {
+      scopesByOwner[scope.owner] = (scopesByOwner[scope.owner] ?? 0) + 1;
+      resources += scope.resources.length;
+      scope.resources.forEach((resource) => {
+        resourcesByKind[resource.kind] = (resourcesByKind[resource.kind] ?? 0) + 1;
+      });
+      if (!scope.isAlive()) {
+        leaked += scope.resources.length;
+      }
+    }
+    return { scopes: this.scopes.size, scopesByOwner, resources, resourcesByKind, leaked, ...this.counters };
+  }
+
+  /** Releases scopes whose connection closed without a disconnect handler cleaning up. */
+  sweepLeaks(): number {
+    let reclaimed = 0;
+    for (const scope of [...this.scopes.values()]) {
+      if (!scope.isAlive()) {
+        this.logger.warn(`Scope ${scope.id} of ${scope.owner} outlived its connection, releasing it`);
+        reclaimed += this.releaseScope(scope.id, 'leak');
+      }
+    }
+    this.counters.leaksReclaimed += reclaimed;
+    return reclaimed;
+  }
+
+  private closeResource(scopeId: string, resource: TrackedResource): void {
+    try {
+      resource.close();
+      this.counters.released += 1;
+    } catch (err) {
+      this.counters.closeErrors += 1;
+      this.logger.error(`Closing ${resource.kind} of scope ${scopeId} failed: ${(err as Error).message}`);
+    }
+  }
+}
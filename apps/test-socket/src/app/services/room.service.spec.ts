@@ -0,0 +1,169 @@
+import { TtsChunkPayload } from '../../services/openai-rtc.service';
+import { RoomRole } from '../models/msg.model';
+import { RoomJoinError, RoomMember, RoomService } from './room.service';
+
+type TestMember = RoomMember & {
+  audio: TtsChunkPayload[];
+  inbox: Array<Record<string, unknown>>;
+};
+
+function member(id: string, role: RoomRole, fields: Partial<RoomMember> = {}): TestMember {
+  const audio: TtsChunkPayload[] = [];
+  const inbox: Array<Record<string, unknown>> = [];
+  return {
+    id,
+    role,
+    audio,
+    inbox,
+    deliverAudio: (payload) => audio.push(payload),
+    send: (message) => inbox.push(message),
+    ...fields,
+  };
+}
+
+const chunk = { base64: 'AAAA', sampleRate: 24_000 } as TtsChunkPayload;
+
+describe('RoomService', () => {
+  let rooms: RoomService;
+
+  beforeEach(() => {
+    rooms = new RoomService({ maxListenersPerRoom: 2, maxLanguagesPerSpeaker: 3 });
+  });
+
+  it('joins speaker and listeners and tells every member about changes', () => {
+    const speaker = member('s', 'speaker', { name: 'Anna', languages: ['en'] });
+    const listener = member('l1', 'listener');
+
+    rooms.join('room', speaker);
+    const snapshot = rooms.join('room', listener);
+
+    expect(snapshot).toEqual({
+      roomId: 'room',
+      speaker: { id: 's', name: 'Anna' },
+      languages: ['en'],
+      listenerCount: 1,
+      listenersByLanguage: { en: 1 },
+    });
+    expect(speaker.inbox.at(-1)).toEqual({ type: 'room.updated', ...snapshot });
+    expect(listener.inbox.at(-1)).toEqual({ type: 'room.updated', ...snapshot });
+    expect(rooms.getRole('s')).toBe('speaker');
+    expect(rooms.getRole('l1')).toBe('listener');
+  });
+
+  it('allows one speaker and caps the listeners', () => {
+    rooms.join('room', member('s', 'speaker'));
+    rooms.join('room', member('l1', 'listener'));
+    rooms.join('room', member('l2', 'listener'));
+
+    expect(() => rooms.join('room', member('s2', 'speaker'))).toThrow(
+      expect.objectContaining({ reason: 'speaker_taken' }),
+    );
+    expect(() => rooms.join('room', member('l3', 'listener'))).toThrow(RoomJoinError);
+    expect(() => rooms.join('room', member('l3', 'listener'))).toThrow("Room 'room' is full");
+    // Erneuter Beitritt eines vorhandenen Zuhörers zählt nicht doppelt
+    expect(rooms.join('room', member('l2', 'listener')).listenerCount).toBe(2);
+  });
+
+  it('keeps the old membership when joining another room fails', () => {
+    rooms.join('a', member('l1', 'listener'));
+    rooms.join('b', member('s', 'speaker'));
+    rooms.join('b', member('l2', 'listener'));
+    rooms.join('b', member('l3', 'listener'));
+
+    expect(() => rooms.join('b', member('l1', 'listener'))).toThrow(RoomJoinError);
+    expect(rooms.getRoomOf('l1')?.roomId).toBe('a');
+  });
+
+  it('leaves the previous room on join and removes empty rooms', () => {
+    const speaker = member('s', 'speaker');
+    rooms.join('a', speaker);
+    rooms.join('a', member('l1', 'listener'));
+
+    rooms.join('b', member('l1', 'listener'));
+    expect(speaker.inbox.at(-1)).toMatchObject({ type: 'room.updated', roomId: 'a', listenerCount: 0 });
+    expect(rooms.leave('s')).toBeNull();
+    expect(rooms.listRooms().map((room) => room.roomId)).toEqual(['b']);
+    expect(rooms.leave('l1')).toBeNull();
+    expect(rooms.listRooms()).toEqual([]);
+    expect(rooms.getRole('l1')).toBeNull();
+  });
+
+  it('keeps listeners in the room when the speaker leaves', () => {
+    rooms.join('room', member('s', 'speaker'));
+    const listener = member('l1', 'listener');
+    rooms.join('room', listener);
+
+    expect(rooms.leave('s')).toMatchObject({ speaker: null, listenerCount: 1 });
+    expect(listener.inbox.at(-1)).toMatchObject({ type: 'room.updated', speaker: null });
+  });
+
+  it('fans the speaker audio and events out to the listeners only', () => {
+    const speaker = member('s', 'speaker', { languages: ['en'] });
+    const listener = member('l1', 'listener');
+    const broken = member('l2', 'listener', {
+      deliverAudio: () => {
+        throw new Error('socket closed');
+      },
+    });
+    rooms.join('room', speaker);
+    rooms.join('room', broken);
+    rooms.join('room', listener);
+
+    rooms.publishAudio('s', 'en', chunk);
+    rooms.publishEvent('s', 'en', { type: 'transcript.final', text: 'Hello' });
+    // Nur der Sprecher des Raums darf veröffentlichen
+    rooms.publishAudio('l1', 'en', chunk);
+
+    expect(listener.audio).toEqual([chunk]);
+    expect(listener.inbox.at(-1)).toEqual({ type: 'transcript.final', text: 'Hello' });
+    expect(speaker.audio).toEqual([]);
+  });
+
+  describe('language channels', () => {
+    it('limits the languages a speaker may offer', () => {
+      expect(() => rooms.join('room', member('s', 'speaker', { languages: ['en', 'fr', 'es', 'it'] }))).toThrow(
+        expect.objectContaining({ reason: 'too_many_languages' }),
+      );
+      expect(rooms.listRooms()).toEqual([]);
+      expect(rooms.join('room', member('s', 'speaker', { languages: ['en', 'fr', 'es'] })).languages).toEqual([
+        'en',
+        'fr',
+        'es',
+      ]);
+    });
+
+    it('only lets listeners pick a language the speaker offers', () => {
+      // Ohne Sprecher steht noch nicht fest, welche Sprachen es gibt
+      expect(rooms.join('room', member('early', 'listener', { language: 'fr' })).listenerCount).toBe(1);
+      rooms.join('room', member('s', 'speaker', { languages: ['en', 'fr'] }));
+
+      expect(() => rooms.join('room', member('l1', 'listener', { language: 'es' }))).toThrow(
+        expect.objectContaining({ reason: 'language_unavailable' }),
+      );
+      expect(rooms.join('room', member('l1', 'listener')).listenersByLanguage).toEqual({ en: 1, fr: 1 });
+    });
+
+    it('delivers each channel to its own listeners', () => {
+      rooms.join('room', member('s', 'speaker', { languages: ['en', 'fr'] }));
+      const english = member('l1', 'listener');
+      const french = member('l2', 'listener', { language: 'fr' });
+      rooms.join('room', english);
+      rooms.join('room', french);
+
+      rooms.publishAudio('s', 'fr', chunk);
+      expect(french.audio).toEqual([chunk]);
+      expect(english.audio).toEqual([]);
+    });
+
+    it('announces channels the speaker lost', () => {
+      rooms.join('room', member('s', 'speaker', { languages: ['en', 'fr'] }));
+      const listener = member('l1', 'listener');
+      rooms.join('room', listener);
+
+      rooms.setLanguages('s', ['en']);
+      rooms.setLanguages('l1', []);
+      expect(rooms.getRoomOf('s')?.languages).toEqual(['en']);
+      expect(listener.inbox.at(-1)).toMatchObject({ type: 'room.updated', languages: ['en'] });
+    });
+  });
+});
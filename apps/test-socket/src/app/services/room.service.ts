@@ -0,0 +1,225 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { TtsChunkPayload } from '../../services/openai-rtc.service';
+import { RoomRole, roomRoles } from '../models/msg.model';
+
+export const ROOM_CONFIG = 'ROOM_CONFIG';
+
+export interface RoomConfig {
+  maxListenersPerRoom: number;
+  /** Target languages a speaker may offer at once, each costs an upstream session. */
+  maxLanguagesPerSpeaker: number;
+}
+
+/** Reads `ROOM_MAX_LISTENERS` (default 100) and `ROOM_MAX_LANGUAGES` (default 4) from the environment. */
+export function loadRoomConfig(env: NodeJS.ProcessEnv = process.env): RoomConfig {
+  return {
+    maxListenersPerRoom: Number(env.ROOM_MAX_LISTENERS ?? 100),
+    maxLanguagesPerSpeaker: Number(env.ROOM_MAX_LANGUAGES ?? 4),
+  };
+}
+
+export type RoomJoinErrorReason = 'speaker_taken' | 'room_full' | 'language_unavailable' | 'too_many_languages';
+
+const JOIN_ERROR_MESSAGES: Record<RoomJoinErrorReason, string> = {
+  speaker_taken: 'already has a speaker',
+  room_full: 'is full',
+  language_unavailable: 'does not offer this language',
+  too_many_languages: 'allows fewer target languages per speaker',
+};
+
+export class RoomJoinError extends Error {
+  constructor(readonly reason: RoomJoinErrorReason, readonly roomId: string) {
+    super(`Room '${roomId}' ${JOIN_ERROR_MESSAGES[reason]}`);
+  }
+}
+
+/** A connection in a room, the gateway decides how messages reach its client. */
+export interface RoomMember {
+  /** Session id of the connection. */
+  id: string;
+  name?: string;
+  role: RoomRole;
+  /** Speaker: target languages offered, the first one is its own upstream session. */
+  languages?: string[];
+  /** Listener: language channel, defaults to the speaker's first language. */
+  language?: string;
+  /** Translated audio of the room's speaker. */
+  deliverAudio(payload: TtsChunkPayload): void;
+  /** JSON events: transcripts, upstream state and `room.updated`. */
+  send(message: Record<string, unknown>): void;
+}
+
+export interface RoomSnapshot {
+  roomId: string;
+  speaker: { id: string; name?: string } | null;
+  /** Language channels of the speaker, empty without speaker. */
+  languages: string[];
+  listenerCount: number;
+  listenersByLanguage: Record<string, number>;
+}
+
+type Room = {
+  id: string;
+  createdAt: number;
+  speaker?: RoomMember;
+  listeners: Map<string, RoomMember>;
+};
+
+/**
+ * Translation rooms: one speaker whose upstream sessions translate (one per
+ * target language), any number of listeners that receive the audio and
+ * transcripts of their language channel without an upstream of their own.
+ * Rooms are created on the first join and removed when empty.
+ */
+@Injectable()
+export class RoomService {
+  private readonly logger = new Logger(RoomService.name);
+  private readonly config: RoomConfig;
+  private readonly rooms = new Map<string, Room>();
+  /** Member id → room id. */
+  private readonly memberships = new Map<string, string>();
+
+  constructor(@Optional() @Inject(ROOM_CONFIG) config?: RoomConfig) {
+    this.config = config ?? loadRoomConfig();
+  }
+
+  /** Joins the room, leaving the previous one; on a {@link RoomJoinError} the old membership is kept. */
+  join(roomId: string, member: RoomMember): RoomSnapshot {
+    const room = this.rooms.get(roomId);
+    if (room && member.role === roomRoles.enum.speaker && room.speaker && room.speaker.id !== member.id) {
+      throw new RoomJoinError('speaker_taken', roomId);
+    }
+    if (
+      room &&
+      member.role === roomRoles.enum.listener &&
+      !room.listeners.has(member.id) &&
+      room.listeners.size >= this.config.maxListenersPerRoom
+    ) {
+      throw new RoomJoinError('room_full', roomId);
+    }
+    if ((member.languages?.length ?? 0) > this.config.maxLanguagesPerSpeaker) {
+      throw new RoomJoinError('too_many_languages', roomId);
+    }
+    // Ohne Sprecher ist noch offen, welche Sprachen es gibt
+    if (member.language && room?.speaker && !this.languagesOf(room).includes(member.language)) {
+      throw new RoomJoinError('language_unavailable', roomId);
+    }
+
+    this.leave(member.id);
+    const target: Room = this.rooms.get(roomId) ?? { id: roomId, createdAt: Date.now(), listeners: new Map() };
+    this.rooms.set(roomId, target);
+    if (member.role === roomRoles.enum.speaker) {
+      target.speaker = member;
+    } else {
+      target.listeners.set(member.id, member);
+    }
+    this.memberships.set(member.id, roomId);
+    this.logger.log(`${member.id} joined room ${roomId} as ${member.role} (${target.listeners.size} listeners)`);
+    this.notify(target);
+    return this.snapshot(target);
+  }
+
+  /** Returns the room as it is after leaving, null if the member was in no room or the room is gone. */
+  leave(memberId: string): RoomSnapshot | null {
+    const roomId = this.memberships.get(memberId);
+    const room = roomId ? this.rooms.get(roomId) : undefined;
+    this.memberships.delete(memberId);
+    if (!room) {
+      return null;
+    }
+    if (room.speaker?.id === memberId) {
+      room.speaker = undefined;
+    }
+    room.listeners.delete(memberId);
+    this.logger.log(`${memberId} left room ${room.id}`);
+
+    if (!room.speaker && room.listeners.size === 0) {
+      this.rooms.delete(room.id);
+      return null;
+    }
+    this.notify(room);
+    return this.snapshot(room);
+  }
+
+  /** Updates the speaker's language channels, e.g. when one could not be opened. */
+  setLanguages(speakerId: string, languages: string[]): void {
+    const room = this.rooms.get(this.memberships.get(speakerId) ?? '');
+    if (room?.speaker?.id === speakerId) {
+      room.speaker.languages = languages;
+      this.notify(room);
+    }
+  }
+
+  getRole(memberId: string): RoomRole | null {
+    const room = this.rooms.get(this.memberships.get(memberId) ?? '');
+    if (!room) {
+      return null;
+    }
+    return room.speaker?.id === memberId ? roomRoles.enum.speaker : roomRoles.enum.listener;
+  }
+
+  getRoomOf(memberId: string): RoomSnapshot | null {
+    const room = this.rooms.get(this.memberships.get(memberId) ?? '');
+    return room ? this.snapshot(room) : null;
+  }
+
+  listRooms(): RoomSnapshot[] {
+    return [...this.rooms.values()].map((room) => this.snapshot(room));
+  }
+
+  /** Fans the speaker's translated audio out to the listeners of the language channel. */
+  publishAudio(speakerId: string, language: string, payload: TtsChunkPayload): void {
+    this.forEachListener(speakerId, language, (listener) => listener.deliverAudio(payload));
+  }
+
+  publishEvent(speakerId: string, language: string, message: Record<string, unknown>): void {
+    this.forEachListener(speakerId, language, (listener) => listener.send(message));
+  }
+
+  private forEachListener(speakerId: string, language: string, deliver: (listener: RoomMember) => void): void {
+    const room = this.rooms.get(this.memberships.get(speakerId) ?? '');
+    if (room?.speaker?.id !== speakerId) {
+      return;
+    }
+    const primary = this.languagesOf(room)[0];
+    for (const listener of room.listeners.values()) {
+      if ((listener.language ?? primary) !== language) {
+        continue;
+      }
+      // Ein kaputter Listener darf die anderen nicht blockieren
+      try {
+        deliver(listener);
+      } catch (err) {
+        this.logger.warn(`Delivery to listener ${listener.id} in room ${room.id} failed: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  /** Sends `room.updated` with speaker and listener count to every member. */
+  private notify(room: Room): void {
+    const message = { type: 'room.updated', ...this.snapshot(room) };
+    [room.speaker, ...room.listeners.values()].filter(Boolean).forEach((member) => member.send(message));
+  }
+
+  private languagesOf(room: Room): string[] {
+    return room.speaker?.languages ?? [];
+  }
+
+  private snapshot(room: Room): RoomSnapshot {
+    const languages = this.languagesOf(room);
+    const listenersByLanguage: Record<string, number> = {};
+    for (const listener of room.listeners.values()) {
+      const language = listener.language ?? languages[0];
+      if (language) {
+        listenersByLanguage[language] = (listenersByLanguage[language] ?? 0) + 1;
+      }
+    }
+    return {
+      roomId: room.id,
+      speaker: room.speaker ? { id: room.speaker.id, name: room.speaker.name } : null,
+      languages,
+      listenerCount: room.listeners.size,
+      listenersByLanguage,
+    };
+  }
+}
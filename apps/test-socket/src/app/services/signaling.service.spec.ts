@@ -0,0 +1,98 @@
+import { SignalingPeer, SignalingRoomFullError, SignalingService } from './signaling.service';
+
+type TestPeer = SignalingPeer & { inbox: Array<Record<string, unknown>> };
+
+function peer(id: string, name?: string): TestPeer {
+  const inbox: Array<Record<string, unknown>> = [];
+  return { id, name, inbox, send: (message) => inbox.push(message) };
+}
+
+describe('SignalingService', () => {
+  let signaling: SignalingService;
+
+  beforeEach(() => {
+    signaling = new SignalingService({ maxPeersPerRoom: 2 });
+  });
+
+  it('announces joins to the peers already in the room', () => {
+    const alice = peer('alice', 'Alice');
+    const bob = peer('bob');
+
+    expect(signaling.join('room', alice)).toEqual([]);
+    expect(signaling.join('room', bob)).toEqual([expect.objectContaining({ id: 'alice', name: 'Alice', muted: false })]);
+    expect(alice.inbox).toEqual([expect.objectContaining({ type: 'peer-joined', id: 'bob' })]);
+    expect(bob.inbox).toEqual([]);
+    expect(signaling.getPeerCount()).toBe(2);
+  });
+
+  it('rejects peers of full rooms and keeps their old membership', () => {
+    signaling.join('room', peer('alice'));
+    signaling.join('room', peer('bob'));
+    const carol = peer('carol');
+    signaling.join('lobby', carol);
+
+    expect(() => signaling.join('room', carol)).toThrow(SignalingRoomFullError);
+    expect(signaling.getRoomOf('carol')).toBe('lobby');
+  });
+
+  it('leaves the previous room when joining another one', () => {
+    const alice = peer('alice');
+    const bob = peer('bob');
+    signaling.join('room', alice);
+    signaling.join('room', bob);
+    signaling.setMuted('bob', true);
+
+    signaling.join('other', bob);
+    expect(alice.inbox).toContainEqual({ type: 'peer-left', id: 'bob' });
+    expect(signaling.getRoomOf('bob')).toBe('other');
+    expect(signaling.listRooms()).toEqual([
+      { roomId: 'room', peers: [expect.objectContaining({ id: 'alice' })] },
+      { roomId: 'other', peers: [expect.objectContaining({ id: 'bob', muted: true })] },
+    ]);
+  });
+
+  it('relays messages only within a room and sets the sender', () => {
+    const alice = peer('alice');
+    const bob = peer('bob');
+    const eve = peer('eve');
+    signaling.join('room', alice);
+    signaling.join('room', bob);
+    signaling.join('other', eve);
+
+    expect(signaling.relay('alice', 'bob', { type: 'offer', from: 'eve' })).toBe(true);
+    expect(bob.inbox).toEqual([{ type: 'offer', from: 'alice', to: 'bob' }]);
+    expect(signaling.relay('eve', 'bob', { type: 'offer' })).toBe(false);
+    expect(signaling.relay('alice', 'nobody', { type: 'offer' })).toBe(false);
+    expect(bob.inbox).toHaveLength(1);
+  });
+
+  it('broadcasts mute changes to the other peers', () => {
+    const alice = peer('alice');
+    const bob = peer('bob');
+    signaling.join('room', alice);
+    signaling.join('room', bob);
+
+    expect(signaling.setMuted('alice', true)).toBe(true);
+    expect(bob.inbox).toContainEqual({ type: 'mute', id: 'alice', muted: true });
+    expect(alice.inbox).not.toContainEqual(expect.objectContaining({ type: 'mute' }));
+    expect(signaling.setMuted('nobody', true)).toBe(false);
+  });
+
+  it('removes empty rooms and keeps delivering when one peer fails', () => {
+    const alice = peer('alice');
+    const broken: SignalingPeer = {
+      id: 'broken',
+      send: () => {
+        throw new Error('socket closed');
+      },
+    };
+    signaling.join('room', broken);
+    signaling.join('room', alice);
+
+    expect(signaling.leave('alice')).toBe('room');
+    expect(signaling.leave('broken')).toBe('room');
+    expect(signaling.leave('broken')).toBeNull();
+    expect(signaling.listRooms()).toEqual([]);
+    expect(signaling.getPeerCount()).toBe(0);
+  });
+});
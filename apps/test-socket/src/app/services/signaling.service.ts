@@ -0,0 +1,158 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { PeerPresence } from '../models/signaling.model';
+
+export const SIGNALING_CONFIG = 'SIGNALING_CONFIG';
+
+export interface SignalingConfig {
+  /** Peers per room; the clients build a full mesh, so every peer costs each other peer a connection. */
+  maxPeersPerRoom: number;
+}
+
+/** Reads `SIGNALING_MAX_PEERS` (default 10) from the environment. */
+export function loadSignalingConfig(env: NodeJS.ProcessEnv = process.env): SignalingConfig {
+  return {
+    maxPeersPerRoom: Number(env.SIGNALING_MAX_PEERS ?? 10),
+  };
+}
+
+export class SignalingRoomFullError extends Error {
+  constructor(readonly roomId: string) {
+    super(`Room '${roomId}' is full`);
+  }
+}
+
+/** A connected peer, the gateway decides how messages reach its client. */
+export interface SignalingPeer {
+  id: string;
+  name?: string;
+  send(message: Record<string, unknown>): void;
+}
+
+export interface SignalingRoomSnapshot {
+  roomId: string;
+  peers: PeerPresence[];
+}
+
+type PeerState = SignalingPeer & { roomId: string; muted: boolean; joinedAt: Date };
+
+/**
+ * Presence and room membership for WebRTC signaling. Media flows directly
+ * between the peers; the server only relays offers, answers and ICE
+ * candidates and tells the room who joined, left or muted.
+ */
+@Injectable()
+export class SignalingService {
+  private readonly logger = new Logger(SignalingService.name);
+  private readonly config: SignalingConfig;
+  /** Room id → peer id → peer. */
+  private readonly rooms = new Map<string, Map<string, PeerState>>();
+  /** Peer id → room id. */
+  private readonly memberships = new Map<string, string>();
+
+  constructor(@Optional() @Inject(SIGNALING_CONFIG) config?: SignalingConfig) {
+    this.config = config ?? loadSignalingConfig();
+  }
+
+  /**
+   * Joins the room, leaving the previous one, and announces the peer with `peer-joined`.
+   * Returns the peers that were already there; on {@link SignalingRoomFullError} the old membership is kept.
+   */
+  join(roomId: string, peer: SignalingPeer): PeerPresence[] {
+    const room = this.rooms.get(roomId);
+    if (room && !room.has(peer.id) && room.size >= this.config.maxPeersPerRoom) {
+      throw new SignalingRoomFullError(roomId);
+    }
+
+    const muted = this.getPeer(peer.id)?.muted ?? false;
+    this.leave(peer.id);
+    const target = this.rooms.get(roomId) ?? new Map<string, PeerState>();
+    this.rooms.set(roomId, target);
+    const others = [...target.values()].map((other) => this.presence(other));
+
+    const state: PeerState = { ...peer, roomId, muted, joinedAt: new Date() };
+    target.set(peer.id, state);
+    this.memberships.set(peer.id, roomId);
+    this.logger.log(`Peer ${peer.id} joined signaling room ${roomId} (${target.size} peers)`);
+    this.broadcast(state, { type: 'peer-joined', ...this.presence(state) });
+    return others;
+  }
+
+  /** Removes the peer from its room and announces it with `peer-left`; returns the room id it was in. */
+  leave(peerId: string): string | null {
+    const state = this.getPeer(peerId);
+    this.memberships.delete(peerId);
+    if (!state) {
+      return null;
+    }
+    const room = this.rooms.get(state.roomId);
+    room.delete(peerId);
+    if (room.size === 0) {
+      this.rooms.delete(state.roomId);
+    }
+    this.logger.log(`Peer ${peerId} left signaling room ${state.roomId}`);
+    this.broadcast(state, { type: 'peer-left', id: peerId });
+    return state.roomId;
+  }
+
+  /** Stores the mute state and tells the other peers of the room, false if the peer is in no room. */
+  setMuted(peerId: string, muted: boolean): boolean {
+    const state = this.getPeer(peerId);
+    if (!state) {
+      return false;
+    }
+    state.muted = muted;
+    this.broadcast(state, { type: 'mute', id: peerId, muted });
+    return true;
+  }
+
+  /** Delivers a signaling message with `from`, only to a peer in the same room. */
+  relay(fromId: string, toId: string, message: Record<string, unknown>): boolean {
+    const from = this.getPeer(fromId);
+    const to = this.getPeer(toId);
+    if (!from || !to || from.roomId !== to.roomId) {
+      return false;
+    }
+    this.deliver(to, { ...message, to: toId, from: fromId });
+    return true;
+  }
+
+  getRoomOf(peerId: string): string | null {
+    return this.memberships.get(peerId) ?? null;
+  }
+
+  listRooms(): SignalingRoomSnapshot[] {
+    return [...this.rooms.entries()].map(([roomId, peers]) => ({
+      roomId,
+      peers: [...peers.values()].map((peer) => this.presence(peer)),
+    }));
+  }
+
+  getPeerCount(): number {
+    return this.memberships.size;
+  }
+
+  private getPeer(peerId: string): PeerState | undefined {
+    return this.rooms.get(this.memberships.get(peerId) ?? '')?.get(peerId);
+  }
+
+  private broadcast(sender: PeerState, message: Record<string, unknown>): void {
+    for (const peer of this.rooms.get(sender.roomId)?.values() ?? []) {
+      if (peer.id !== sender.id) {
+        this.deliver(peer, message);
+      }
+    }
+  }
+
+  private deliver(peer: PeerState, message: Record<string, unknown>): void {
+    // Ein kaputter Peer darf die anderen nicht blockieren
+    try {
+      peer.send(message);
+    } catch (err) {
+      this.logger.warn(`Delivery to peer ${peer.id} failed: ${(err as Error).message}`);
+    }
+  }
+
+  private presence(peer: PeerState): PeerPresence {
+    return { id: peer.id, name: peer.name, muted: peer.muted, joinedAt: peer.joinedAt.toISOString() };
+  }
+}
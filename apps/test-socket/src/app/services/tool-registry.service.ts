@@ -0,0 +1,95 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { z } from 'zod';
+import { RealtimeToolDefinition, RealtimeToolProvider } from '../helper/OpenAISocketHandler';
+
+export interface RealtimeToolOptions {
+  /** Function name the model calls, `snake_case` by convention. */
+  name: string;
+  description: string;
+  parameters: z.ZodObject;
+}
+
+/** Implemented by providers decorated with {@link RealtimeTool}. */
+export interface RealtimeToolHandler<TArgs = unknown> {
+  execute(args: TArgs): Promise<unknown> | unknown;
+}
+
+/**
+ * Marks a Nest provider as a tool the Realtime model may call:
+ *
+ * ```ts
+ * @RealtimeTool({ name: 'lookup_glossary', description: '...', parameters: z.object({ term: z.string() }) })
+ * @Injectable()
+ * export class GlossaryTool implements RealtimeToolHandler<{ term: string }> { ... }
+ * ```
+ */
+export const RealtimeTool = DiscoveryService.createDecorator<RealtimeToolOptions>();
+
+type RegisteredTool = RealtimeToolOptions & { handler: RealtimeToolHandler };
+
+/**
+ * Collects all {@link RealtimeTool} providers at startup, advertises them in
+ * `session.update` and executes the calls the model makes.
+ */
+@Injectable()
+export class ToolRegistryService implements OnModuleInit, RealtimeToolProvider {
+  private readonly logger = new Logger(ToolRegistryService.name);
+  private readonly tools = new Map<string, RegisteredTool>();
+
+  constructor(private readonly discovery: DiscoveryService) {}
+
+  onModuleInit(): void {
+    for (const wrapper of this.discovery.getProviders({ metadataKey: RealtimeTool.KEY })) {
+      const options = this.discovery.getMetadataByDecorator(RealtimeTool, wrapper);
+      const handler = wrapper.instance as RealtimeToolHandler;
+      if (!options || typeof handler?.execute !== 'function') {
+        this.logger.warn(`Provider ${wrapper.name} is decorated as tool but has no execute()`);
+        continue;
+      }
+      if (this.tools.has(options.name)) {
+        throw new Error(`Realtime tool '${options.name}' is registered twice`);
+      }
+      this.tools.set(options.name, { ...options, handler });
+    }
+    this.logger.log(`Realtime tools: ${[...this.tools.keys()].join(', ') || 'none'}`);
+  }
+
+  getDefinitions(): RealtimeToolDefinition[] {
+    return [...this.tools.values()].map((tool) => {
+      const parameters = z.toJSONSchema(tool.parameters, { io: 'input', unrepresentable: 'any' }) as Record<string, unknown>;
+      delete parameters.$schema;
+      return { type: 'function', name: tool.name, description: tool.description, parameters };
+    });
+  }
+
+  /**
+   * Validates the JSON arguments and runs the tool. Failures are returned as
+   * `{ "error": ... }` output so the model can tell the user instead of stalling.
+   */
+  async execute(name: string, rawArguments: string): Promise<string> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return JSON.stringify({ error: `Unknown tool '${name}'` });
+    }
+
+    let args: unknown;
+    try {
+      args = JSON.parse(rawArguments || '{}');
+    } catch {
+      return JSON.stringify({ error: 'Arguments are not valid JSON' });
+    }
+    const parsed = tool.parameters.safeParse(args);
+    if (!parsed.success) {
+      return JSON.stringify({ error: 'Invalid arguments', issues: parsed.error.issues });
+    }
+
+    try {
+      const result = await tool.handler.execute(parsed.data);
+      return typeof result === 'string' ? result : JSON.stringify(result ?? null);
+    } catch (err) {
+      this.logger.error(`Realtime tool '${name}' failed`, err as Error);
+      return JSON.stringify({ error: (err as Error).message ?? 'Tool execution failed' });
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { RTCPeerConnection } from 'werift';
+import { iceCandidateInitSchema, webrtcIceMessageSchema } from '../models/realtime-protocol.model';
+import { loadWebRtcConfig, WebRtcService } from './webrtc.service';
+
+function peerOptions() {
+  return {
+    inputSampleRate: 24_000,
+    onPcm: jest.fn(),
+    onDataChannelMessage: jest.fn(),
+    onIceCandidate: jest.fn(),
+    onStateChange: jest.fn(),
+  };
+}
+
+describe('loadWebRtcConfig', () => {
+  it('enables WebRTC with Google STUN by default', () => {
+    expect(loadWebRtcConfig({})).toEqual({
+      enabled: true,
+      iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+      icePortRange: undefined,
+    });
+  });
+
+  it('reads ICE servers and port range', () => {
+    const config = loadWebRtcConfig({
+      WEBRTC_ENABLED: 'false',
+      WEBRTC_ICE_SERVERS: 'stun:a.example, turn:b.example ,',
+      WEBRTC_PORT_RANGE: '40000-40100',
+    });
+    expect(config).toEqual({
+      enabled: false,
+      iceServers: [{ urls: 'stun:a.example' }, { urls: 'turn:b.example' }],
+      icePortRange: [40000, 40100],
+    });
+    // Unvollständige Bereiche werden ignoriert
+    expect(loadWebRtcConfig({ WEBRTC_PORT_RANGE: '40000' }).icePortRange).toBeUndefined();
+  });
+});
+
+describe('WebRtcService', () => {
+  let service: WebRtcService;
+
+  beforeEach(() => {
+    service = new WebRtcService({ enabled: true, iceServers: [] });
+  });
+
+  it('answers an audio offer and counts the peer until it is closed', async () => {
+    const browser = new RTCPeerConnection();
+    browser.addTransceiver('audio', { direction: 'sendrecv' });
+    const offer = await browser.createOffer();
+    await browser.setLocalDescription(offer);
+    const options = peerOptions();
+    const peer = service.createPeer(options);
+
+    try {
+      const answer = await peer.answer(offer.sdp);
+      expect(answer).toContain('m=audio');
+      expect(answer).toMatch(/opus\/48000/i);
+      expect(service.getStats()).toEqual({ enabled: true, peers: 1, connectedPeers: 0 });
+    } finally {
+      peer.close();
+      await browser.close();
+    }
+    expect(options.onStateChange).toHaveBeenLastCalledWith('closed');
+    expect(service.getStats().peers).toBe(0);
+  });
+
+  it('rejects offers the gateway has to answer with fallback', async () => {
+    const peer = service.createPeer(peerOptions());
+    try {
+      await expect(peer.answer('v=0\r\n')).rejects.toThrow();
+    } finally {
+      peer.close();
+    }
+  });
+
+  it('ignores the end-of-candidates marker', async () => {
+    const peer = service.createPeer(peerOptions());
+    try {
+      await expect(peer.addIceCandidate(null)).resolves.toBeUndefined();
+      await expect(peer.addIceCandidate({ candidate: '' })).resolves.toBeUndefined();
+    } finally {
+      peer.close();
+    }
+  });
+
+  it('reports whether WebRTC is enabled', () => {
+    expect(service.isEnabled()).toBe(true);
+    expect(new WebRtcService({ enabled: false, iceServers: [] }).getStats()).toEqual({
+      enabled: false,
+      peers: 0,
+      connectedPeers: 0,
+    });
+  });
+});
+
+describe('ICE candidate validation', () => {
+  const candidate = 'candidate:1 1 udp 2122260223 192.168.1.2 54321 typ host';
+
+  it('accepts browser candidates and the end of gathering', () => {
+    expect(
+      webrtcIceMessageSchema.safeParse({ type: 'ice', candidate: { candidate, sdpMid: '0', sdpMLineIndex: 0 } })
+        .success,
+    ).toBe(true);
+    expect(webrtcIceMessageSchema.safeParse({ type: 'ice', candidate: null }).success).toBe(true);
+    expect(iceCandidateInitSchema.safeParse({ candidate: '', sdpMid: null, usernameFragment: null }).success).toBe(
+      true,
+    );
+  });
+
+  it('rejects malformed candidates', () => {
+    expect(webrtcIceMessageSchema.safeParse({ type: 'ice' }).success).toBe(false);
+    expect(iceCandidateInitSchema.safeParse({ candidate: 42 }).success).toBe(false);
+    expect(iceCandidateInitSchema.safeParse({ candidate, sdpMLineIndex: -1 }).success).toBe(false);
+    expect(iceCandidateInitSchema.safeParse({ candidate, sdpMLineIndex: 0.5 }).success).toBe(false);
+    expect(iceCandidateInitSchema.safeParse({ candidate: 'a'.repeat(1025) }).success).toBe(false);
+  });
+});
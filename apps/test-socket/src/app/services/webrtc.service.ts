@@ -0,0 +1,81 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { WebRtcAudioPeer, WebRtcAudioPeerOptions } from '../helper/WebRtcAudioPeer';
+
+export const WEBRTC_CONFIG = 'WEBRTC_CONFIG';
+
+export interface WebRtcConfig {
+  /** When disabled, offers are answered with `fallback` and clients stay on the WebSocket. */
+  enabled: boolean;
+  iceServers: { urls: string }[];
+  /** UDP ports for ICE, e.g. to match a firewall rule; any port when unset. */
+  icePortRange?: [number, number];
+}
+
+/**
+ * Reads `WEBRTC_ENABLED` (default true), `WEBRTC_ICE_SERVERS` (comma-separated
+ * STUN/TURN URLs, default Google STUN) and `WEBRTC_PORT_RANGE` (`min-max`).
+ */
+export function loadWebRtcConfig(env: NodeJS.ProcessEnv = process.env): WebRtcConfig {
+  const [minPort, maxPort] = (env.WEBRTC_PORT_RANGE ?? '').split('-').map(Number);
+  return {
+    enabled: env.WEBRTC_ENABLED !== 'false',
+    iceServers: (env.WEBRTC_ICE_SERVERS ?? 'stun:stun.l.google.com:19302')
+      .split(',')
+      .map((url) => url.trim())
+      .filter(Boolean)
+      .map((urls) => ({ urls })),
+    icePortRange: minPort && maxPort ? [minPort, maxPort] : undefined,
+  };
+}
+
+export interface WebRtcStats {
+  enabled: boolean;
+  peers: number;
+  connectedPeers: number;
+}
+
+/**
+ * Creates the server-side peer connections of the realtime gateway with the
+ * configured ICE settings and keeps count of them for metrics and health.
+ * Callers own the peers and must `close()` them on disconnect.
+ */
+@Injectable()
+export class WebRtcService {
+  private readonly logger = new Logger(WebRtcService.name);
+  private readonly config: WebRtcConfig;
+  private readonly peers = new Set<WebRtcAudioPeer>();
+
+  constructor(@Optional() @Inject(WEBRTC_CONFIG) config?: WebRtcConfig) {
+    this.config = config ?? loadWebRtcConfig();
+    this.logger.log(`WebRTC endpoint ${this.config.enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  createPeer(options: Omit<WebRtcAudioPeerOptions, 'iceServers' | 'icePortRange'>): WebRtcAudioPeer {
+    const peer = new WebRtcAudioPeer({
+      ...options,
+      iceServers: this.config.iceServers,
+      icePortRange: this.config.icePortRange,
+      onStateChange: (state) => {
+        if (state === 'closed' || state === 'failed') {
+          this.peers.delete(peer);
+        }
+        options.onStateChange(state);
+      },
+    });
+    this.peers.add(peer);
+    return peer;
+  }
+
+  getStats(): WebRtcStats {
+    const peers = [...this.peers];
+    return {
+      enabled: this.config.enabled,
+      peers: peers.length,
+      connectedPeers: peers.filter((peer) => peer.getState() === 'connected').length,
+    };
+  }
+}
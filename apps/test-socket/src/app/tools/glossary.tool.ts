@@ -0,0 +1,69 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { z } from 'zod';
+import { RealtimeTool, RealtimeToolHandler } from '../services/tool-registry.service';
+
+export const GLOSSARY_CONFIG = 'GLOSSARY_CONFIG';
+
+export interface GlossaryConfig {
+  /** Term as spoken in the source language → mandatory translation. */
+  entries: Record<string, string>;
+}
+
+const glossaryArgsSchema = z.object({
+  term: z.string().min(1).describe('Term as spoken in the source language'),
+});
+
+type GlossaryArgs = z.infer<typeof glossaryArgsSchema>;
+
+const glossaryEntriesSchema = z.record(z.string().min(1), z.string().min(1));
+
+/** Fachbegriffe und ihre verbindliche Übersetzung, erweiterbar über `REALTIME_GLOSSARY` (JSON). */
+const DEFAULT_GLOSSARY: Record<string, string> = {
+  Kündigungsfrist: 'notice period',
+  Rechnungsnummer: 'invoice number',
+  Kundennummer: 'customer number',
+  Lastschrift: 'direct debit',
+};
+
+/**
+ * Reads `REALTIME_GLOSSARY`, a JSON object mapping terms to their translation
+ * (e.g. `{"Tarif": "plan"}`), on top of the default glossary. A malformed value
+ * fails at startup with the name of the variable instead of a bare `SyntaxError`.
+ */
+export function loadGlossaryConfig(env: NodeJS.ProcessEnv = process.env): GlossaryConfig {
+  if (!env.REALTIME_GLOSSARY) {
+    return { entries: { ...DEFAULT_GLOSSARY } };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(env.REALTIME_GLOSSARY);
+  } catch (err) {
+    throw new Error(`REALTIME_GLOSSARY is not valid JSON: ${(err as Error).message}`);
+  }
+  const parsed = glossaryEntriesSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`REALTIME_GLOSSARY must be a JSON object of term/translation strings: ${z.prettifyError(parsed.error)}`);
+  }
+  return { entries: { ...DEFAULT_GLOSSARY, ...parsed.data } };
+}
+
+@RealtimeTool({
+  name: 'lookup_glossary',
+  description:
+    'Looks up the mandatory translation of a domain term. Call it for company or product specific terms before translating them.',
+  parameters: glossaryArgsSchema,
+})
+@Injectable()
+export class GlossaryTool implements RealtimeToolHandler<GlossaryArgs> {
+  private readonly glossary: Map<string, string>;
+
+  constructor(@Optional() @Inject(GLOSSARY_CONFIG) config?: GlossaryConfig) {
+    const entries = (config ?? loadGlossaryConfig()).entries;
+    this.glossary = new Map(Object.entries(entries).map(([term, translation]) => [term.toLowerCase(), translation]));
+  }
+
+  execute({ term }: GlossaryArgs) {
+    const translation = this.glossary.get(term.trim().toLowerCase());
+    return translation ? { term, translation, found: true } : { term, found: false };
+  }
+}
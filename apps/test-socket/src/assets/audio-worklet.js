@@ -4,8 +4,29 @@ class PCMPlayerProcessor extends AudioWorkletProcessor {
     super();
     this.buffer = [];
     this.bufferSize = 0;
+    // Seit dem letzten 'mark'/'flush' abgespielte Samples (für Barge-in / playback.flushed)
+    this.playedSamples = 0;
 
     this.port.onmessage = (e) => {
+      // Steuerbefehle: 'mark' beim Start einer neuen Antwort, 'flush' beim Barge-in
+      if (e.data && e.data.type === 'mark') {
+        this.playedSamples = 0;
+        return;
+      }
+      if (e.data && e.data.type === 'flush') {
+        const droppedSamples = this.bufferSize;
+        this.buffer = [];
+        this.bufferSize = 0;
+        this.port.postMessage({
+          type: 'flushed',
+          playedSamples: this.playedSamples,
+          playedMs: (this.playedSamples / sampleRate) * 1000,
+          droppedSamples,
+        });
+        this.playedSamples = 0;
+        return;
+      }
+
       const samples = e.data;
       if (samples && samples.length) {
         this.buffer.push(samples);
@@ -35,6 +56,7 @@ class PCMPlayerProcessor extends AudioWorkletProcessor {
 
       offset += toCopy;
       this.bufferSize -= toCopy;
+      this.playedSamples += toCopy;
     }
 
     return true;
@@ -8,12 +8,23 @@ import { AppModule } from './app/app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 // import { IoAdapter } from '@nestjs/platform-socket.io';
 import { WsAdapter } from '@nestjs/platform-ws';
+import { MockRealtimeServer } from './app/helper/MockRealtimeServer';
 
 
 const host = process.env.HOST ?? 'localhost';
 const port = process.env.PORT ? Number(process.env.PORT) : 3000;
 
 const bootstrap = async () => {
+  // Lokaler Realtime-Mock statt wss://api.openai.com (z. B. für CI ohne Netzwerk)
+  if (process.env.OPENAI_REALTIME_MOCK === 'true') {
+    const mock = new MockRealtimeServer({
+      port: process.env.OPENAI_REALTIME_MOCK_PORT ? Number(process.env.OPENAI_REALTIME_MOCK_PORT) : 0,
+      // Optional: Antwort-Skript als JSON, z. B. {"toolCalls":[{"name":"lookup_glossary","arguments":"{\"term\":\"Lastschrift\"}"}]}
+      script: process.env.OPENAI_REALTIME_MOCK_SCRIPT ? JSON.parse(process.env.OPENAI_REALTIME_MOCK_SCRIPT) : undefined,
+    });
+    process.env.OPENAI_REALTIME_URL = await mock.start();
+  }
+
   const app = await NestFactory.create<NestFastifyApplication>(
     AppModule,
     new FastifyAdapter()
@@ -22,6 +33,8 @@ const bootstrap = async () => {
   // Socket.io Adapter für Fastify konfigurieren
   // app.useWebSocketAdapter(new IoAdapter(app));
   app.useWebSocketAdapter(new WsAdapter(app));
+  // SIGTERM/SIGINT lösen onApplicationShutdown aus, damit Sessions, Transcoder und Sockets geschlossen werden
+  app.enableShutdownHooks();
 
   const config = new DocumentBuilder()
     .setTitle('chatbot-api')
@@ -0,0 +1,117 @@
+import { EventEmitter } from 'events';
+import { DiscoveryService, ModulesContainer } from '@nestjs/core';
+import { MockRealtimeServer } from '../app/helper/MockRealtimeServer';
+import { ToolRegistryService } from '../app/services/tool-registry.service';
+import { OpenAiRtcService, ReconnectedPayload } from './openai-rtc.service';
+
+const API_KEY = 'spec-upstream-key';
+/** 100 ms PCM16 mono at 24 kHz. */
+const AUDIO_CHUNK = Buffer.alloc(4800);
+
+/** Resolves with the next payload of `event`; `events.once` would reject on the upstream `error` events. */
+function waitForEvent<T>(events: EventEmitter, event: string, timeoutMs = 5000): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`No '${event}' event`)), timeoutMs);
+    events.once(event, (payload: T) => {
+      clearTimeout(timer);
+      resolve(payload);
+    });
+  });
+}
+
+/** Waits until the mock received `count` client events of `type`. */
+async function waitForUpstream(mock: MockRealtimeServer, type: string, count = 1) {
+  const matching = () => mock.receivedEvents.filter((event) => event.type === type);
+  while (matching().length < count) {
+    await waitForEvent(mock.events, 'client.event');
+  }
+  return matching();
+}
+
+describe('OpenAiRtcService session resumption', () => {
+  let service: OpenAiRtcService;
+  let mock: MockRealtimeServer;
+  let port: number;
+
+  beforeEach(async () => {
+    service = new OpenAiRtcService(new ToolRegistryService(new DiscoveryService(new ModulesContainer())));
+    mock = new MockRealtimeServer({ apiKey: API_KEY });
+    port = Number(new URL(await mock.start()).port);
+  });
+
+  afterEach(async () => {
+    service.onModuleDestroy();
+    await mock.stop();
+  });
+
+  function createSession(maxRetries = 10) {
+    return service.createSession(
+      { baseUrl: mock.url, apiKey: API_KEY, maxRetries, baseRetryDelayMs: 20 },
+      { sessionId: 's1', gateway: 'Spec' },
+    );
+  }
+
+  it('replays context and buffered audio into the new upstream session', async () => {
+    const session = createSession();
+    await session.connect();
+    session.sendText('Guten Morgen', 'user', false);
+    await waitForEvent(session.events, 'conversation.item.added');
+
+    const reconnecting = waitForEvent(session.events, 'reconnecting');
+    await mock.stop();
+    await reconnecting;
+    expect(session.isConnected()).toBe(false);
+    // Audio während der Unterbrechung wird gepuffert und nach dem Reconnect nachgeschickt
+    session.sendAudioChunk(AUDIO_CHUNK);
+    session.sendAudioChunk(AUDIO_CHUNK);
+
+    const reconnected = waitForEvent<ReconnectedPayload>(session.events, 'reconnected');
+    mock = new MockRealtimeServer({ apiKey: API_KEY, port });
+    await mock.start();
+
+    expect(await reconnected).toMatchObject({ replayedItems: 1, resumedAudioMs: 200, droppedAudioMs: 0 });
+    expect(session.isConnected()).toBe(true);
+    const [replay] = await waitForUpstream(mock, 'conversation.item.create');
+    expect(replay.item).toMatchObject({
+      role: 'system',
+      content: [{ text: expect.stringContaining('Sprecher: Guten Morgen') }],
+    });
+    expect(await waitForUpstream(mock, 'input_audio_buffer.append', 2)).toHaveLength(2);
+    expect(service.getMetrics()).toMatchObject({ reconnects: 1, connectedSessionsByGateway: { Spec: 1 } });
+  });
+
+  it('drops the oldest buffered audio beyond the buffer limit', async () => {
+    const session = service.createSession(
+      { baseUrl: mock.url, apiKey: API_KEY, baseRetryDelayMs: 20, maxRetries: 10, maxPendingAudioBytes: 4800 },
+      { sessionId: 's1', gateway: 'Spec' },
+    );
+    await session.connect();
+
+    const reconnecting = waitForEvent(session.events, 'reconnecting');
+    await mock.stop();
+    await reconnecting;
+    session.sendAudioChunk(AUDIO_CHUNK);
+    session.sendAudioChunk(AUDIO_CHUNK);
+
+    const reconnected = waitForEvent<ReconnectedPayload>(session.events, 'reconnected');
+    mock = new MockRealtimeServer({ apiKey: API_KEY, port });
+    await mock.start();
+
+    // Ohne Kontext wird nichts nachgespielt
+    expect(await reconnected).toMatchObject({ replayedItems: 0, resumedAudioMs: 100, droppedAudioMs: 100 });
+    await waitForUpstream(mock, 'input_audio_buffer.append');
+    expect(mock.receivedEvents.some((event) => event.type === 'conversation.item.create')).toBe(false);
+  });
+
+  it('gives up after the retry limit and forgets the session', async () => {
+    const session = createSession(2);
+    await session.connect();
+
+    const gaveUp = waitForEvent(session.events, 'gave_up');
+    await mock.stop();
+
+    expect(await gaveUp).toEqual({ attempts: 2, reason: 'socket_closed' });
+    expect(service.getSession('s1')).toBeNull();
+    expect(service.getMetrics()).toMatchObject({ activeSessions: 0, reconnectAttempts: 2, gaveUp: 1 });
+  });
+});
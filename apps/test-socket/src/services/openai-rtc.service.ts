@@ -1,45 +1,204 @@
 import { EventEmitter } from 'events';
-import { Injectable, Logger } from '@nestjs/common';
-import { OpenAIRealtimeSocketHandler } from '../app/helper/OpenAISocketHandler';
-
-export interface OpenAiRtcSessionOptions {
-  model?: string;
-  voice?: string;
-  inputSampleRate?: number;
-  outputSampleRate?: number;
-  instructions?: string;
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import {
+  OpenAIRealtimeSocketHandler,
+  RealtimeSessionConfig,
+  RealtimeSessionOptions,
+  RealtimeSessionUpdate,
+  RealtimeToolProvider,
+} from '../app/helper/OpenAISocketHandler';
+import { LocalSpeechProvider } from '../app/helper/LocalSpeechProvider';
+import {
+  SpeechAudioPayload,
+  speechProviders,
+  SpeechTranslationProvider,
+  TranscriptPayload,
+} from '../app/helper/SpeechTranslationProvider';
+import { ToolRegistryService } from '../app/services/tool-registry.service';
+
+export interface OpenAiRtcSessionOptions extends RealtimeSessionOptions {
   maxRetries?: number;
   baseRetryDelayMs?: number;
+  /** Input audio buffered while the upstream is reconnecting; the oldest audio is dropped first. */
+  maxPendingAudioBytes?: number;
+  /** Buffered audio older than this is dropped instead of being sent after the reconnect. */
+  maxPendingAudioAgeMs?: number;
+  /** Latest conversation entries replayed as context into a resumed session. */
+  maxContextItems?: number;
+  maxContextChars?: number;
 }
 
-export type PartialTranscriptPayload = {
-  delta: string;
-  text: string;
+/** Emitted as `transcript.partial` and `transcript.final` for input and output transcripts. */
+export type PartialTranscriptPayload = TranscriptPayload;
+
+export type TtsChunkPayload = SpeechAudioPayload;
+
+/** Emitted as `reconnecting` before each retry. */
+export type ReconnectingPayload = {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+};
+
+/** Emitted as `reconnected` once a resumed upstream session is ready. */
+export type ReconnectedPayload = {
+  attempt: number;
+  /** Conversation entries replayed as context. */
+  replayedItems: number;
+  /** Buffered input audio sent after the reconnect and audio dropped because of the buffer limits. */
+  resumedAudioMs: number;
+  droppedAudioMs: number;
 };
 
-export type TtsChunkPayload = {
-  base64: string;
-  format: string;
-  sampleRate: number;
-  responseId?: string;
+/** Emitted as `gave_up` when the retry limit is reached; the session stays unusable. */
+export type GaveUpPayload = {
+  attempts: number;
+  reason: string;
 };
 
+/** Who owns a session, used for lifecycle and metrics. */
+export interface OpenAiRtcSessionContext {
+  /** Session id the gateway reports to its client. */
+  sessionId: string;
+  /** Gateway class name, e.g. `RealtimeGateway`. */
+  gateway: string;
+  keyId?: string;
+}
+
+/**
+ * Upstream session with retry, buffered audio and resumption. Besides the
+ * `reconnecting`/`reconnected`/`gave_up` events it emits `tts.chunk`,
+ * `transcript.partial`/`transcript.final`, `playback.flush`, `error` and the
+ * upstream `conversation.item.*` events.
+ */
 export interface OpenAiRtcSession {
+  readonly id: string;
   events: EventEmitter;
+  /** Resolves once the upstream is connected (retries included), rejects when the session gave up. */
   connect(): Promise<void>;
+  isConnected(): boolean;
   sendAudioChunk(chunk: Buffer): void;
   commitAudio(): void;
   requestResponse(instructions?: string): void;
+  /** Changes the running session; the change is replayed after reconnects. */
+  updateSession(update: RealtimeSessionUpdate): Promise<RealtimeSessionConfig>;
+  /** Reports how much of an interrupted response was played, see `playback.flush`. */
+  truncateOutput(playedMs: number, itemId?: string): void;
+  /** Adds typed user text or a system note to the conversation. */
+  sendText(text: string, role?: 'user' | 'system', respond?: boolean): void;
+  deleteItem(itemId: string): void;
   close(): void;
 }
 
-const DEFAULT_INSTRUCTIONS =
-  'Du bist ein Simultanübersetzer. Übersetze fortlaufend von Deutsch nach Englisch. Antworte ausschließlich mit der Übersetzung, keine Kommentare.';
+export interface OpenAiRtcMetrics {
+  activeSessions: number;
+  activeSessionsByGateway: Record<string, number>;
+  /** Sessions whose upstream connection is currently up (not connecting or reconnecting). */
+  connectedSessionsByGateway: Record<string, number>;
+  sessionsCreated: number;
+  reconnectAttempts: number;
+  reconnects: number;
+  gaveUp: number;
+  upstreamErrors: number;
+}
+
+type ContextEntry = { itemId?: string; role: 'user' | 'assistant' | 'system'; text: string };
+
+const CONTEXT_LABELS: Record<ContextEntry['role'], string> = {
+  user: 'Sprecher',
+  assistant: 'Übersetzung',
+  system: 'Notiz',
+};
 
+const DEFAULT_MAX_PENDING_AUDIO_BYTES = 24_000 * 2 * 10;
+const DEFAULT_MAX_PENDING_AUDIO_AGE_MS = 10_000;
+const DEFAULT_MAX_CONTEXT_ITEMS = 10;
+const DEFAULT_MAX_CONTEXT_CHARS = 2_000;
+
+const SESSION_EVENTS = [
+  'conversation.item.created',
+  'conversation.item.added',
+  'conversation.item.done',
+  'conversation.item.retrieved',
+  'conversation.item.deleted',
+  'conversation.item.truncated',
+];
+
+/** Instantiates the backend selected by `options.provider`. */
+function createSpeechTranslationProvider(
+  options: RealtimeSessionOptions,
+  toolProvider?: RealtimeToolProvider,
+): SpeechTranslationProvider {
+  switch (options.provider ?? speechProviders.enum.openai) {
+    case speechProviders.enum.local:
+      return new LocalSpeechProvider(options);
+    case speechProviders.enum.openai:
+      return new OpenAIRealtimeSocketHandler(options, toolProvider);
+  }
+}
+
+/**
+ * Session management for all gateways: creates upstream sessions with the
+ * registered tools, tracks them until they are closed and counts reconnects.
+ */
 @Injectable()
-export class OpenAiRtcService {
-  createSession(options: OpenAiRtcSessionOptions = {}): OpenAiRtcSession {
-    return new OpenAiRtcSessionImpl(options);
+export class OpenAiRtcService implements OnModuleDestroy {
+  private readonly logger = new Logger(OpenAiRtcService.name);
+  private readonly sessions = new Map<string, { session: OpenAiRtcSession; context: OpenAiRtcSessionContext }>();
+  private readonly counters = { sessionsCreated: 0, reconnectAttempts: 0, reconnects: 0, gaveUp: 0, upstreamErrors: 0 };
+
+  constructor(private readonly toolRegistry: ToolRegistryService) {}
+
+  createSession(options: OpenAiRtcSessionOptions, context: OpenAiRtcSessionContext): OpenAiRtcSession {
+    this.closeSession(context.sessionId);
+
+    const session = new OpenAiRtcSessionImpl(context.sessionId, options, this.toolRegistry);
+    this.sessions.set(context.sessionId, { session, context });
+    this.counters.sessionsCreated += 1;
+
+    session.events.on('reconnecting', () => (this.counters.reconnectAttempts += 1));
+    session.events.on('reconnected', () => (this.counters.reconnects += 1));
+    session.events.on('gave_up', () => (this.counters.gaveUp += 1));
+    session.events.on('error', () => (this.counters.upstreamErrors += 1));
+    session.events.once('closed', () => {
+      if (this.sessions.get(context.sessionId)?.session === session) {
+        this.sessions.delete(context.sessionId);
+      }
+    });
+
+    this.logger.log(`Session ${context.sessionId} opened by ${context.gateway}`);
+    return session;
+  }
+
+  getSession(sessionId: string): OpenAiRtcSession | null {
+    return this.sessions.get(sessionId)?.session ?? null;
+  }
+
+  /** Closes the upstream of a session, e.g. when its client disconnected. */
+  closeSession(sessionId: string): void {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) {
+      return;
+    }
+    entry.session.close();
+    this.logger.log(`Session ${sessionId} of ${entry.context.gateway} closed`);
+  }
+
+  getMetrics(): OpenAiRtcMetrics {
+    const activeSessionsByGateway: Record<string, number> = {};
+    const connectedSessionsByGateway: Record<string, number> = {};
+    for (const { session, context } of this.sessions.values()) {
+      activeSessionsByGateway[context.gateway] = (activeSessionsByGateway[context.gateway] ?? 0) + 1;
+      if (session.isConnected()) {
+        connectedSessionsByGateway[context.gateway] = (connectedSessionsByGateway[context.gateway] ?? 0) + 1;
+      }
+    }
+    return { activeSessions: this.sessions.size, activeSessionsByGateway, connectedSessionsByGateway, ...this.counters };
+  }
+
+  onModuleDestroy(): void {
+    [...this.sessions.keys()].forEach((sessionId) => this.closeSession(sessionId));
   }
 }
 
@@ -47,19 +206,53 @@ class OpenAiRtcSessionImpl implements OpenAiRtcSession {
   events = new EventEmitter();
   private readonly logger = new Logger(OpenAiRtcSessionImpl.name);
   private readonly options: OpenAiRtcSessionOptions;
-  private handler: OpenAIRealtimeSocketHandler | null = null;
+  private handler: SpeechTranslationProvider | null = null;
   private closed = false;
+  private everConnected = false;
+  private connectPromise: Promise<void> | null = null;
+  private settleConnect?: (error?: Error) => void;
   private retryCount = 0;
   private retryTimer?: NodeJS.Timeout;
-  private pendingAudio: Buffer[] = [];
-  private partialTranscript = '';
+  private pendingAudio: Array<{ chunk: Buffer; receivedAt: number }> = [];
+  private pendingAudioBytes = 0;
+  private droppedAudioBytes = 0;
   private ready = false;
-
-  constructor(options: OpenAiRtcSessionOptions) {
+  /** Settings changed via `updateSession`, applied again to every new upstream session. */
+  private sessionUpdates: RealtimeSessionUpdate = {};
+  private context: ContextEntry[] = [];
+  /** Transcripts still streaming, keyed by source and item/response id. */
+  private readonly partials = new Map<string, PartialTranscriptPayload>();
+
+  constructor(
+    readonly id: string,
+    options: OpenAiRtcSessionOptions,
+    private readonly toolProvider?: RealtimeToolProvider,
+  ) {
     this.options = options;
   }
 
-  async connect(): Promise<void> {
+  connect(): Promise<void> {
+    if (!this.connectPromise) {
+      this.connectPromise = new Promise((resolve, reject) => {
+        this.settleConnect = (error) => {
+          this.settleConnect = undefined;
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        };
+      });
+      void this.open();
+    }
+    return this.connectPromise;
+  }
+
+  isConnected(): boolean {
+    return this.ready;
+  }
+
+  private async open(): Promise<void> {
     if (this.closed) {
       return;
     }
@@ -71,24 +264,38 @@ class OpenAiRtcSessionImpl implements OpenAiRtcSession {
     this.ready = false;
 
     if (this.handler) {
+      // Listener zuerst entfernen, sonst löst das close() des alten Handlers den nächsten Reconnect aus
+      this.handler.events.removeAllListeners();
       this.handler.close();
     }
 
-    this.handler = new OpenAIRealtimeSocketHandler({
-      model: this.options.model,
-      voice: this.options.voice,
-      inputSampleRate: this.options.inputSampleRate ?? 24_000,
-      outputSampleRate: this.options.outputSampleRate ?? 24_000,
-      instructions: this.options.instructions ?? DEFAULT_INSTRUCTIONS,
-    });
+    const attempt = this.retryCount;
+    this.handler = createSpeechTranslationProvider(
+      {
+        ...this.options,
+        ...this.sessionUpdates,
+        inputSampleRate: this.options.inputSampleRate ?? 24_000,
+        outputSampleRate: this.options.outputSampleRate ?? 24_000,
+      },
+      this.toolProvider,
+    );
 
     this.attachHandlers(this.handler);
 
     try {
-      await this.handler.connectToAudioStream();
+      await this.handler.connect();
+      if (this.closed) {
+        return;
+      }
       this.retryCount = 0;
       this.ready = true;
-      this.flushPendingAudio();
+      if (this.everConnected) {
+        this.resume(attempt);
+      } else {
+        this.everConnected = true;
+        this.flushPendingAudio();
+      }
+      this.settleConnect?.();
     } catch (error) {
       this.logger.error('Failed to connect to OpenAI RTC session', error as Error);
       this.scheduleReconnect('connect_failed');
@@ -101,11 +308,11 @@ class OpenAiRtcSessionImpl implements OpenAiRtcSession {
     }
 
     if (!this.ready || !this.handler) {
-      this.pendingAudio.push(chunk);
+      this.bufferAudio(chunk);
       return;
     }
 
-    this.handler.sendAudioChunk(chunk);
+    this.handler.sendAudio(chunk);
   }
 
   commitAudio(): void {
@@ -113,7 +320,7 @@ class OpenAiRtcSessionImpl implements OpenAiRtcSession {
       return;
     }
 
-    this.handler.commitAudio();
+    this.handler.commit();
   }
 
   requestResponse(instructions?: string): void {
@@ -121,78 +328,279 @@ class OpenAiRtcSessionImpl implements OpenAiRtcSession {
       return;
     }
 
-    this.handler.requestResponse(instructions ?? this.options.instructions ?? DEFAULT_INSTRUCTIONS);
+    this.handler.requestResponse(instructions);
+  }
+
+  async updateSession(update: RealtimeSessionUpdate): Promise<RealtimeSessionConfig> {
+    if (!this.handler || !this.ready) {
+      throw new Error('OpenAI RTC session is not connected');
+    }
+
+    const config = await this.handler.updateSession(update);
+    const languagesChanged = update.sourceLanguage !== undefined || update.targetLanguage !== undefined;
+    this.sessionUpdates = {
+      ...this.sessionUpdates,
+      ...Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)),
+    };
+    // Wie im Handler: neues Sprachpaar ohne eigene Instructions ersetzt den alten Prompt
+    if (languagesChanged && update.instructions === undefined) {
+      this.sessionUpdates.instructions = undefined;
+    }
+    return config;
+  }
+
+  truncateOutput(playedMs: number, itemId?: string): void {
+    if (!this.handler || !this.ready) {
+      return;
+    }
+
+    this.handler.truncateOutput(playedMs, itemId);
+  }
+
+  sendText(text: string, role: 'user' | 'system' = 'user', respond?: boolean): void {
+    if (!this.handler || !this.ready) {
+      return;
+    }
+
+    this.handler.sendText(text, role, respond);
+  }
+
+  deleteItem(itemId: string): void {
+    if (!this.handler || !this.ready) {
+      return;
+    }
+
+    this.handler.deleteItem(itemId);
   }
 
   close(): void {
+    if (this.closed && !this.handler) {
+      return;
+    }
     this.closed = true;
+    this.ready = false;
     if (this.retryTimer) {
       clearTimeout(this.retryTimer);
       this.retryTimer = undefined;
     }
+    this.pendingAudio = [];
+    this.pendingAudioBytes = 0;
+    this.handler?.events.removeAllListeners();
     this.handler?.close();
+    this.handler = null;
+    this.settleConnect?.(new Error('OpenAI RTC session closed'));
+    this.events.emit('closed');
   }
 
-  private attachHandlers(handler: OpenAIRealtimeSocketHandler): void {
+  private attachHandlers(handler: SpeechTranslationProvider): void {
     handler.events.on('audio.output', (payload) => {
       this.events.emit('tts.chunk', payload as TtsChunkPayload);
     });
 
-    handler.events.on('transcript', (delta) => {
-      if (typeof delta === 'string') {
-        this.partialTranscript += delta;
-        const payload: PartialTranscriptPayload = {
-          delta,
-          text: this.partialTranscript,
-        };
-        this.events.emit('transcript.partial', payload);
-      }
+    handler.events.on('transcript.delta', (payload: PartialTranscriptPayload) => {
+      this.partials.set(this.transcriptKey(payload), payload);
+      this.events.emit('transcript.partial', payload);
+    });
+
+    handler.events.on('transcript.done', (payload: PartialTranscriptPayload) => {
+      this.partials.delete(this.transcriptKey(payload));
+      this.remember({
+        itemId: payload.itemId,
+        role: payload.source === 'input' ? 'user' : 'assistant',
+        text: payload.text,
+      });
+      this.events.emit('transcript.final', payload);
+    });
+
+    // Getippte Nachrichten und Notizen, Audio-Items kommen über die Transkripte
+    handler.events.on('conversation.item.done', (msg) => this.rememberTypedItem(msg.item));
+    handler.events.on('conversation.item.added', (msg) => this.rememberTypedItem(msg.item));
+    handler.events.on('conversation.item.created', (msg) => this.rememberTypedItem(msg.item));
+    handler.events.on('conversation.item.deleted', (msg: { item_id: string }) => {
+      this.context = this.context.filter((entry) => entry.itemId !== msg.item_id);
     });
+    SESSION_EVENTS.forEach((event) => handler.events.on(event, (msg) => this.events.emit(event, msg)));
 
-    handler.events.on('response.complete', () => {
-      this.partialTranscript = '';
+    handler.events.on('playback.flush', (payload) => {
+      this.events.emit('playback.flush', payload);
     });
 
     handler.events.on('error', (err) => {
+      // Fehler-Events beenden die Verbindung nicht, der Reconnect hängt am close
       this.logger.warn('OpenAI RTC session error', err as Error);
       this.events.emit('error', err);
-      this.scheduleReconnect('error_event');
     });
 
     handler.events.on('close', (info) => {
       if (!this.closed) {
         this.logger.warn('OpenAI RTC session closed unexpectedly', info as Error);
+        this.ready = false;
+        this.finalizePartials();
         this.scheduleReconnect('socket_closed');
       }
     });
   }
 
-  private flushPendingAudio(): void {
-    if (!this.handler || !this.ready || this.pendingAudio.length === 0) {
+  /** Replays the conversation context and buffered audio into the new upstream session. */
+  private resume(attempt: number): void {
+    const summary = this.buildContextSummary();
+    if (summary) {
+      this.handler?.sendText(summary.text, 'system', false);
+    }
+    const resumedAudioMs = this.flushPendingAudio();
+    const payload: ReconnectedPayload = {
+      attempt,
+      replayedItems: summary?.items ?? 0,
+      resumedAudioMs,
+      droppedAudioMs: this.audioMs(this.droppedAudioBytes),
+    };
+    this.droppedAudioBytes = 0;
+    this.logger.log(`OpenAI RTC session resumed after ${attempt} attempt(s)`);
+    this.events.emit('reconnected', payload);
+  }
+
+  private buildContextSummary(): { text: string; items: number } | null {
+    const maxChars = this.options.maxContextChars ?? DEFAULT_MAX_CONTEXT_CHARS;
+    const lines: string[] = [];
+    let length = 0;
+    for (const entry of [...this.context].reverse()) {
+      const line = `${CONTEXT_LABELS[entry.role]}: ${entry.text}`;
+      if (length + line.length > maxChars) {
+        break;
+      }
+      lines.unshift(line);
+      length += line.length + 1;
+    }
+    if (lines.length === 0) {
+      return null;
+    }
+    return {
+      text: `Die Verbindung wurde neu aufgebaut. Bisheriger Verlauf zur Orientierung, nicht erneut übersetzen:\n${lines.join('\n')}`,
+      items: lines.length,
+    };
+  }
+
+  private remember(entry: ContextEntry): void {
+    if (!entry.text.trim()) {
+      return;
+    }
+    const existing = entry.itemId ? this.context.findIndex((item) => item.itemId === entry.itemId) : -1;
+    if (existing !== -1) {
+      this.context[existing] = entry;
       return;
     }
+    this.context.push(entry);
+    const maxItems = this.options.maxContextItems ?? DEFAULT_MAX_CONTEXT_ITEMS;
+    if (this.context.length > maxItems) {
+      this.context.splice(0, this.context.length - maxItems);
+    }
+  }
+
+  private rememberTypedItem(item?: {
+    id: string;
+    type: string;
+    role?: ContextEntry['role'];
+    content?: Array<{ type: string; text?: string }>;
+  }): void {
+    if (item?.type !== 'message' || !item.role) {
+      return;
+    }
+    const text = (item.content ?? [])
+      .filter((part) => part.type === 'input_text')
+      .map((part) => part.text ?? '')
+      .join(' ');
+    this.remember({ itemId: item.id, role: item.role, text });
+  }
+
+  /** Transcripts cut off by the disconnect are closed as final so clients do not wait for them. */
+  private finalizePartials(): void {
+    for (const partial of this.partials.values()) {
+      const payload: PartialTranscriptPayload = {
+        ...partial,
+        delta: '',
+        final: true,
+        timestamp: new Date().toISOString(),
+      };
+      this.remember({
+        itemId: payload.itemId,
+        role: payload.source === 'input' ? 'user' : 'assistant',
+        text: payload.text,
+      });
+      this.events.emit('transcript.final', payload);
+    }
+    this.partials.clear();
+  }
+
+  private transcriptKey(payload: PartialTranscriptPayload): string {
+    return `${payload.source}:${payload.itemId ?? payload.responseId ?? ''}`;
+  }
+
+  private bufferAudio(chunk: Buffer): void {
+    this.pendingAudio.push({ chunk, receivedAt: Date.now() });
+    this.pendingAudioBytes += chunk.length;
+
+    const maxBytes = this.options.maxPendingAudioBytes ?? DEFAULT_MAX_PENDING_AUDIO_BYTES;
+    while (this.pendingAudioBytes > maxBytes && this.pendingAudio.length > 0) {
+      this.dropOldestAudio();
+    }
+  }
+
+  private dropOldestAudio(): void {
+    const dropped = this.pendingAudio.shift();
+    if (dropped) {
+      this.pendingAudioBytes -= dropped.chunk.length;
+      this.droppedAudioBytes += dropped.chunk.length;
+    }
+  }
+
+  /** Sends the buffered audio that is not too old and returns its duration in ms. */
+  private flushPendingAudio(): number {
+    if (!this.handler || !this.ready || this.pendingAudio.length === 0) {
+      return 0;
+    }
+
+    const maxAge = this.options.maxPendingAudioAgeMs ?? DEFAULT_MAX_PENDING_AUDIO_AGE_MS;
+    const now = Date.now();
+    while (this.pendingAudio.length > 0 && now - this.pendingAudio[0].receivedAt > maxAge) {
+      this.dropOldestAudio();
+    }
 
     const queued = [...this.pendingAudio];
+    const bytes = this.pendingAudioBytes;
     this.pendingAudio = [];
-    queued.forEach((chunk) => this.handler?.sendAudioChunk(chunk));
+    this.pendingAudioBytes = 0;
+    queued.forEach(({ chunk }) => this.handler?.sendAudio(chunk));
+    return this.audioMs(bytes);
+  }
+
+  /** Duration of PCM16 mono input audio. */
+  private audioMs(bytes: number): number {
+    return Math.round((bytes / 2 / (this.options.inputSampleRate ?? 24_000)) * 1000);
   }
 
   private scheduleReconnect(reason: string): void {
-    if (this.closed) {
+    if (this.closed || this.retryTimer) {
       return;
     }
 
     const maxRetries = this.options.maxRetries ?? 3;
     if (this.retryCount >= maxRetries) {
-      this.events.emit('error', new Error(`OpenAI RTC session retry limit reached (${reason}).`));
+      const payload: GaveUpPayload = { attempts: this.retryCount, reason };
+      this.logger.error(`OpenAI RTC session ${this.id} gave up after ${this.retryCount} retries (${reason})`);
+      this.events.emit('gave_up', payload);
+      this.settleConnect?.(new Error(`OpenAI RTC session retry limit reached (${reason}).`));
+      this.close();
       return;
     }
 
     const delay = (this.options.baseRetryDelayMs ?? 500) * Math.pow(2, this.retryCount);
     this.retryCount += 1;
     this.logger.warn(`Scheduling OpenAI RTC reconnect in ${delay} ms (${reason})`);
+    const payload: ReconnectingPayload = { attempt: this.retryCount, maxRetries, delayMs: delay, reason };
+    this.events.emit('reconnecting', payload);
     this.retryTimer = setTimeout(() => {
-      void this.connect();
+      this.retryTimer = undefined;
+      void this.open();
     }, delay);
   }
 }